@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BatchLoader } from '../batch.js';
+import { MockLearnWorldsServer } from '../mock-server.js';
+import { LearnWorldsClient } from '../client.js';
+import { NotFoundError, LearnWorldsApiError } from '../errors.js';
+import type { Course, LearnWorldsConfig } from '../types.js';
+
+const course = (id: string): Course => ({
+  id,
+  title: `Course ${id}`,
+  status: 'published',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+});
+
+describe('BatchLoader', () => {
+  it('should group ids from the same tick into one request', async () => {
+    const batches: string[][] = [];
+    const loader = new BatchLoader(
+      async (ids) => {
+        batches.push(ids);
+        return ids.map((id) => ({ id }));
+      },
+      async (id) => ({ id })
+    );
+
+    const results = await Promise.all([loader.load('1'), loader.load('2'), loader.load('1')]);
+
+    expect(results).toEqual([{ id: '1' }, { id: '2' }, { id: '1' }]);
+    expect(batches).toEqual([['1', '2']]);
+  });
+
+  it('should split batches at maxBatchSize', async () => {
+    const batches: string[][] = [];
+    const loader = new BatchLoader(
+      async (ids) => {
+        batches.push(ids);
+        return ids.map((id) => ({ id }));
+      },
+      async (id) => ({ id }),
+      { maxBatchSize: 2 }
+    );
+
+    await Promise.all(['1', '2', '3', '4'].map((id) => loader.load(id)));
+
+    expect(batches).toEqual([
+      ['1', '2'],
+      ['3', '4'],
+    ]);
+  });
+
+  it('should stop batching when the list endpoint rejects the filter', async () => {
+    let listCalls = 0;
+    const loader = new BatchLoader(
+      async () => {
+        listCalls++;
+        throw new LearnWorldsApiError('Unknown filter', { status: 400 });
+      },
+      async (id) => ({ id })
+    );
+
+    await expect(Promise.all([loader.load('1'), loader.load('2')])).resolves.toEqual([{ id: '1' }, { id: '2' }]);
+    await Promise.all([loader.load('3'), loader.load('4')]);
+
+    expect(listCalls).toBe(1);
+    expect(loader.batching).toBe(false);
+  });
+});
+
+describe('LearnWorldsClient request batching and deduplication', () => {
+  let server: MockLearnWorldsServer;
+
+  const createClient = async (overrides: Partial<LearnWorldsConfig>): Promise<LearnWorldsClient> => {
+    const client = server.createClient(overrides);
+    await client.auth.authenticateWithClientCredentials();
+    return client;
+  };
+
+  const apiRequests = (): Array<{ method: string; path: string; status: number }> =>
+    server.requests.filter((request) => request.path.startsWith('/v2/'));
+
+  beforeEach(() => {
+    server = new MockLearnWorldsServer({ courses: [course('c1'), course('c2'), course('c3')] });
+  });
+
+  it('should share one request between identical concurrent GETs', async () => {
+    const client = await createClient({ dedupe: true });
+
+    const [first, second] = await Promise.all([client.getCourse('c1'), client.getCourse('c1')]);
+    await client.getCourse('c1');
+
+    expect(first).toEqual(second);
+    expect(apiRequests()).toHaveLength(2);
+  });
+
+  it('should not deduplicate writes', async () => {
+    const client = await createClient({ dedupe: true });
+
+    await Promise.allSettled([
+      client.createUser({ email: 'jane@example.com' }),
+      client.createUser({ email: 'jane@example.com' }),
+    ]);
+
+    expect(apiRequests()).toHaveLength(2);
+  });
+
+  it('should fetch courses requested in the same tick with one list request', async () => {
+    const client = await createClient({ batch: true });
+
+    const courses = await Promise.all([client.getCourse('c1'), client.getCourse('c3')]);
+
+    expect(courses.map((c) => c.id)).toEqual(['c1', 'c3']);
+    expect(apiRequests()).toHaveLength(1);
+    expect(server.requests.at(-1)?.path).toBe('/v2/courses');
+  });
+
+  it('should fetch missing ids individually so they fail with their own error', async () => {
+    const client = await createClient({ batch: true });
+
+    const [found, missing] = await Promise.allSettled([client.getCourse('c1'), client.getCourse('missing')]);
+
+    expect(found).toMatchObject({ status: 'fulfilled', value: { id: 'c1' } });
+    expect(missing).toMatchObject({ status: 'rejected', reason: expect.any(NotFoundError) });
+  });
+
+  it('should fall back to individual requests when the endpoint ignores the filter', async () => {
+    const client = await createClient({ batch: true });
+    client.use({
+      beforeRequest: (context) => {
+        delete context.request.params?.ids;
+      },
+    });
+
+    const courses = await Promise.all([client.getCourse('c2'), client.getCourse('c3')]);
+    await Promise.all([client.getCourse('c2'), client.getCourse('c3')]);
+
+    expect(courses.map((c) => c.id)).toEqual(['c2', 'c3']);
+    expect(apiRequests().map((request) => request.path)).toEqual([
+      '/v2/courses',
+      '/v2/courses/c2',
+      '/v2/courses/c3',
+      '/v2/courses/c2',
+      '/v2/courses/c3',
+    ]);
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, vi } from 'vitest';
+import { runBulk, BulkOperations } from '../bulk.js';
+import { AbortError, LearnWorldsApiError, ValidationError } from '../errors.js';
+import { MockLearnWorldsServer } from '../mock-server.js';
+import type { LearnWorldsClient } from '../client.js';
+
+describe('runBulk', () => {
+  it('should return per-item results in input order', async () => {
+    const results = await runBulk([1, 2, 3], async (n) => {
+      if (n === 2) throw new ValidationError('Invalid');
+      return n * 10;
+    });
+
+    expect(results.map((r) => r.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    expect(results[0]).toMatchObject({ index: 0, input: 1, value: 10 });
+    expect(results[1].status === 'rejected' && results[1].error).toBeInstanceOf(ValidationError);
+  });
+
+  it('should wrap unknown errors', async () => {
+    const [result] = await runBulk(['a'], async () => {
+      throw new Error('boom');
+    });
+
+    expect(result.status === 'rejected' && result.error).toBeInstanceOf(LearnWorldsApiError);
+    expect(result.status === 'rejected' && result.error.message).toBe('boom');
+  });
+
+  it('should bound concurrency', async () => {
+    let active = 0;
+    let maxActive = 0;
+
+    await runBulk(
+      Array.from({ length: 10 }, (_, i) => i),
+      async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        active--;
+      },
+      { concurrency: 3 }
+    );
+
+    expect(maxActive).toBe(3);
+  });
+
+  it('should report progress', async () => {
+    const onProgress = vi.fn();
+
+    await runBulk([1, 2], async (n) => n, { onProgress });
+
+    expect(onProgress).toHaveBeenCalledTimes(2);
+    expect(onProgress).toHaveBeenLastCalledWith({ total: 2, completed: 2, succeeded: 2, failed: 0 });
+  });
+
+  it('should reject items not yet started once aborted', async () => {
+    const controller = new AbortController();
+    const task = vi.fn(async (n: number) => {
+      if (n === 1) controller.abort();
+      return n;
+    });
+
+    const results = await runBulk([1, 2, 3], task, { concurrency: 1, signal: controller.signal });
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(results[0].status).toBe('fulfilled');
+    expect(results[1].status === 'rejected' && results[1].error).toBeInstanceOf(AbortError);
+    expect(results[2].status).toBe('rejected');
+  });
+});
+
+describe('BulkOperations', () => {
+  it('should call the client for every item', async () => {
+    const client = {
+      createUser: vi.fn(async (user) => ({ id: user.email })),
+      enrollUserToProduct: vi.fn(async () => ({})),
+      unenrollUserFromProduct: vi.fn(async () => undefined),
+      updateUserTags: vi.fn(async () => ({})),
+    } as unknown as LearnWorldsClient;
+    const bulk = new BulkOperations(client);
+
+    const { signal } = new AbortController();
+    const options = { signal, priority: 'low' as const };
+
+    const created = await bulk.createUsers([{ email: 'a@example.com' }, { email: 'b@example.com' }], options);
+    await bulk.enroll([{ user_id: 'u1', product_id: 'c1', product_type: 'course' }], options);
+    await bulk.unenroll([{ user_id: 'u1', product_id: 'c1', product_type: 'course' }], options);
+    await bulk.updateTags([{ user_id: 'u1', tags: ['vip'], action: 'add' }], options);
+
+    expect(created.map((r) => r.status === 'fulfilled' && r.value.id)).toEqual(['a@example.com', 'b@example.com']);
+    expect(client.createUser).toHaveBeenCalledWith({ email: 'a@example.com' }, options);
+    expect(client.enrollUserToProduct).toHaveBeenCalledWith(
+      { user_id: 'u1', product_id: 'c1', product_type: 'course' },
+      options
+    );
+    expect(client.unenrollUserFromProduct).toHaveBeenCalledWith(expect.anything(), options);
+    expect(client.updateUserTags).toHaveBeenCalledWith('u1', { tags: ['vip'], action: 'add' }, options);
+  });
+
+  it('should cancel requests in flight when the signal aborts', async () => {
+    const server = new MockLearnWorldsServer();
+    const client = server.createClient();
+    await client.auth.authenticateWithClientCredentials();
+    server.setLatency(1000);
+    const controller = new AbortController();
+
+    const pending = client.bulk.createUsers([{ email: 'a@example.com' }, { email: 'b@example.com' }], {
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(), 5);
+    const results = await pending;
+
+    for (const result of results) {
+      expect(result.status === 'rejected' && result.error).toBeInstanceOf(AbortError);
+    }
+    expect(server.users.size).toBe(0);
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { MemoryCacheStore, createCacheKey } from '../cache.js';
+import { MockLearnWorldsServer } from '../mock-server.js';
+import { LearnWorldsClient } from '../client.js';
+import type { CacheEntry, CacheOptions } from '../types.js';
+
+const course = {
+  id: 'course-1',
+  title: 'Intro',
+  status: 'published' as const,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+describe('MemoryCacheStore', () => {
+  const entry = (value: unknown): CacheEntry => ({
+    value,
+    expiresAt: Date.now() + 1000,
+    staleUntil: Date.now() + 1000,
+    tags: {},
+  });
+
+  it('should evict the least recently used entry', async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set('a', entry(1), 1000);
+    await store.set('b', entry(2), 1000);
+    await store.get('a');
+    await store.set('c', entry(3), 1000);
+
+    expect(await store.get('b')).toBeUndefined();
+    expect((await store.get('a'))?.value).toBe(1);
+    expect(store.size).toBe(2);
+  });
+
+  it('should drop entries after their ttl and return copies', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('a', entry({ title: 'Intro' }), 0);
+    await store.set('b', entry({ title: 'Intro' }), 1000);
+
+    const copy = await store.get('b');
+    (copy!.value as { title: string }).title = 'Changed';
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    expect(await store.get('a')).toBeUndefined();
+    expect((await store.get('b'))?.value).toEqual({ title: 'Intro' });
+  });
+});
+
+describe('createCacheKey', () => {
+  it('should sort parameters and skip empty ones', () => {
+    expect(createCacheKey('GET', '/courses', { per_page: 10, page: 2, search: undefined })).toBe(
+      'GET /courses?page=2&per_page=10'
+    );
+    expect(createCacheKey('GET', '/courses/1')).toBe('GET /courses/1');
+  });
+});
+
+describe('LearnWorldsClient response cache', () => {
+  let server: MockLearnWorldsServer;
+  let now: number;
+
+  const createClient = async (cache: CacheOptions): Promise<LearnWorldsClient> => {
+    const client = server.createClient({ cache });
+    await client.auth.authenticateWithClientCredentials();
+    return client;
+  };
+
+  const apiRequests = (): Array<{ method: string; path: string; status: number }> =>
+    server.requests.filter((request) => request.path.startsWith('/v2/'));
+
+  beforeEach(() => {
+    now = Date.parse('2024-06-01T00:00:00Z');
+    vi.useFakeTimers({ toFake: ['Date'], now });
+    server = new MockLearnWorldsServer({ courses: [course] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should serve catalog reads from the cache by default', async () => {
+    const client = await createClient({});
+
+    await client.getCourse('course-1');
+    await client.getCourse('course-1');
+    await client.getAllCourses();
+    await client.getAllCourses();
+
+    expect(apiRequests()).toHaveLength(2);
+  });
+
+  it('should not cache resources without a ttl', async () => {
+    const client = await createClient({ ttl: { courses: 1000 } });
+
+    await client.getAllBundles();
+    await client.getAllBundles();
+
+    expect(apiRequests()).toHaveLength(2);
+  });
+
+  it('should revalidate expired entries with If-None-Match', async () => {
+    const client = await createClient({ ttl: { courses: 1000 } });
+
+    await client.getCourse('course-1');
+    vi.setSystemTime(now + 1500);
+    await expect(client.getCourse('course-1')).resolves.toMatchObject({ title: 'Intro' });
+
+    expect(apiRequests().map((request) => request.status)).toEqual([200, 304]);
+
+    await client.getCourse('course-1');
+    expect(apiRequests()).toHaveLength(2);
+  });
+
+  it('should serve stale entries while refreshing in the background', async () => {
+    const client = await createClient({ ttl: { courses: 1000 }, staleWhileRevalidate: 5000 });
+
+    await client.getCourse('course-1');
+    server.courses.set('course-1', { ...course, title: 'Updated' });
+    vi.setSystemTime(now + 2000);
+
+    await expect(client.getCourse('course-1')).resolves.toMatchObject({ title: 'Intro' });
+    await vi.waitFor(() => expect(client.getCourse('course-1')).resolves.toMatchObject({ title: 'Updated' }));
+    expect(apiRequests()).toHaveLength(2);
+  });
+
+  it('should invalidate related entries after writes', async () => {
+    const client = await createClient({ ttl: { users: 60000, enrollments: 60000 } });
+    const user = await client.createUser({ email: 'jane@example.com' });
+
+    await client.getUser(user.id);
+    await client.getUserEnrollments(user.id);
+    await client.updateUser(user.id, { first_name: 'Jane' });
+    await client.enrollUserToProduct({ user_id: user.id, product_id: 'course-1', product_type: 'course' });
+
+    await expect(client.getUser(user.id)).resolves.toMatchObject({ first_name: 'Jane' });
+    await expect(client.getUserEnrollments(user.id)).resolves.toHaveLength(1);
+    expect(apiRequests().filter((request) => request.method === 'GET')).toHaveLength(4);
+  });
+
+  it('should use a custom store', async () => {
+    const store = new MemoryCacheStore();
+    const set = vi.spyOn(store, 'set');
+    const client = await createClient({ store });
+
+    await client.getCourse('course-1');
+
+    expect(set).toHaveBeenCalledWith(
+      'learnworlds:api.mockschool.learnworlds.com:GET /courses/course-1',
+      expect.objectContaining({ etag: expect.any(String) }),
+      expect.any(Number)
+    );
+  });
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { runCli } from '../cli/index.js';
+import { Args } from '../cli/args.js';
+import { formatOutput } from '../cli/output.js';
+import { MockLearnWorldsServer } from '../mock-server.js';
+
+describe('Args', () => {
+  it('should parse positionals, values, repeated and boolean flags', () => {
+    const args = new Args(['users', 'tags', 'u1', '--add', 'a,b', '--add=c', '--dry-run', '-o', 'json']);
+
+    expect(args.positionals).toEqual(['users', 'tags', 'u1']);
+    expect(args.strings('add')).toEqual(['a', 'b', 'c']);
+    expect(args.boolean('dry-run')).toBe(true);
+    expect(args.string('output')).toBe('json');
+  });
+});
+
+describe('formatOutput', () => {
+  const rows = [
+    { id: '1', title: 'Intro, part 1', tags: ['a', 'b'] },
+    { id: '2', title: 'Say "hi"', tags: [] },
+  ];
+
+  it('should render lists as aligned tables', () => {
+    expect(formatOutput(rows, 'table', ['id', 'title'])).toBe(
+      ['ID  TITLE', '--  -------------', '1   Intro, part 1', '2   Say "hi"'].join('\n')
+    );
+  });
+
+  it('should escape CSV fields', () => {
+    expect(formatOutput(rows, 'csv')).toBe(['id,title,tags', '1,"Intro, part 1","a, b"', '2,"Say ""hi""",'].join('\n'));
+  });
+
+  it('should render single records as field/value pairs', () => {
+    expect(formatOutput({ id: '1', tags: ['a'] }, 'table')).toBe(
+      ['FIELD  VALUE', '-----  -----', 'id     1', 'tags   a'].join('\n')
+    );
+  });
+});
+
+describe('learnworlds CLI', () => {
+  let server: MockLearnWorldsServer;
+  let configDir: string;
+  let stdout: string;
+  let stderr: string;
+
+  const run = (...argv: string[]): Promise<number> =>
+    runCli(argv, {
+      configDir,
+      fetch: server.fetch,
+      env: {},
+      stdout: (text) => (stdout += text),
+      stderr: (text) => (stderr += text),
+      prompt: () => Promise.reject(new Error('Unexpected prompt')),
+    });
+
+  const login = (): Promise<number> =>
+    run(
+      'auth',
+      'login',
+      '--profile',
+      'school-a',
+      '--school-domain',
+      'mockschool',
+      '--api-host',
+      'api.mockschool.learnworlds.com',
+      '--client-id',
+      'mock-client-id',
+      '--client-secret',
+      'mock-client-secret'
+    );
+
+  beforeEach(async () => {
+    server = new MockLearnWorldsServer({
+      courses: [
+        {
+          id: 'course-1',
+          title: 'Intro',
+          status: 'published',
+          created_at: '2024-01-01T00:00:00Z',
+          updated_at: '2024-01-01T00:00:00Z',
+        },
+      ],
+    });
+    configDir = await mkdtemp(join(tmpdir(), 'learnworlds-cli-'));
+    stdout = '';
+    stderr = '';
+  });
+
+  afterEach(async () => {
+    await rm(configDir, { recursive: true, force: true });
+  });
+
+  it('should save a profile and its tokens on login', async () => {
+    expect(await login()).toBe(0);
+
+    const config = JSON.parse(await readFile(join(configDir, 'config.json'), 'utf8'));
+    expect(config).toMatchObject({
+      defaultProfile: 'school-a',
+      profiles: { 'school-a': { schoolDomain: 'mockschool', grant: 'client_credentials' } },
+    });
+    await expect(readFile(join(configDir, 'tokens', 'school-a.json'), 'utf8')).resolves.toContain('accessToken');
+  });
+
+  it('should ask for the password as a secret unless it is in the environment', async () => {
+    const prompts: Array<[string, unknown]> = [];
+    const loginWithPassword = (env: Record<string, string>): Promise<number> =>
+      runCli(
+        [
+          ...['auth', 'login', '--school-domain', 'mockschool', '--api-host', 'api.mockschool.learnworlds.com'],
+          ...['--client-id', 'mock-client-id', '--grant', 'password'],
+        ],
+        {
+          configDir,
+          fetch: server.fetch,
+          env: { LEARNWORLDS_CLIENT_SECRET: 'mock-client-secret', ...env },
+          stdout: (text) => (stdout += text),
+          stderr: (text) => (stderr += text),
+          prompt: (question, options) => {
+            prompts.push([question, options]);
+            return Promise.resolve(question === 'Username: ' ? 'jane@example.com' : 's3cret-pass');
+          },
+        }
+      );
+
+    expect(await loginWithPassword({})).toBe(0);
+    expect(prompts).toEqual([
+      ['Username: ', undefined],
+      ['Password: ', { secret: true }],
+    ]);
+
+    prompts.length = 0;
+    expect(await loginWithPassword({ LEARNWORLDS_PASSWORD: 's3cret-pass' })).toBe(0);
+    expect(prompts.map(([question]) => question)).toEqual(['Username: ']);
+  });
+
+  it('should run commands against the default profile', async () => {
+    await login();
+    stdout = '';
+
+    expect(await run('users', 'create', '--email', 'jane@example.com', '--tag', 'vip', '-o', 'json')).toBe(0);
+    const user = JSON.parse(stdout);
+    expect(user).toMatchObject({ email: 'jane@example.com', tags: ['vip'] });
+
+    expect(await run('enroll', user.id, 'course-1')).toBe(0);
+    stdout = '';
+    expect(await run('users', 'enrollments', user.id, '--output', 'csv')).toBe(0);
+
+    expect(stdout.split('\n')[0]).toBe('id,product_id,product_type,enrollment_type,status,enrolled_at');
+    expect(stdout).toContain('course-1,course');
+  });
+
+  it('should print planned writes without sending them in dry-run mode', async () => {
+    await login();
+    stdout = '';
+    const requests = server.requests.length;
+
+    expect(await run('users', 'tags', 'u1', '--remove', 'trial', '--dry-run', '-o', 'json')).toBe(0);
+
+    expect(JSON.parse(stdout)).toEqual({
+      dry_run: true,
+      method: 'PATCH',
+      endpoint: '/users/u1/tags',
+      body: { tags: ['trial'], action: 'remove' },
+    });
+    expect(server.requests).toHaveLength(requests);
+  });
+
+  it('should redact the password of a planned user', async () => {
+    await login();
+    stdout = '';
+
+    const args = ['--email', 'jane@example.com', '--password', 's3cret-pass', '--dry-run', '-o', 'json'];
+    expect(await run('users', 'create', ...args)).toBe(0);
+
+    expect(stdout).not.toContain('s3cret-pass');
+    expect(JSON.parse(stdout)).toMatchObject({ body: { email: 'jane@example.com', password: '[REDACTED]' } });
+    expect(server.users.size).toBe(0);
+  });
+
+  it('should find users by email regardless of case', async () => {
+    await login();
+    await run('users', 'create', '--email', 'jane@example.com');
+    stdout = '';
+
+    expect(await run('users', 'get', '--email', 'Jane@Example.com', '-o', 'json')).toBe(0);
+    expect(JSON.parse(stdout)).toMatchObject({ email: 'jane@example.com' });
+    expect(await run('users', 'get', '--email', 'nobody@example.com')).toBe(1);
+    expect(stderr).toContain('No user with email nobody@example.com');
+  });
+
+  it('should report usage errors with exit code 2 and API errors with exit code 1', async () => {
+    await login();
+
+    expect(await run('users', 'tags', 'u1')).toBe(2);
+    expect(stderr).toContain('Pass exactly one of --add, --remove or --set');
+
+    expect(await run('courses', 'get', 'missing')).toBe(1);
+    expect(stderr).toContain('Error:');
+  });
+
+  it('should ask for login when no profile is configured', async () => {
+    expect(await run('courses', 'list')).toBe(2);
+    expect(stderr).toContain('learnworlds auth login --profile default');
+  });
+});
@@ -1,10 +1,12 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import axios from 'axios';
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
 import { LearnWorldsClient } from '../client.js';
+import type { TransportRequest, TransportResponse } from '../transport.js';
 import type {
   Course,
+  CourseContents,
   Bundle,
   User,
+  UserCourseProgress,
   CreateUserRequest,
   UpdateUserRequest,
   UpdateUserTagsRequest,
@@ -13,9 +15,6 @@ import type {
   Enrollment,
 } from '../types.js';
 
-vi.mock('axios');
-const mockedAxios = vi.mocked(axios, true);
-
 vi.mock('../oauth.js', () => ({
   OAuth2Client: vi.fn().mockImplementation(() => ({
     getAccessToken: vi.fn().mockResolvedValue('test-access-token'),
@@ -25,51 +24,66 @@ vi.mock('../oauth.js', () => ({
   })),
 }));
 
+interface SentCall {
+  method: string;
+  url: string;
+  data?: unknown;
+  params?: Record<string, string>;
+}
+
 describe('LearnWorldsClient', () => {
   let client: LearnWorldsClient;
-  let mockAxiosInstance: {
-    request: ReturnType<typeof vi.fn>;
-    interceptors: {
-      request: {
-        use: ReturnType<typeof vi.fn>;
-      };
-      response: {
-        use: ReturnType<typeof vi.fn>;
-      };
+  let transport: { send: Mock<[TransportRequest], Promise<TransportResponse>> };
+  let request: Mock<[SentCall], Promise<Partial<TransportResponse>>>;
+
+  /**
+   * Decode what reached the transport back into the call that produced it
+   */
+  const decode = ({ method, url, body }: TransportRequest): SentCall => {
+    const { pathname, search, searchParams } = new URL(url);
+    return {
+      method,
+      url: pathname.replace(/^\/v2/, ''),
+      data: body === undefined ? undefined : JSON.parse(body),
+      params: search ? Object.fromEntries(searchParams) : undefined,
     };
   };
 
   beforeEach(() => {
-    mockAxiosInstance = {
-      request: vi.fn(),
-      interceptors: {
-        request: {
-          use: vi.fn(),
-        },
-        response: {
-          use: vi.fn(),
-        },
-      },
+    request = vi.fn();
+    transport = {
+      send: vi.fn(async (sent: TransportRequest) => ({
+        status: 200,
+        headers: {},
+        data: undefined,
+        ...(await request(decode(sent))),
+      })),
     };
 
-    mockedAxios.create.mockReturnValue(mockAxiosInstance as any);
-
     client = new LearnWorldsClient({
       schoolDomain: 'testschool',
       clientId: 'test-client-id',
       clientSecret: 'test-client-secret',
       apiHost: 'api.testschool.learnworlds.com',
+      transport,
     });
   });
 
   describe('constructor', () => {
-    it('should create axios instance with correct config', () => {
-      expect(mockedAxios.create).toHaveBeenCalledWith({
-        baseURL: 'https://api.testschool.learnworlds.com/v2',
+    it('should send JSON requests with the access token to the API host', async () => {
+      request.mockResolvedValue({ data: { success: true, data: [] } });
+
+      await client.getAllCourses();
+
+      expect(transport.send).toHaveBeenCalledWith({
+        method: 'GET',
+        url: 'https://api.testschool.learnworlds.com/v2/courses',
         headers: {
           'Content-Type': 'application/json',
-          'Accept': 'application/json',
+          Accept: 'application/json',
+          Authorization: 'Bearer test-access-token',
         },
+        body: undefined,
       });
     });
   });
@@ -86,7 +100,7 @@ describe('LearnWorldsClient', () => {
         },
       ];
 
-      mockAxiosInstance.request.mockResolvedValue({
+      request.mockResolvedValue({
         data: {
           success: true,
           data: mockCourses,
@@ -95,7 +109,7 @@ describe('LearnWorldsClient', () => {
 
       const result = await client.getAllCourses();
 
-      expect(mockAxiosInstance.request).toHaveBeenCalledWith({
+      expect(request).toHaveBeenCalledWith({
         method: 'GET',
         url: '/courses',
         data: undefined,
@@ -106,17 +120,17 @@ describe('LearnWorldsClient', () => {
 
     it('should fetch courses with pagination params', async () => {
       const mockCourses: Course[] = [];
-      mockAxiosInstance.request.mockResolvedValue({
+      request.mockResolvedValue({
         data: { success: true, data: mockCourses },
       });
 
       await client.getAllCourses({ page: 2, per_page: 10 });
 
-      expect(mockAxiosInstance.request).toHaveBeenCalledWith({
+      expect(request).toHaveBeenCalledWith({
         method: 'GET',
         url: '/courses',
         data: undefined,
-        params: { page: 2, per_page: 10 },
+        params: { page: '2', per_page: '10' },
       });
     });
   });
@@ -134,13 +148,13 @@ describe('LearnWorldsClient', () => {
         },
       ];
 
-      mockAxiosInstance.request.mockResolvedValue({
+      request.mockResolvedValue({
         data: { success: true, data: mockBundles },
       });
 
       const result = await client.getAllBundles();
 
-      expect(mockAxiosInstance.request).toHaveBeenCalledWith({
+      expect(request).toHaveBeenCalledWith({
         method: 'GET',
         url: '/bundles',
         data: undefined,
@@ -150,6 +164,62 @@ describe('LearnWorldsClient', () => {
     });
   });
 
+  describe('courses', () => {
+    it('should return a typed page with metadata', async () => {
+      request.mockResolvedValue({
+        data: {
+          success: true,
+          data: [],
+          meta: { page: 1, totalItems: 0, totalPages: 1, itemsPerPage: 20 },
+        },
+      });
+
+      const page = await client.courses.list({ per_page: 20 });
+
+      expect(page.meta.totalPages).toBe(1);
+      expect(page.hasNextPage).toBe(false);
+    });
+
+    it('should iterate over every page', async () => {
+      const course = (id: string): Course => ({
+        id,
+        title: id,
+        status: 'published',
+        created_at: '2023-01-01T00:00:00Z',
+        updated_at: '2023-01-01T00:00:00Z',
+      });
+
+      request
+        .mockResolvedValueOnce({
+          data: {
+            success: true,
+            data: [course('course-1')],
+            meta: { page: 1, totalItems: 2, totalPages: 2, itemsPerPage: 1 },
+          },
+        })
+        .mockResolvedValueOnce({
+          data: {
+            success: true,
+            data: [course('course-2')],
+            meta: { page: 2, totalItems: 2, totalPages: 2, itemsPerPage: 1 },
+          },
+        });
+
+      const ids: string[] = [];
+      for await (const item of client.courses.iterate({ per_page: 1 })) {
+        ids.push(item.id);
+      }
+
+      expect(ids).toEqual(['course-1', 'course-2']);
+      expect(request).toHaveBeenLastCalledWith({
+        method: 'GET',
+        url: '/courses',
+        data: undefined,
+        params: { per_page: '1', page: '2' },
+      });
+    });
+  });
+
   describe('createUser', () => {
     it('should create user successfully', async () => {
       const createUserData: CreateUserRequest = {
@@ -170,13 +240,13 @@ describe('LearnWorldsClient', () => {
         tags: [],
       };
 
-      mockAxiosInstance.request.mockResolvedValue({
+      request.mockResolvedValue({
         data: { success: true, data: mockUser },
       });
 
       const result = await client.createUser(createUserData);
 
-      expect(mockAxiosInstance.request).toHaveBeenCalledWith({
+      expect(request).toHaveBeenCalledWith({
         method: 'POST',
         url: '/users',
         data: createUserData,
@@ -205,13 +275,13 @@ describe('LearnWorldsClient', () => {
         tags: [],
       };
 
-      mockAxiosInstance.request.mockResolvedValue({
+      request.mockResolvedValue({
         data: { success: true, data: mockUser },
       });
 
       const result = await client.updateUser('user-1', updateData);
 
-      expect(mockAxiosInstance.request).toHaveBeenCalledWith({
+      expect(request).toHaveBeenCalledWith({
         method: 'PUT',
         url: '/users/user-1',
         data: updateData,
@@ -238,13 +308,13 @@ describe('LearnWorldsClient', () => {
         tags: ['premium', 'active'],
       };
 
-      mockAxiosInstance.request.mockResolvedValue({
+      request.mockResolvedValue({
         data: { success: true, data: mockUser },
       });
 
       const result = await client.updateUserTags('user-1', tagData);
 
-      expect(mockAxiosInstance.request).toHaveBeenCalledWith({
+      expect(request).toHaveBeenCalledWith({
         method: 'PATCH',
         url: '/users/user-1/tags',
         data: tagData,
@@ -273,13 +343,13 @@ describe('LearnWorldsClient', () => {
         enrolled_at: '2023-01-01T00:00:00Z',
       };
 
-      mockAxiosInstance.request.mockResolvedValue({
+      request.mockResolvedValue({
         data: { success: true, data: mockEnrollment },
       });
 
       const result = await client.enrollUserToProduct(enrollmentData);
 
-      expect(mockAxiosInstance.request).toHaveBeenCalledWith({
+      expect(request).toHaveBeenCalledWith({
         method: 'POST',
         url: '/enrollments',
         data: enrollmentData,
@@ -297,13 +367,13 @@ describe('LearnWorldsClient', () => {
         product_type: 'course',
       };
 
-      mockAxiosInstance.request.mockResolvedValue({
+      request.mockResolvedValue({
         data: { success: true, data: undefined },
       });
 
       await client.unenrollUserFromProduct(unenrollmentData);
 
-      expect(mockAxiosInstance.request).toHaveBeenCalledWith({
+      expect(request).toHaveBeenCalledWith({
         method: 'DELETE',
         url: '/enrollments',
         data: unenrollmentData,
@@ -312,9 +382,114 @@ describe('LearnWorldsClient', () => {
     });
   });
 
+  describe('listUsers', () => {
+    it('should send filters and return a page', async () => {
+      request.mockResolvedValue({
+        data: {
+          success: true,
+          data: [],
+          meta: { page: 1, totalItems: 0, totalPages: 0, itemsPerPage: 50 },
+        },
+      });
+
+      const page = await client.listUsers({
+        search: 'john',
+        tags: ['premium', 'vip'],
+        created_after: '2024-01-01',
+        per_page: 50,
+      });
+
+      expect(request).toHaveBeenCalledWith({
+        method: 'GET',
+        url: '/users',
+        data: undefined,
+        params: { search: 'john', tags: 'premium,vip', created_after: '2024-01-01', per_page: '50' },
+      });
+      expect(page.hasNextPage).toBe(false);
+    });
+  });
+
+  describe('user management', () => {
+    it('should delete, suspend and unsuspend users', async () => {
+      request.mockResolvedValue({ data: { success: true, data: undefined } });
+
+      await client.deleteUser('user-1');
+      await client.suspendUser('user-1');
+      await client.unsuspendUser('user-1');
+
+      const calls = request.mock.calls.map(([config]) => `${config.method} ${config.url}`);
+      expect(calls).toEqual(['DELETE /users/user-1', 'PUT /users/user-1/suspend', 'PUT /users/user-1/unsuspend']);
+    });
+
+    it('should fetch grades filtered by course', async () => {
+      request.mockResolvedValue({ data: { success: true, data: [] } });
+
+      await client.getUserGrades('user-1', 'course-1');
+
+      expect(request).toHaveBeenCalledWith({
+        method: 'GET',
+        url: '/users/user-1/grades',
+        data: undefined,
+        params: { course_id: 'course-1' },
+      });
+    });
+  });
+
+  describe('course contents', () => {
+    it('should fetch sections and learning units', async () => {
+      const contents: CourseContents = {
+        id: 'course-1',
+        title: 'Test Course',
+        total_units: 1,
+        sections: [
+          {
+            id: 'section-1',
+            title: 'Introduction',
+            position: 1,
+            units: [{ id: 'unit-1', section_id: 'section-1', title: 'Welcome', type: 'video', position: 1, duration: 90 }],
+          },
+        ],
+      };
+
+      request.mockResolvedValue({ data: { success: true, data: contents } });
+
+      const result = await client.getCourseContents('course-1');
+
+      expect(request).toHaveBeenCalledWith({
+        method: 'GET',
+        url: '/courses/course-1/contents',
+        data: undefined,
+        params: undefined,
+      });
+      expect(result.sections[0].units[0].type).toBe('video');
+    });
+
+    it('should fetch per-unit progress for a user', async () => {
+      const progress: UserCourseProgress = {
+        user_id: 'user-1',
+        course_id: 'course-1',
+        status: 'in_progress',
+        progress: 50,
+        units: [{ unit_id: 'unit-1', unit_type: 'quiz', status: 'completed', score: 8, max_score: 10, time_spent: 300 }],
+      };
+
+      request.mockResolvedValue({ data: { success: true, data: progress } });
+
+      const result = await client.getUserCourseProgress('user-1', 'course-1');
+
+      expect(request).toHaveBeenCalledWith({
+        method: 'GET',
+        url: '/users/user-1/courses/course-1/progress',
+        data: undefined,
+        params: undefined,
+      });
+      expect(result.units[0].score).toBe(8);
+    });
+  });
+
   describe('error handling', () => {
     it('should handle API response with success: false', async () => {
-      mockAxiosInstance.request.mockResolvedValue({
+      request.mockResolvedValue({
         data: {
           success: false,
           message: 'API request failed',
@@ -0,0 +1,149 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MockLearnWorldsServer } from '../mock-server.js';
+import { LearnWorldsClient } from '../client.js';
+import { NotFoundError, ResponseValidationError } from '../errors.js';
+import { reconcilePayments } from '../reconciliation.js';
+import type { Enrollment, Order, Payment } from '../types.js';
+
+const payment = (id: string, overrides: Partial<Payment> = {}): Payment => ({
+  id,
+  user_id: 'user-1',
+  product_id: 'course-1',
+  product_type: 'course',
+  amount: 49,
+  currency: 'USD',
+  status: 'succeeded',
+  created_at: '2024-03-01T10:00:00Z',
+  paid_at: '2024-03-01T10:00:05Z',
+  ...overrides,
+});
+
+const enrollment = (id: string, overrides: Partial<Enrollment> = {}): Enrollment => ({
+  id,
+  user_id: 'user-1',
+  product_id: 'course-1',
+  product_type: 'course',
+  enrollment_type: 'paid',
+  status: 'active',
+  enrolled_at: '2024-03-01T10:00:06Z',
+  ...overrides,
+});
+
+const order: Order = {
+  id: 'order-1',
+  user_id: 'user-1',
+  status: 'completed',
+  items: [
+    { product_id: 'course-1', product_type: 'course', price: 49, quantity: 1 },
+    { product_id: 'bundle-1', product_type: 'bundle', price: 99, quantity: 1 },
+  ],
+  subtotal: 148,
+  total: 148,
+  currency: 'USD',
+  created_at: '2024-03-01T10:00:00Z',
+  updated_at: '2024-03-01T10:00:00Z',
+};
+
+describe('reconcilePayments', () => {
+  it('should report paid enrollments without payments and payments without enrollments', () => {
+    const result = reconcilePayments(
+      'user-1',
+      [
+        payment('pay-1'),
+        payment('pay-2', { product_id: 'course-2' }),
+        payment('pay-3', { product_id: 'course-3', status: 'refunded' }),
+        payment('pay-4', { product_id: 'plan-1', product_type: 'subscription' }),
+      ],
+      [
+        enrollment('enr-1'),
+        enrollment('enr-3', { product_id: 'course-3' }),
+        enrollment('enr-4', { product_id: 'course-4', enrollment_type: 'free' }),
+      ]
+    );
+
+    expect(result.matched).toEqual([{ enrollment: enrollment('enr-1'), payments: [payment('pay-1')] }]);
+    expect(result.unpaidEnrollments.map((e) => e.id)).toEqual(['enr-3']);
+    expect(result.unmatchedPayments.map((p) => p.id)).toEqual(['pay-2']);
+  });
+
+  it('should not match payments for a bundle with the same ID as a course', () => {
+    const result = reconcilePayments('user-1', [payment('pay-1', { product_type: 'bundle' })], [enrollment('enr-1')]);
+
+    expect(result.matched).toEqual([]);
+    expect(result.unpaidEnrollments).toHaveLength(1);
+    expect(result.unmatchedPayments).toHaveLength(1);
+  });
+});
+
+describe('LearnWorldsClient commerce', () => {
+  let server: MockLearnWorldsServer;
+  let client: LearnWorldsClient;
+
+  beforeEach(async () => {
+    server = new MockLearnWorldsServer({
+      users: [
+        {
+          id: 'user-1',
+          email: 'jane@example.com',
+          is_active: true,
+          roles: ['student'],
+          tags: [],
+          created_at: '2024-01-01T00:00:00Z',
+          updated_at: '2024-01-01T00:00:00Z',
+        },
+      ],
+      enrollments: [enrollment('enr-1'), enrollment('enr-2', { product_id: 'course-2' })],
+      payments: [
+        payment('pay-1'),
+        payment('pay-2', { user_id: 'user-2', created_at: '2024-04-15T00:00:00Z' }),
+        payment('pay-3', { product_id: 'course-9', created_at: '2024-05-01T00:00:00Z' }),
+      ],
+      orders: [order],
+    });
+    client = server.createClient({ validation: { mode: 'strict' } });
+    await client.auth.authenticateWithClientCredentials();
+  });
+
+  it('should filter payments by user, product and date range', async () => {
+    const byUser = await client.listPayments({ user_id: 'user-1' });
+    expect(byUser.data.map((p) => p.id)).toEqual(['pay-1', 'pay-3']);
+
+    const inApril = await client.listPayments({
+      product_id: 'course-1',
+      created_after: '2024-04-01T00:00:00Z',
+      created_before: '2024-04-30T23:59:59Z',
+    });
+    expect(inApril.data.map((p) => p.id)).toEqual(['pay-2']);
+
+    const ids: string[] = [];
+    for await (const item of client.payments.iterate({ per_page: 1 })) {
+      ids.push(item.id);
+    }
+    expect(ids).toEqual(['pay-1', 'pay-2', 'pay-3']);
+  });
+
+  it('should get single records and match orders by any line item', async () => {
+    await expect(client.getPayment('pay-1')).resolves.toMatchObject({ amount: 49, currency: 'USD' });
+    await expect(client.getOrder('order-1')).resolves.toEqual(order);
+    await expect(client.getInvoice('missing')).rejects.toBeInstanceOf(NotFoundError);
+
+    expect((await client.listOrders({ product_id: 'bundle-1' })).data).toHaveLength(1);
+    expect((await client.listOrders({ product_id: 'course-9' })).data).toHaveLength(0);
+  });
+
+  it('should validate commerce responses against their schemas', async () => {
+    server.payments.set('pay-bad', { ...payment('pay-bad'), amount: '49.00' as unknown as number });
+
+    await expect(client.getPayment('pay-bad')).rejects.toBeInstanceOf(ResponseValidationError);
+  });
+
+  it('should reconcile a user across every page of payments and enrollments', async () => {
+    const result = await client.reconcileUserPayments('user-1');
+
+    expect(result.matched.map(({ enrollment: e, payments }) => [e.id, payments.map((p) => p.id)])).toEqual([
+      ['enr-1', ['pay-1']],
+    ]);
+    expect(result.unpaidEnrollments.map((e) => e.id)).toEqual(['enr-2']);
+    expect(result.unmatchedPayments.map((p) => p.id)).toEqual(['pay-3']);
+  });
+});
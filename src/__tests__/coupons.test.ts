@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MockLearnWorldsServer } from '../mock-server.js';
+import { LearnWorldsClient } from '../client.js';
+import { NotFoundError, ValidationError } from '../errors.js';
+import { COUPON_CODE_ALPHABET, generateCouponCodes } from '../coupons.js';
+import { validateCreateCouponRequest } from '../request-validation.js';
+
+describe('generateCouponCodes', () => {
+  it('should generate distinct codes from the alphabet', async () => {
+    const codes = await generateCouponCodes(50, { prefix: 'SPRING-', length: 6 }, ['SPRING-AAAAAA']);
+
+    expect(new Set(codes).size).toBe(50);
+    expect(codes).not.toContain('SPRING-AAAAAA');
+    for (const code of codes) {
+      expect(code).toMatch(new RegExp(`^SPRING-[${COUPON_CODE_ALPHABET}]{6}$`));
+    }
+  });
+
+  it('should refuse codes that are too short to be unique', async () => {
+    await expect(generateCouponCodes(1, { length: 3 })).rejects.toBeInstanceOf(RangeError);
+  });
+});
+
+describe('validateCreateCouponRequest', () => {
+  it('should check discounts, currencies and validity windows', () => {
+    expect(
+      validateCreateCouponRequest({ code: 'SAVE10', discount_type: 'percentage', discount_value: 10, course_ids: [] })
+    ).toEqual([]);
+
+    const errors = validateCreateCouponRequest({
+      code: 'SAVE 10',
+      discount_type: 'percentage',
+      discount_value: 150,
+      usage_limit: 0.5,
+      valid_from: '2024-06-01',
+      valid_until: '2024-05-01',
+    });
+    expect(errors.map(({ field, code }) => `${field}:${code}`)).toEqual([
+      'code:invalid_value',
+      'discount_value:too_large',
+      'usage_limit:invalid_type',
+      'valid_until:invalid_value',
+    ]);
+
+    const fixed = validateCreateCouponRequest({
+      code: 'FIVE',
+      discount_type: 'fixed',
+      discount_value: 5,
+      currency: 'usd',
+    });
+    expect(fixed).toEqual([
+      { field: 'currency', code: 'invalid_value', message: 'The currency must be a three-letter ISO 4217 code.' },
+    ]);
+  });
+
+  it('should compare validity windows as instants across time zone offsets', () => {
+    const coupon = { code: 'NIGHT', discount_type: 'percentage' as const, discount_value: 10 };
+
+    // 2024-05-31T22:00:00Z until 2024-05-31T23:30:00Z
+    expect(
+      validateCreateCouponRequest({
+        ...coupon,
+        valid_from: '2024-06-01T00:00:00+02:00',
+        valid_until: '2024-05-31T23:30:00Z',
+      })
+    ).toEqual([]);
+    expect(
+      validateCreateCouponRequest({
+        ...coupon,
+        valid_from: '2024-06-01T00:00:00Z',
+        valid_until: '2024-06-01T01:00:00+02:00',
+      })
+    ).toEqual([
+      { field: 'valid_until', code: 'invalid_value', message: 'The valid_until must be a date after valid_from.' },
+    ]);
+  });
+});
+
+describe('LearnWorldsClient coupons', () => {
+  let server: MockLearnWorldsServer;
+  let client: LearnWorldsClient;
+
+  beforeEach(async () => {
+    server = new MockLearnWorldsServer();
+    client = server.createClient({ validation: { mode: 'strict' }, requestValidation: true });
+    await client.auth.authenticateWithClientCredentials();
+  });
+
+  it('should create, list, update and deactivate coupons', async () => {
+    const percentage = await client.createCoupon({
+      code: 'SPRING25',
+      discount_type: 'percentage',
+      discount_value: 25,
+      valid_until: '2030-06-01T00:00:00Z',
+      course_ids: ['course-1'],
+    });
+    const fixed = await client.createCoupon({
+      code: 'TENOFF',
+      discount_type: 'fixed',
+      discount_value: 10,
+      currency: 'EUR',
+      bundle_ids: ['bundle-1'],
+    });
+
+    expect(percentage).toMatchObject({ is_active: true, times_used: 0, discount_type: 'percentage' });
+    expect(fixed.discount_type === 'fixed' && fixed.currency).toBe('EUR');
+
+    expect((await client.listCoupons({ product_id: 'course-1' })).data.map((c) => c.code)).toEqual(['SPRING25']);
+    expect((await client.listCoupons({ search: 'off' })).data.map((c) => c.code)).toEqual(['TENOFF']);
+
+    const updated = await client.updateCoupon(percentage.id, { usage_limit: 100, description: 'Spring campaign' });
+    expect(updated).toMatchObject({ code: 'SPRING25', usage_limit: 100, description: 'Spring campaign' });
+
+    await expect(client.deactivateCoupon(fixed.id)).resolves.toMatchObject({ is_active: false });
+    expect((await client.listCoupons({ is_active: true })).data.map((c) => c.code)).toEqual(['SPRING25']);
+    await expect(client.getCoupon('missing')).rejects.toBeInstanceOf(NotFoundError);
+  });
+
+  it('should report taken codes as validation errors', async () => {
+    const coupon = { code: 'WELCOME', discount_type: 'percentage' as const, discount_value: 10 };
+    await client.createCoupon(coupon);
+
+    const error = await client.createCoupon(coupon).catch((e) => e);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.fieldErrors).toEqual([{ field: 'code', message: 'The code has already been taken.' }]);
+  });
+
+  describe('bulk.generateCoupons', () => {
+    const template = { discount_type: 'fixed' as const, discount_value: 5, currency: 'USD', course_ids: ['course-1'] };
+
+    it('should create single-use coupons with unique codes', async () => {
+      const results = await client.bulk.generateCoupons(5, template, { prefix: 'VIP-', concurrency: 2 });
+
+      expect(results.every((result) => result.status === 'fulfilled')).toBe(true);
+      expect(new Set(results.map((result) => result.input)).size).toBe(5);
+      for (const coupon of server.coupons.values()) {
+        expect(coupon).toMatchObject({ usage_limit: 1, usage_limit_per_user: 1, currency: 'USD' });
+        expect(coupon.code.startsWith('VIP-')).toBe(true);
+      }
+      expect(server.coupons.size).toBe(5);
+    });
+
+    it('should retry taken codes with a new one and report other failures per code', async () => {
+      const createCoupon = vi.spyOn(client, 'createCoupon');
+      createCoupon.mockRejectedValueOnce(
+        new ValidationError('The code has already been taken.', {
+          fieldErrors: [{ field: 'code', message: 'The code has already been taken.' }],
+        })
+      );
+
+      const [retried, next] = await client.bulk.generateCoupons(2, template, { concurrency: 1 });
+      expect(retried.status).toBe('fulfilled');
+      expect(retried.status === 'fulfilled' && retried.value.code).not.toBe(retried.input);
+      expect(next).toMatchObject({ status: 'fulfilled', value: { code: next.input } });
+
+      createCoupon.mockClear();
+      const invalid = await client.bulk.generateCoupons(2, { discount_type: 'percentage', discount_value: 120 });
+      expect(invalid.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+      expect(createCoupon).toHaveBeenCalledTimes(2);
+    });
+  });
+});
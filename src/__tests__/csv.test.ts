@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, formatCsvRow } from '../csv.js';
+
+async function collect(source: Parameters<typeof parseCsv>[0]): Promise<string[][]> {
+  const rows: string[][] = [];
+  for await (const row of parseCsv(source)) {
+    rows.push(row);
+  }
+  return rows;
+}
+
+describe('parseCsv', () => {
+  it('should parse quoted fields with delimiters, quotes and line breaks', async () => {
+    const csv = '\uFEFFname,note\r\n"Doe, Jane","said ""hi""\nthen left"\r\n\r\nJohn,\n';
+
+    expect(await collect(csv)).toEqual([
+      ['name', 'note'],
+      ['Doe, Jane', 'said "hi"\nthen left'],
+      ['John', ''],
+    ]);
+  });
+
+  it('should parse records split across chunks, including multi-byte characters', async () => {
+    const bytes = new TextEncoder().encode('a,b\n"x ""y""",Zoë');
+    async function* chunks(): AsyncGenerator<Uint8Array> {
+      for (let i = 0; i < bytes.length; i += 3) {
+        yield bytes.slice(i, i + 3);
+      }
+    }
+
+    expect(await collect(chunks())).toEqual([
+      ['a', 'b'],
+      ['x "y"', 'Zoë'],
+    ]);
+  });
+
+  it('should round-trip rows written by formatCsvRow', async () => {
+    const row = ['plain', 'with, comma', 'with "quote"', 'multi\nline', ''];
+    expect(await collect(`${formatCsvRow(row)}\n`)).toEqual([row]);
+  });
+});
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MockLearnWorldsServer } from '../mock-server.js';
+import { LearnWorldsClient } from '../client.js';
+
+describe('ensure operations', () => {
+  let server: MockLearnWorldsServer;
+  let client: LearnWorldsClient;
+
+  const writes = (): string[] =>
+    server.requests
+      .filter((request) => request.path.startsWith('/v2/') && request.method !== 'GET')
+      .map((request) => `${request.method} ${request.path}`);
+
+  beforeEach(async () => {
+    server = new MockLearnWorldsServer({
+      courses: [
+        {
+          id: 'course-1',
+          title: 'Intro',
+          status: 'published',
+          created_at: '2024-01-01T00:00:00Z',
+          updated_at: '2024-01-01T00:00:00Z',
+        },
+      ],
+    });
+    client = server.createClient();
+    await client.auth.authenticateWithClientCredentials();
+  });
+
+  describe('ensureUser', () => {
+    it('should create a missing user, then leave it alone when it matches', async () => {
+      const data = { first_name: 'Jane', tags: ['vip'], custom_fields: { company: 'Acme' } };
+
+      const created = await client.ensureUser('jane@example.com', data);
+      const again = await client.ensureUser('Jane@Example.com', data);
+
+      expect(created).toMatchObject({ changed: true, created: true, value: { email: 'jane@example.com' } });
+      expect(again).toMatchObject({ changed: false, created: false, value: { id: created.value.id } });
+      expect(writes()).toEqual(['POST /v2/users']);
+    });
+
+    it('should update only the fields and tags that differ', async () => {
+      const user = await client.createUser({ email: 'jane@example.com', first_name: 'Jane', tags: ['trial'] });
+
+      const result = await client.ensureUser('jane@example.com', {
+        first_name: 'Jane',
+        last_name: 'Doe',
+        tags: ['trial', 'vip'],
+        password: 'ignored-for-existing-users',
+      });
+
+      expect(result).toMatchObject({ changed: true, created: false, value: { last_name: 'Doe' } });
+      expect(result.value.tags).toEqual(['trial', 'vip']);
+      expect(writes()).toEqual(['POST /v2/users', `PUT /v2/users/${user.id}`, `PATCH /v2/users/${user.id}/tags`]);
+    });
+  });
+
+  describe('ensureEnrollment', () => {
+    it('should enroll once and re-activate expired enrollments', async () => {
+      const user = await client.createUser({ email: 'jane@example.com' });
+      const product = { product_id: 'course-1', product_type: 'course' as const };
+
+      expect(await client.ensureEnrollment(user.id, product)).toMatchObject({ changed: true });
+      expect(await client.ensureEnrollment(user.id, product)).toMatchObject({ changed: false });
+
+      const [enrollment] = server.enrollments.values();
+      server.enrollments.set(enrollment.id, { ...enrollment, status: 'expired' });
+
+      const reactivated = await client.ensureEnrollment(user.id, product);
+      expect(reactivated).toMatchObject({ changed: true, value: { id: enrollment.id, status: 'active' } });
+      expect(writes().filter((write) => write === 'POST /v2/enrollments')).toHaveLength(2);
+    });
+
+    it('should find an active enrollment beyond the first page', async () => {
+      const user = await client.createUser({ email: 'jane@example.com' });
+      for (let i = 1; i <= 125; i++) {
+        server.enrollments.set(`enrollment-${i}`, {
+          id: `enrollment-${i}`,
+          user_id: user.id,
+          product_id: `course-${i}`,
+          product_type: 'course',
+          enrollment_type: 'free',
+          status: 'active',
+          enrolled_at: '2024-01-01T00:00:00Z',
+        });
+      }
+
+      const result = await client.ensureEnrollment(user.id, { product_id: 'course-125', product_type: 'course' });
+
+      expect(result).toMatchObject({ changed: false, value: { id: 'enrollment-125' } });
+      expect(writes()).toEqual(['POST /v2/users']);
+    });
+  });
+
+  describe('ensureTags', () => {
+    it('should only send the tags that change', async () => {
+      const user = await client.createUser({ email: 'jane@example.com', tags: ['a', 'b'] });
+
+      expect(await client.ensureTags(user.id, { tags: ['a'], action: 'add' })).toMatchObject({ changed: false });
+      expect(await client.ensureTags(user.id, { tags: ['c'], action: 'remove' })).toMatchObject({ changed: false });
+      expect(await client.ensureTags(user.id, { tags: ['b', 'a'], action: 'replace' })).toMatchObject({
+        changed: false,
+      });
+      expect(writes()).toEqual(['POST /v2/users']);
+
+      const replaced = await client.ensureTags(user.id, { tags: [], action: 'replace' });
+      expect(replaced).toMatchObject({ changed: true, value: { tags: [] } });
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createApiError,
+  parseFieldErrors,
+  LearnWorldsApiError,
+  UnauthorizedError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+  RateLimitError,
+} from '../errors.js';
+
+describe('createApiError', () => {
+  it('should map statuses onto error classes', () => {
+    expect(createApiError({ status: 401 })).toBeInstanceOf(UnauthorizedError);
+    expect(createApiError({ status: 403 })).toBeInstanceOf(ForbiddenError);
+    expect(createApiError({ status: 404 })).toBeInstanceOf(NotFoundError);
+    expect(createApiError({ status: 422 })).toBeInstanceOf(ValidationError);
+    expect(createApiError({ status: 429 })).toBeInstanceOf(RateLimitError);
+
+    const serverError = createApiError({ status: 500 });
+    expect(serverError).toBeInstanceOf(LearnWorldsApiError);
+    expect(serverError.code).toBe('API_ERROR');
+  });
+
+  it('should keep the server message and fall back to a default', () => {
+    expect(createApiError({ status: 404, body: { message: 'User not found' } }).message).toBe('User not found');
+    expect(createApiError({ status: 404 }).message).toBe('Resource not found');
+  });
+
+  it('should keep the request context and cause', () => {
+    const cause = new Error('original');
+    const error = createApiError(
+      { status: 403, headers: { 'X-Request-Id': 'req-42' } },
+      { method: 'GET', url: '/users/1', cause }
+    );
+
+    expect(error).toMatchObject({ status: 403, code: 'FORBIDDEN', method: 'GET', url: '/users/1', requestId: 'req-42' });
+    expect(error.cause).toBe(cause);
+    expect(error.name).toBe('ForbiddenError');
+  });
+
+  it('should parse Retry-After on rate limit errors', () => {
+    const error = createApiError({ status: 429, headers: { 'retry-after': '30' } }) as RateLimitError;
+    expect(error.retryAfter).toBe(30);
+  });
+
+  it('should attach field errors to validation errors', () => {
+    const error = createApiError({
+      status: 422,
+      body: { message: 'The email has already been taken.', errors: { email: ['The email has already been taken.'] } },
+    }) as ValidationError;
+
+    expect(error.message).toBe('The email has already been taken.');
+    expect(error.fieldErrors).toEqual([{ field: 'email', message: 'The email has already been taken.' }]);
+  });
+});
+
+describe('parseFieldErrors', () => {
+  it('should support list bodies', () => {
+    expect(
+      parseFieldErrors({ errors: [{ field: 'tags', message: 'Required', code: 'required' }, 'Something else'] })
+    ).toEqual([
+      { field: 'tags', message: 'Required', code: 'required' },
+      { field: 'base', message: 'Something else' },
+    ]);
+  });
+
+  it('should return an empty list for unknown shapes', () => {
+    expect(parseFieldErrors(undefined)).toEqual([]);
+    expect(parseFieldErrors('oops')).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MockLearnWorldsServer } from '../mock-server.js';
+import { LearnWorldsClient } from '../client.js';
+import { exportEnrollments, exportUsers } from '../export.js';
+import type { User } from '../types.js';
+
+const user = (id: string, customFields?: Record<string, unknown>): User => ({
+  id,
+  email: `${id}@example.com`,
+  first_name: id === 'u1' ? 'Doe, Jane' : undefined,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+  is_active: true,
+  roles: ['user'],
+  tags: ['vip', 'beta'],
+  custom_fields: customFields,
+});
+
+async function collect(lines: AsyncIterable<string>): Promise<string> {
+  let output = '';
+  for await (const line of lines) {
+    output += line;
+  }
+  return output;
+}
+
+describe('exporters', () => {
+  let server: MockLearnWorldsServer;
+  let client: LearnWorldsClient;
+
+  beforeEach(async () => {
+    server = new MockLearnWorldsServer({
+      users: [user('u1', { company: 'Acme' }), user('u2', { plan: 'pro' })],
+      enrollments: [
+        {
+          id: 'e1',
+          user_id: 'u2',
+          product_id: 'course-1',
+          product_type: 'course',
+          enrollment_type: 'free',
+          status: 'active',
+          enrolled_at: '2024-02-01T00:00:00Z',
+        },
+      ],
+    });
+    client = server.createClient();
+    await client.auth.authenticateWithClientCredentials();
+  });
+
+  it('should write users as CSV with custom fields flattened into columns', async () => {
+    const lines = (await collect(exportUsers(client))).trimEnd().split('\n');
+
+    expect(lines[0]).toBe(
+      'id,email,username,first_name,last_name,bio,tags,roles,is_active,created_at,updated_at,last_login,' +
+        'custom_fields.company,custom_fields.plan'
+    );
+    expect(lines[1]).toBe(
+      'u1,u1@example.com,,"Doe, Jane",,,vip;beta,user,true,2024-01-01T00:00:00Z,2024-01-01T00:00:00Z,,Acme,'
+    );
+    expect(lines[2].endsWith(',,pro')).toBe(true);
+  });
+
+  it('should use the given custom fields and list separator', async () => {
+    const lines = (await collect(exportUsers(client, { customFields: ['plan'], listSeparator: '|' }))).split('\n');
+
+    expect(lines[0].endsWith(',last_login,custom_fields.plan')).toBe(true);
+    expect(lines[2]).toContain('vip|beta');
+  });
+
+  it('should report custom fields that first appear after the sample', async () => {
+    const onDroppedCustomFields = vi.fn();
+
+    const lines = (await collect(exportUsers(client, { sampleSize: 1, onDroppedCustomFields }))).split('\n');
+
+    expect(lines[0].endsWith(',last_login,custom_fields.company')).toBe(true);
+    expect(onDroppedCustomFields).toHaveBeenCalledWith(['plan']);
+
+    const all = (await collect(exportUsers(client, { sampleSize: Infinity, onDroppedCustomFields }))).split('\n');
+    expect(all[0].endsWith(',custom_fields.company,custom_fields.plan')).toBe(true);
+    expect(onDroppedCustomFields).toHaveBeenCalledTimes(1);
+  });
+
+  it('should write NDJSON lines', async () => {
+    const lines = (await collect(exportUsers(client, { format: 'ndjson' }))).trimEnd().split('\n');
+
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toMatchObject({ id: 'u1', tags: ['vip', 'beta'], 'custom_fields.company': 'Acme' });
+  });
+
+  it('should export the enrollments of every user', async () => {
+    const lines = (await collect(exportEnrollments(client))).trimEnd().split('\n');
+
+    expect(lines).toEqual([
+      'id,user_id,product_id,product_type,enrollment_type,status,enrolled_at,expires_at,progress,completion_date',
+      'e1,u2,course-1,course,free,active,2024-02-01T00:00:00Z,,,',
+    ]);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MockLearnWorldsServer } from '../mock-server.js';
+import { LearnWorldsClient } from '../client.js';
+import { FileCheckpointStore, importEnrollments, importUsers } from '../import.js';
+import { AbortError } from '../errors.js';
+
+describe('importers', () => {
+  let server: MockLearnWorldsServer;
+  let client: LearnWorldsClient;
+
+  beforeEach(async () => {
+    server = new MockLearnWorldsServer();
+    client = server.createClient({ retry: false });
+    await client.auth.authenticateWithClientCredentials();
+  });
+
+  it('should map columns, validate rows and report every row', async () => {
+    const csv = [
+      'E-mail,First name,tags,Company',
+      'jane@example.com,Jane,vip;beta,Acme',
+      'not-an-email,John,,',
+      'jane@example.com,Jane again,,',
+    ].join('\n');
+
+    const report = await importUsers(client, csv, {
+      columns: { 'E-mail': 'email', 'First name': 'first_name', Company: 'custom_fields.company' },
+    });
+
+    expect(report).toMatchObject({ processed: 3, succeeded: 1, invalid: 1, failed: 1, skipped: 0 });
+    expect(report.rows[0]).toMatchObject({
+      row: 1,
+      status: 'succeeded',
+      input: {
+        email: 'jane@example.com',
+        first_name: 'Jane',
+        tags: ['vip', 'beta'],
+        custom_fields: { company: 'Acme' },
+      },
+    });
+    expect(report.rows[1]).toMatchObject({
+      row: 2,
+      status: 'invalid',
+      errors: [{ field: 'email', code: 'invalid_email', message: 'The email must be a valid email address.' }],
+    });
+    expect(report.rows[2]).toMatchObject({ row: 3, status: 'failed', error: { status: 422 } });
+  });
+
+  it('should report user rows with the request validation errors', async () => {
+    const csv = ['email,send_welcome_email', ',yes', 'jane@example.com,maybe'].join('\n');
+
+    const report = await importUsers(client, csv, { dryRun: true });
+
+    expect(report.rows.map((row) => row.status === 'invalid' && row.errors)).toEqual([
+      [{ field: 'email', code: 'required', message: 'The email field is required.' }],
+      [
+        {
+          field: 'send_welcome_email',
+          code: 'invalid_type',
+          message: 'The send_welcome_email must be true or false.',
+        },
+      ],
+    ]);
+  });
+
+  it('should check passwords only against the password rules of the client', async () => {
+    const csv = ['email,password', 'jane@example.com,short'].join('\n');
+
+    const lenient = await importUsers(client, csv, { dryRun: true });
+    expect(lenient.rows.map((row) => row.status)).toEqual(['validated']);
+
+    const strict = server.createClient({ requestValidation: { password: { minLength: 10 } } });
+    const report = await importUsers(strict, csv, { dryRun: true });
+    expect(report.rows[0]).toMatchObject({
+      status: 'invalid',
+      errors: [{ field: 'password', code: 'too_short', message: 'The password must be at least 10 characters.' }],
+    });
+  });
+
+  it('should validate enrollments without sending them in dry-run mode', async () => {
+    const csv = [
+      'user_id,product_id,product_type,expires_at',
+      'u1,course-1,course,2025-01-01',
+      'u1,,ebook,tomorrow',
+    ].join('\n');
+
+    const report = await importEnrollments(client, csv, { dryRun: true });
+
+    expect(report.rows.map((row) => row.status)).toEqual(['validated', 'invalid']);
+    expect(report.rows[1]).toMatchObject({
+      errors: [
+        { field: 'product_id', code: 'required', message: 'The product_id field is required.' },
+        { field: 'product_type', code: 'invalid_value' },
+        { field: 'expires_at', code: 'invalid_date' },
+      ],
+    });
+    expect(server.requests.filter((request) => request.path === '/v2/enrollments')).toHaveLength(0);
+  });
+
+  it('should cancel rows in flight when the import is aborted', async () => {
+    const csv = ['email', 'jane@example.com', 'john@example.com'].join('\n');
+    const controller = new AbortController();
+    server.setLatency(1000);
+
+    const pending = importUsers(client, csv, { signal: controller.signal, concurrency: 2 });
+    setTimeout(() => controller.abort(), 5);
+    const report = await pending;
+
+    expect(report.rows.map((row) => row.status === 'failed' && row.error)).toEqual([
+      expect.any(AbortError),
+      expect.any(AbortError),
+    ]);
+    expect(server.users.size).toBe(0);
+  });
+
+  describe('checkpoints', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'learnworlds-import-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should resume after the last row applied before an interruption', async () => {
+      const checkpoint = new FileCheckpointStore(join(dir, 'users.checkpoint'));
+      const csv = ['email', ...Array.from({ length: 5 }, (_, i) => `user${i + 1}@example.com`)].join('\n');
+      const controller = new AbortController();
+      client.use({ afterResponse: () => void (server.users.size === 3 && controller.abort()) });
+
+      const first = await importUsers(client, csv, {
+        checkpoint,
+        chunkSize: 2,
+        concurrency: 1,
+        signal: controller.signal,
+      });
+
+      expect(first).toMatchObject({ succeeded: 3, failed: 1 });
+      expect(await checkpoint.get()).toBe(3);
+
+      const second = await importUsers(client, csv, { checkpoint, chunkSize: 2 });
+
+      expect(second).toMatchObject({ skipped: 3, processed: 2, succeeded: 2, failed: 0 });
+      expect(server.users.size).toBe(5);
+      expect(await checkpoint.get()).toBe(5);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { FetchFunction } from '../transport.js';
+import { MockLearnWorldsServer } from '../mock-server.js';
+import { LearnWorldsClient } from '../client.js';
+import { NotFoundError } from '../errors.js';
+import type { MiddlewareContext } from '../middleware.js';
+
+const course = {
+  id: 'course-1',
+  title: 'Test Course',
+  status: 'published' as const,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+describe('LearnWorldsClient middleware', () => {
+  let server: MockLearnWorldsServer;
+  let client: LearnWorldsClient;
+  let sentHeaders: Array<HeadersInit | undefined>;
+
+  beforeEach(async () => {
+    server = new MockLearnWorldsServer({ courses: [course] });
+    sentHeaders = [];
+
+    const fetch: FetchFunction = (url, init) => {
+      sentHeaders.push(init.headers);
+      return server.fetch(url, init);
+    };
+
+    client = server.createClient({ fetch, retry: { baseDelayMs: 1, jitter: 'none' } });
+    await client.auth.authenticateWithClientCredentials();
+  });
+
+  it('should pass the operation, attempt and timings to every hook', async () => {
+    const contexts: MiddlewareContext[] = [];
+    client.use({
+      beforeRequest: (context) => {
+        contexts.push({ ...context, timings: { ...context.timings } });
+      },
+      afterResponse: (context) => {
+        contexts.push({ ...context, timings: { ...context.timings } });
+      },
+    });
+
+    server.injectFault({ status: 503, times: 1, path: '/v2/courses/course-1' });
+    await client.getCourse('course-1');
+
+    expect(contexts.map(({ operation, attempt }) => [operation, attempt])).toEqual([
+      ['getCourse', 1],
+      ['getCourse', 2],
+      ['getCourse', 2],
+    ]);
+    expect(contexts[0].request).toMatchObject({ method: 'GET', url: '/courses/course-1' });
+    expect(contexts[2].timings.duration).toBeGreaterThanOrEqual(0);
+    expect(contexts[2].timings.attemptDuration).toBeLessThanOrEqual(contexts[2].timings.duration!);
+  });
+
+  it('should let hooks change the request', async () => {
+    client.use({
+      beforeRequest: (context) => {
+        context.request.headers['X-Trace-Id'] = 'trace-1';
+        context.request.params = { ...context.request.params, email: 'jane@example.com' };
+      },
+    });
+
+    await client.createUser({ email: 'jane@example.com' });
+    await client.createUser({ email: 'john@example.com' });
+    const page = await client.listUsers();
+
+    expect(page.data.map((user) => user.email)).toEqual(['jane@example.com']);
+    expect(sentHeaders.at(-1)).toMatchObject({ 'X-Trace-Id': 'trace-1', Authorization: expect.any(String) });
+  });
+
+  it('should short-circuit with a cached response', async () => {
+    const afterResponse = vi.fn();
+    client.use({
+      beforeRequest: (context) =>
+        context.operation === 'getCourse'
+          ? { status: 200, headers: {}, data: { success: true, data: { ...course, title: 'Cached' } } }
+          : undefined,
+      afterResponse,
+    });
+
+    await expect(client.getCourse('course-1')).resolves.toMatchObject({ title: 'Cached' });
+    expect(server.requests.filter((request) => request.path.startsWith('/v2/'))).toHaveLength(0);
+    expect(afterResponse).not.toHaveBeenCalled();
+  });
+
+  it('should let afterResponse replace the response', async () => {
+    client.use({
+      afterResponse: (_context, response) => ({
+        ...response,
+        data: { success: true, data: { ...course, title: 'Rewritten' } },
+      }),
+    });
+
+    await expect(client.getCourse('course-1')).resolves.toMatchObject({ title: 'Rewritten' });
+  });
+
+  it('should call onError once with the mapped error and allow recovery', async () => {
+    const onError = vi.fn((context: MiddlewareContext, error: unknown) => {
+      if (error instanceof NotFoundError && context.operation === 'getCourse') {
+        return { status: 200, headers: {}, data: { success: true, data: { ...course, id: 'fallback' } } };
+      }
+      return undefined;
+    });
+    client.use({ onError });
+
+    await expect(client.getCourse('missing')).resolves.toMatchObject({ id: 'fallback' });
+    await expect(client.getUser('missing')).rejects.toBeInstanceOf(NotFoundError);
+
+    expect(onError).toHaveBeenCalledTimes(2);
+    expect(onError.mock.calls[1][0]).toMatchObject({ operation: 'getUser', attempt: 1 });
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MockLearnWorldsServer } from '../mock-server.js';
+import { LearnWorldsClient } from '../client.js';
+import { NotFoundError, RateLimitError, ValidationError, LearnWorldsApiError } from '../errors.js';
+
+describe('MockLearnWorldsServer', () => {
+  let server: MockLearnWorldsServer;
+  let client: LearnWorldsClient;
+
+  beforeEach(async () => {
+    server = new MockLearnWorldsServer({
+      courses: [
+        {
+          id: 'course-1',
+          title: 'Test Course',
+          status: 'published',
+          created_at: '2024-01-01T00:00:00Z',
+          updated_at: '2024-01-01T00:00:00Z',
+        },
+      ],
+    });
+    client = server.createClient({ retry: { baseDelayMs: 1 } });
+    await client.auth.authenticateWithClientCredentials();
+  });
+
+  it('should reject requests without a valid token', async () => {
+    const anonymous = server.createClient({ retry: false });
+    await expect(anonymous.getAllCourses()).rejects.toMatchObject({ status: 401 });
+  });
+
+  it('should serve catalog routes with the API envelope', async () => {
+    await expect(client.getCourse('course-1')).resolves.toMatchObject({ title: 'Test Course' });
+    await expect(client.getCourse('missing')).rejects.toBeInstanceOf(NotFoundError);
+
+    const page = await client.courses.list({ per_page: 10 });
+    expect(page.meta).toEqual({ page: 1, itemsPerPage: 10, totalItems: 1, totalPages: 1 });
+  });
+
+  it('should keep users, tags and enrollments in memory', async () => {
+    const user = await client.createUser({ email: 'jane@example.com', first_name: 'Jane', tags: ['new'] });
+    await client.updateUserTags(user.id, { tags: ['premium'], action: 'add' });
+    await client.enrollUserToProduct({ user_id: user.id, product_id: 'course-1', product_type: 'course' });
+
+    expect(await client.getUser(user.id)).toMatchObject({ first_name: 'Jane', tags: ['new', 'premium'] });
+    expect(await client.getUserEnrollments(user.id)).toHaveLength(1);
+
+    const found = await client.listUsers({ email: 'jane@example.com' });
+    expect(found.data.map((u) => u.id)).toEqual([user.id]);
+
+    await client.unenrollUserFromProduct({ user_id: user.id, product_id: 'course-1', product_type: 'course' });
+    expect(server.enrollments.size).toBe(0);
+  });
+
+  it('should return validation errors for duplicate emails', async () => {
+    await client.createUser({ email: 'jane@example.com' });
+
+    const error = await client.createUser({ email: 'jane@example.com' }).catch((e) => e);
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error.fieldErrors).toEqual([{ field: 'email', message: 'The email has already been taken.' }]);
+  });
+
+  it('should refresh expired tokens after a 401', async () => {
+    server.expireTokens();
+
+    await expect(client.getCourse('course-1')).resolves.toMatchObject({ id: 'course-1' });
+    expect(server.requests.map((r) => `${r.method} ${r.path} ${r.status}`)).toEqual([
+      'POST /oauth2/token 200',
+      'GET /v2/courses/course-1 401',
+      'POST /oauth2/token 200',
+      'GET /v2/courses/course-1 200',
+    ]);
+  });
+
+  it('should inject 429 and 5xx faults', async () => {
+    server.injectFault({ status: 429, retryAfter: 0, path: '/v2/courses' });
+    server.injectFault({ status: 503, path: '/v2/courses' });
+
+    await expect(client.getCourse('course-1')).resolves.toMatchObject({ id: 'course-1' });
+    expect(server.requests.slice(1).map((r) => r.status)).toEqual([429, 503, 200]);
+  });
+
+  it('should give up after repeated server errors', async () => {
+    server.injectFault({ status: 500, times: 3, path: '/v2/courses' });
+
+    const error = await client.getAllCourses().catch((e) => e);
+    expect(error).toBeInstanceOf(LearnWorldsApiError);
+    expect(error.status).toBe(500);
+  });
+
+  it('should surface Retry-After on rate limit errors', async () => {
+    const noRetry = server.createClient({ retry: false });
+    await noRetry.auth.authenticateWithClientCredentials();
+    server.injectFault({ status: 429, retryAfter: 30 });
+
+    const error = await noRetry.getAllCourses().catch((e) => e);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.retryAfter).toBe(30);
+  });
+
+  it('should simulate latency', async () => {
+    server.setLatency(20);
+
+    const start = Date.now();
+    await client.getCourse('course-1');
+    expect(Date.now() - start).toBeGreaterThanOrEqual(15);
+  });
+});
@@ -1,34 +1,39 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
-import axios from 'axios';
+import { describe, it, expect, vi, beforeEach, type Mock } from 'vitest';
 import { OAuth2Client } from '../oauth.js';
-import type { TokenResponse, LearnWorldsConfig } from '../types.js';
-
-vi.mock('axios');
-const mockedAxios = vi.mocked(axios, true);
+import { OAuthError, NetworkError } from '../errors.js';
+import { MemoryTokenStore } from '../token-store.js';
+import type { TokenResponse, LearnWorldsConfig, TokenStore } from '../types.js';
+import type { HttpTransport, TransportResponse } from '../transport.js';
 
 describe('OAuth2Client', () => {
   let oauth: OAuth2Client;
-  let mockAxiosInstance: any;
+  let post: Mock<[string, string | undefined], Promise<Partial<TransportResponse>>>;
+  // Calls `post` with the path and form body of every request
+  const transport: HttpTransport = {
+    send: async ({ url, body }) => ({
+      status: 200,
+      headers: {},
+      data: undefined,
+      ...(await post(new URL(url).pathname, body)),
+    }),
+  };
   const mockConfig: LearnWorldsConfig = {
     schoolDomain: 'testschool',
     clientId: 'test-client-id',
     clientSecret: 'test-client-secret',
     apiHost: 'api.testschool.learnworlds.com',
     redirectUri: 'https://app.com/callback',
+    transport,
   };
 
   beforeEach(() => {
-    mockAxiosInstance = {
-      post: vi.fn(),
-    };
-
-    mockedAxios.create.mockReturnValue(mockAxiosInstance as any);
+    post = vi.fn();
     oauth = new OAuth2Client(mockConfig);
   });
 
   describe('getAuthorizationUrl', () => {
     it('should generate correct authorization URL', () => {
-      const url = oauth.getAuthorizationUrl('read_user_profile', 'test-state');
+      const url = oauth.getAuthorizationUrl(['read_user_profile'], 'test-state');
       
       expect(url).toContain('https://testschool.learnworlds.com/oauth2/authorize');
       expect(url).toContain('client_id=test-client-id');
@@ -37,6 +42,34 @@ describe('OAuth2Client', () => {
       expect(url).toContain('scope=read_user_profile');
       expect(url).toContain('state=test-state');
     });
+
+    it('should omit redirect_uri when none is configured', () => {
+      const url = new OAuth2Client({ ...mockConfig, redirectUri: undefined }).getAuthorizationUrl();
+
+      expect(new URL(url).searchParams.has('redirect_uri')).toBe(false);
+    });
+  });
+
+  describe('createAuthorizationRequest', () => {
+    it('should generate a PKCE challenge and random state', async () => {
+      const request = await oauth.createAuthorizationRequest({ scopes: ['read_user_profile', 'read_courses'] });
+      const params = new URL(request.url).searchParams;
+
+      expect(request.codeVerifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(request.state).toMatch(/^[A-Za-z0-9_-]{22}$/);
+      expect(request.redirectUri).toBe('https://app.com/callback');
+      expect(params.get('scope')).toBe('read_user_profile read_courses');
+      expect(params.get('state')).toBe(request.state);
+      expect(params.get('code_challenge')).toBe(request.codeChallenge);
+      expect(params.get('code_challenge_method')).toBe('S256');
+
+      const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(request.codeVerifier));
+      expect(Buffer.from(digest).toString('base64url')).toBe(request.codeChallenge);
+
+      const other = await oauth.createAuthorizationRequest();
+      expect(other.state).not.toBe(request.state);
+      expect(other.codeVerifier).not.toBe(request.codeVerifier);
+    });
   });
 
   describe('exchangeAuthorizationCode', () => {
@@ -48,24 +81,80 @@ describe('OAuth2Client', () => {
         refresh_token: 'test-refresh-token',
       };
 
-      mockAxiosInstance.post.mockResolvedValue({ data: mockTokenResponse });
+      post.mockResolvedValue({ data: mockTokenResponse });
 
       const result = await oauth.exchangeAuthorizationCode({
         code: 'test-code',
         redirectUri: 'https://app.com/callback',
       });
 
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      expect(post).toHaveBeenCalledWith(
         '/oauth2/token',
         expect.stringContaining('grant_type=authorization_code')
       );
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      expect(post).toHaveBeenCalledWith(
         '/oauth2/token',
         expect.stringContaining('code=test-code')
       );
       expect(result).toEqual(mockTokenResponse);
       expect(oauth.isAuthenticated()).toBe(true);
     });
+
+    it('should validate the state of a callback URL and send the verifier', async () => {
+      post.mockResolvedValue({
+        data: { access_token: 'test-access-token', token_type: 'Bearer', expires_in: 3600 },
+      });
+
+      await oauth.exchangeAuthorizationCode({
+        callbackUrl: '/callback?code=test-code&state=stored-state',
+        state: 'stored-state',
+        codeVerifier: 'test-verifier',
+      });
+
+      const body = new URLSearchParams(post.mock.calls[0][1]);
+      expect(body.get('code')).toBe('test-code');
+      expect(body.get('code_verifier')).toBe('test-verifier');
+      expect(body.get('redirect_uri')).toBe('https://app.com/callback');
+    });
+
+    it('should reject a callback with a mismatched state', async () => {
+      const error = await oauth
+        .exchangeAuthorizationCode({
+          callbackUrl: 'https://app.com/callback?code=test-code&state=forged',
+          state: 'stored-state',
+          codeVerifier: 'test-verifier',
+        })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(OAuthError);
+      expect(error.error).toBe('invalid_state');
+      expect(post).not.toHaveBeenCalled();
+    });
+
+    it('should surface errors returned in the callback URL', async () => {
+      const error = await oauth
+        .exchangeAuthorizationCode({
+          callbackUrl: 'https://app.com/callback?error=access_denied&error_description=User+denied+access&state=s',
+          state: 's',
+          codeVerifier: 'test-verifier',
+        })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(OAuthError);
+      expect(error).toMatchObject({ error: 'access_denied', message: 'User denied access' });
+    });
+
+    it('should check the state before errors returned in the callback URL', async () => {
+      const error = await oauth
+        .exchangeAuthorizationCode({
+          callbackUrl: 'https://app.com/callback?error=access_denied&error_description=Sign+in+at+evil.example',
+          state: 'stored-state',
+          codeVerifier: 'test-verifier',
+        })
+        .catch((e) => e);
+
+      expect(error).toMatchObject({ error: 'invalid_state' });
+    });
   });
 
   describe('authenticateWithPassword', () => {
@@ -77,19 +166,19 @@ describe('OAuth2Client', () => {
         refresh_token: 'test-refresh-token',
       };
 
-      mockAxiosInstance.post.mockResolvedValue({ data: mockTokenResponse });
+      post.mockResolvedValue({ data: mockTokenResponse });
 
       const result = await oauth.authenticateWithPassword({
         username: 'test@example.com',
         password: 'test-password',
-        scope: 'read_user_profile',
+        scopes: ['read_user_profile'],
       });
 
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      expect(post).toHaveBeenCalledWith(
         '/oauth2/token',
         expect.stringContaining('grant_type=password')
       );
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      expect(post).toHaveBeenCalledWith(
         '/oauth2/token',
         expect.stringContaining('username=test%40example.com')
       );
@@ -106,25 +195,25 @@ describe('OAuth2Client', () => {
         expires_in: 3600,
       };
 
-      mockAxiosInstance.post.mockResolvedValue({ data: mockTokenResponse });
+      post.mockResolvedValue({ data: mockTokenResponse });
 
-      const result = await oauth.authenticateWithClientCredentials('read_courses');
+      const result = await oauth.authenticateWithClientCredentials(['read_courses', 'read_users']);
 
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      expect(post).toHaveBeenCalledWith(
         '/oauth2/token',
         expect.stringContaining('grant_type=client_credentials')
       );
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      expect(post).toHaveBeenCalledWith(
         '/oauth2/token',
         expect.stringContaining('client_id=test-client-id')
       );
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      expect(post).toHaveBeenCalledWith(
         '/oauth2/token',
         expect.stringContaining('client_secret=test-client-secret')
       );
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      expect(post).toHaveBeenCalledWith(
         '/oauth2/token',
-        expect.stringContaining('scope=read_courses')
+        expect.stringContaining('scope=read_courses+read_users')
       );
       expect(result).toEqual(mockTokenResponse);
       expect(oauth.isAuthenticated()).toBe(true);
@@ -137,11 +226,11 @@ describe('OAuth2Client', () => {
         expires_in: 3600,
       };
 
-      mockAxiosInstance.post.mockResolvedValue({ data: mockTokenResponse });
+      post.mockResolvedValue({ data: mockTokenResponse });
 
       const result = await oauth.authenticateWithClientCredentials();
 
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      expect(post).toHaveBeenCalledWith(
         '/oauth2/token',
         expect.not.stringContaining('scope=')
       );
@@ -163,15 +252,15 @@ describe('OAuth2Client', () => {
         expires_in: 3600,
       };
 
-      mockAxiosInstance.post.mockResolvedValue({ data: mockTokenResponse });
+      post.mockResolvedValue({ data: mockTokenResponse });
 
       const result = await oauth.refreshAccessToken();
 
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      expect(post).toHaveBeenCalledWith(
         '/oauth2/token',
         expect.stringContaining('grant_type=refresh_token')
       );
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      expect(post).toHaveBeenCalledWith(
         '/oauth2/token',
         expect.stringContaining('refresh_token=test-refresh-token')
       );
@@ -210,11 +299,11 @@ describe('OAuth2Client', () => {
         expires_in: 3600,
       };
 
-      mockAxiosInstance.post.mockResolvedValue({ data: mockTokenResponse });
+      post.mockResolvedValue({ data: mockTokenResponse });
 
       const token = await oauth.getAccessToken();
       expect(token).toBe('new-token');
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      expect(post).toHaveBeenCalledWith(
         '/oauth2/token',
         expect.stringContaining('grant_type=refresh_token')
       );
@@ -225,14 +314,80 @@ describe('OAuth2Client', () => {
     });
   });
 
+  describe('token store', () => {
+    const refreshResponse: TokenResponse = {
+      access_token: 'new-token',
+      token_type: 'Bearer',
+      expires_in: 3600,
+      refresh_token: 'rotated-refresh-token',
+    };
+
+    it('should refresh only once for concurrent callers', async () => {
+      await oauth.setTokens({
+        accessToken: 'old-token',
+        refreshToken: 'refresh-token',
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      post.mockResolvedValue({ data: refreshResponse });
+
+      const tokens = await Promise.all([oauth.getAccessToken(), oauth.getAccessToken(), oauth.refreshAccessToken()]);
+
+      expect(post).toHaveBeenCalledTimes(1);
+      expect(tokens[0]).toBe('new-token');
+      expect(tokens[1]).toBe('new-token');
+    });
+
+    it('should persist tokens to the configured store', async () => {
+      const tokenStore = new MemoryTokenStore();
+      oauth = new OAuth2Client({ ...mockConfig, tokenStore });
+      post.mockResolvedValue({ data: refreshResponse });
+
+      await oauth.authenticateWithClientCredentials();
+
+      const stored = await tokenStore.get();
+      expect(stored?.accessToken).toBe('new-token');
+      expect(stored?.refreshToken).toBe('rotated-refresh-token');
+      expect(stored?.expiresAt).toBeInstanceOf(Date);
+    });
+
+    it('should load tokens from the store', async () => {
+      const tokenStore = new MemoryTokenStore({ accessToken: 'stored-token' });
+      oauth = new OAuth2Client({ ...mockConfig, tokenStore });
+
+      await expect(oauth.getAccessToken()).resolves.toBe('stored-token');
+    });
+
+    it('should reuse tokens refreshed by another process while waiting for the lock', async () => {
+      const tokenStore: TokenStore = new MemoryTokenStore({
+        accessToken: 'old-token',
+        refreshToken: 'refresh-token',
+        expiresAt: new Date(Date.now() - 1000),
+      });
+      tokenStore.lock = vi.fn(async (task) => {
+        // Simulate another process refreshing before the lock is granted
+        await tokenStore.set({
+          accessToken: 'other-process-token',
+          refreshToken: 'other-refresh-token',
+          expiresAt: new Date(Date.now() + 3600 * 1000),
+        });
+        return task();
+      }) as TokenStore['lock'];
+      oauth = new OAuth2Client({ ...mockConfig, tokenStore });
+
+      await expect(oauth.getAccessToken()).resolves.toBe('other-process-token');
+      expect(tokenStore.lock).toHaveBeenCalledTimes(1);
+      expect(post).not.toHaveBeenCalled();
+    });
+  });
+
   describe('revokeToken', () => {
     it('should revoke access token', async () => {
       oauth.setTokens({ accessToken: 'test-token' });
-      mockAxiosInstance.post.mockResolvedValue({});
+      post.mockResolvedValue({});
 
       await oauth.revokeToken();
 
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      expect(post).toHaveBeenCalledWith(
         '/oauth2/revoke',
         expect.stringContaining('token=test-token')
       );
@@ -241,11 +396,11 @@ describe('OAuth2Client', () => {
 
     it('should revoke specific token', async () => {
       oauth.setTokens({ accessToken: 'test-token' });
-      mockAxiosInstance.post.mockResolvedValue({});
+      post.mockResolvedValue({});
 
       await oauth.revokeToken('other-token');
 
-      expect(mockAxiosInstance.post).toHaveBeenCalledWith(
+      expect(post).toHaveBeenCalledWith(
         '/oauth2/revoke',
         expect.stringContaining('token=other-token')
       );
@@ -253,6 +408,34 @@ describe('OAuth2Client', () => {
     });
   });
 
+  describe('error handling', () => {
+    it('should reject with an OAuthError carrying the RFC 6749 fields', async () => {
+      post.mockResolvedValue({
+        status: 400,
+        data: { error: 'invalid_grant', error_description: 'Authorization code expired' },
+        headers: { 'x-request-id': 'req-1' },
+      });
+
+      const error = await oauth
+        .exchangeAuthorizationCode({ code: 'expired', redirectUri: 'https://app.com/callback' })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(OAuthError);
+      expect(error.error).toBe('invalid_grant');
+      expect(error.error_description).toBe('Authorization code expired');
+      expect(error.message).toBe('Authorization code expired');
+      expect(error.status).toBe(400);
+      expect(error.url).toBe('/oauth2/token');
+      expect(error.requestId).toBe('req-1');
+    });
+
+    it('should reject with a NetworkError when the server is unreachable', async () => {
+      post.mockRejectedValue(new TypeError('fetch failed'));
+
+      await expect(oauth.authenticateWithClientCredentials()).rejects.toBeInstanceOf(NetworkError);
+    });
+  });
+
   describe('token callback', () => {
     it('should call onTokenRefresh callback', async () => {
       const onTokenRefresh = vi.fn();
@@ -262,7 +445,6 @@ describe('OAuth2Client', () => {
       };
 
       oauth = new OAuth2Client(configWithCallback);
-      mockedAxios.create.mockReturnValue(mockAxiosInstance as any);
 
       const mockTokenResponse: TokenResponse = {
         access_token: 'test-token',
@@ -270,7 +452,7 @@ describe('OAuth2Client', () => {
         expires_in: 3600,
       };
 
-      mockAxiosInstance.post.mockResolvedValue({ data: mockTokenResponse });
+      post.mockResolvedValue({ data: mockTokenResponse });
 
       await oauth.authenticateWithPassword({
         username: 'test@example.com',
@@ -0,0 +1,84 @@
+import { describe, it, expect, vi } from 'vitest';
+import { paginate, toPage, PaginatedResource } from '../pagination.js';
+import type { Page, PaginationParams } from '../types.js';
+
+function makePage(page: number, totalPages: number, perPage = 2): Page<number> {
+  const data = Array.from({ length: perPage }, (_, i) => (page - 1) * perPage + i + 1);
+  return {
+    data,
+    meta: { page, totalPages, itemsPerPage: perPage, totalItems: totalPages * perPage },
+    hasNextPage: page < totalPages,
+  };
+}
+
+describe('toPage', () => {
+  it('should use the meta returned by the API', () => {
+    const page = toPage({
+      success: true,
+      data: [1, 2],
+      meta: { page: 1, totalItems: 4, totalPages: 2, itemsPerPage: 2 },
+    });
+
+    expect(page.hasNextPage).toBe(true);
+    expect(page.meta.totalItems).toBe(4);
+  });
+
+  it('should infer pagination from params when meta is missing', () => {
+    const full = toPage({ success: true, data: [1, 2] }, { page: 3, per_page: 2 });
+    expect(full.hasNextPage).toBe(true);
+    expect(full.meta.page).toBe(3);
+
+    const partial = toPage({ success: true, data: [1] }, { page: 3, per_page: 2 });
+    expect(partial.hasNextPage).toBe(false);
+  });
+});
+
+describe('paginate', () => {
+  it('should follow pages until the last one', async () => {
+    const fetchPage = vi.fn((params: PaginationParams) => Promise.resolve(makePage(params.page!, 3)));
+
+    const items: number[] = [];
+    for await (const item of paginate(fetchPage)) {
+      items.push(item);
+    }
+
+    expect(items).toEqual([1, 2, 3, 4, 5, 6]);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+  });
+
+  it('should stop at maxItems without fetching further pages', async () => {
+    const fetchPage = vi.fn((params: PaginationParams) => Promise.resolve(makePage(params.page!, 5)));
+
+    const items: number[] = [];
+    for await (const item of paginate(fetchPage, { maxItems: 4 })) {
+      items.push(item);
+    }
+
+    expect(items).toEqual([1, 2, 3, 4]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not fetch more pages after an early break', async () => {
+    const fetchPage = vi.fn((params: PaginationParams) => Promise.resolve(makePage(params.page!, 5)));
+
+    for await (const item of paginate(fetchPage)) {
+      if (item === 1) break;
+    }
+
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass per_page and the starting page through', async () => {
+    const fetchPage = vi.fn((params: PaginationParams) => Promise.resolve(makePage(params.page!, 2, 50)));
+
+    const resource = new PaginatedResource(fetchPage);
+    const items: number[] = [];
+    for await (const item of resource.iterate({ per_page: 50, page: 2 })) {
+      items.push(item);
+    }
+
+    expect(fetchPage).toHaveBeenCalledTimes(1);
+    expect(fetchPage).toHaveBeenCalledWith({ per_page: 50, page: 2 });
+    expect(items).toHaveLength(50);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi, beforeEach, Mock } from 'vitest';
+import { LearnWorldsClientPool } from '../pool.js';
+import { LearnWorldsClient } from '../client.js';
+import { RateLimiter } from '../rate-limiter.js';
+import { MockLearnWorldsServer } from '../mock-server.js';
+import { NotFoundError } from '../errors.js';
+import type { LearnWorldsConfig } from '../types.js';
+
+const user = (id: string, email: string): never =>
+  ({
+    id,
+    email,
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+    is_active: true,
+    roles: [],
+    tags: [],
+  }) as never;
+
+describe('LearnWorldsClientPool', () => {
+  let servers: Record<string, MockLearnWorldsServer>;
+  let resolve: Mock<[string], LearnWorldsConfig>;
+
+  beforeEach(() => {
+    servers = {
+      alpha: new MockLearnWorldsServer({
+        schoolDomain: 'alpha',
+        apiHost: 'api.alpha.learnworlds.com',
+        users: [user('a-1', 'jane@example.com')],
+      }),
+      beta: new MockLearnWorldsServer({
+        schoolDomain: 'beta',
+        apiHost: 'api.beta.learnworlds.com',
+        users: [user('b-1', 'john@example.com')],
+      }),
+    };
+    resolve = vi.fn((schoolId: string) => {
+      const server = servers[schoolId];
+      if (!server) {
+        throw new NotFoundError(`Unknown school ${schoolId}`);
+      }
+      return server.getConfig({ retry: false });
+    });
+  });
+
+  const createPool = (options: { idleTimeoutMs?: number; maxClients?: number } = {}): LearnWorldsClientPool =>
+    new LearnWorldsClientPool({
+      resolve,
+      schools: ['alpha', 'beta'],
+      onCreate: async (client): Promise<void> => {
+        await client.auth.authenticateWithClientCredentials();
+      },
+      ...options,
+    });
+
+  it('should create clients lazily and reuse them', async () => {
+    const pool = createPool();
+    expect(pool.size).toBe(0);
+
+    const first = await pool.get('alpha');
+    const second = await pool.get('alpha');
+
+    expect(first).toBe(second);
+    expect(resolve).toHaveBeenCalledTimes(1);
+    expect(first.auth.getTokens().accessToken).toBeDefined();
+  });
+
+  it('should keep tokens separate per school', async () => {
+    const pool = createPool();
+    const alpha = await pool.get('alpha');
+    const beta = await pool.get('beta');
+
+    await expect(alpha.getUser('a-1')).resolves.toMatchObject({ email: 'jane@example.com' });
+    await expect(beta.getUser('a-1')).rejects.toBeInstanceOf(NotFoundError);
+
+    for (const server of Object.values(servers)) {
+      expect(server.requests.filter((request) => request.path === '/oauth2/token')).toHaveLength(1);
+    }
+  });
+
+  it('should evict idle and least recently used clients', async () => {
+    const onEvict = vi.fn();
+    const pool = new LearnWorldsClientPool({ resolve, idleTimeoutMs: 1000, maxClients: 1, onEvict });
+
+    await pool.get('alpha');
+    await pool.get('beta');
+    expect(pool.has('alpha')).toBe(false);
+    expect(pool.has('beta')).toBe(true);
+
+    expect(pool.evictIdle(Date.now() + 5000)).toEqual(['beta']);
+    expect(pool.size).toBe(0);
+
+    await vi.waitFor(() => expect(onEvict).toHaveBeenCalledTimes(2));
+    expect(onEvict.mock.calls.map(([, schoolId]) => schoolId)).toEqual(['alpha', 'beta']);
+  });
+
+  it('should release the shared rate limiter of evicted clients', async () => {
+    resolve.mockImplementation((schoolId) => servers[schoolId].getConfig({ retry: false, rateLimit: {} }));
+    const pool = createPool();
+    const first = await pool.get('alpha');
+    const close = vi.spyOn(first, 'close');
+
+    pool.evict('alpha');
+    await vi.waitFor(() => expect(close).toHaveBeenCalledTimes(1));
+
+    const second = await pool.get('alpha');
+    expect((second as any).rateLimiter).not.toBe((first as any).rateLimiter);
+  });
+
+  it('should release the shared rate limiter of clients whose onCreate failed', async () => {
+    resolve.mockImplementation((schoolId) => servers[schoolId].getConfig({ retry: false, rateLimit: {} }));
+    const close = vi.spyOn(LearnWorldsClient.prototype, 'close');
+    const pool = new LearnWorldsClientPool({
+      resolve,
+      onCreate: async (): Promise<void> => {
+        throw new Error('Authentication failed');
+      },
+    });
+
+    await expect(pool.get('beta')).rejects.toThrow('Authentication failed');
+    expect(close).toHaveBeenCalledTimes(1);
+    close.mockRestore();
+
+    const limiter = RateLimiter.forHost('api.beta.learnworlds.com');
+    RateLimiter.releaseHost('api.beta.learnworlds.com');
+    expect(RateLimiter.forHost('api.beta.learnworlds.com')).not.toBe(limiter);
+    RateLimiter.releaseHost('api.beta.learnworlds.com');
+  });
+
+  it('should not cache clients that failed to resolve', async () => {
+    const pool = createPool();
+
+    await expect(pool.get('gamma')).rejects.toBeInstanceOf(NotFoundError);
+    expect(pool.has('gamma')).toBe(false);
+  });
+
+  it('should find an email across schools with per-school results', async () => {
+    const pool = createPool();
+
+    const results = await pool.findUserByEmail('JANE@example.com', { schools: ['alpha', 'beta', 'gamma'] });
+
+    expect(results).toEqual([
+      { status: 'fulfilled', schoolId: 'alpha', value: expect.objectContaining({ id: 'a-1' }) },
+      { status: 'fulfilled', schoolId: 'beta', value: undefined },
+      { status: 'rejected', schoolId: 'gamma', error: expect.any(NotFoundError) },
+    ]);
+  });
+
+  it('should use the configured school list by default', async () => {
+    const pool = createPool();
+
+    const results = await pool.forEachSchool(async (client) => (await client.listUsers()).data.length);
+
+    expect(results.map((result) => result.schoolId)).toEqual(['alpha', 'beta']);
+    expect(results.every((result) => result.status === 'fulfilled' && result.value === 1)).toBe(true);
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RateLimiter } from '../rate-limiter.js';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should limit the number of requests per window', async () => {
+    const limiter = new RateLimiter({ requestsPerWindow: 2, windowMs: 1000, maxConcurrency: 10 });
+    const started: number[] = [];
+
+    for (let i = 0; i < 3; i++) {
+      limiter.acquire().then((release) => {
+        started.push(i);
+        release();
+      });
+    }
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 1]);
+
+    await vi.advanceTimersByTimeAsync(500);
+    expect(started).toEqual([0, 1, 2]);
+  });
+
+  it('should limit concurrency', async () => {
+    const limiter = new RateLimiter({ requestsPerWindow: 100, maxConcurrency: 1 });
+
+    const first = await limiter.acquire();
+    let secondStarted = false;
+    limiter.acquire().then(() => {
+      secondStarted = true;
+    });
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(secondStarted).toBe(false);
+    expect(limiter.pending).toBe(1);
+
+    first();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(secondStarted).toBe(true);
+  });
+
+  it('should serve higher priority lanes first', async () => {
+    const limiter = new RateLimiter({ requestsPerWindow: 100, maxConcurrency: 1 });
+    const order: string[] = [];
+
+    const blocker = await limiter.acquire();
+    const track = (name: string): ((release: () => void) => void) => (release) => {
+      order.push(name);
+      release();
+    };
+
+    limiter.acquire('low').then(track('low'));
+    limiter.acquire('normal').then(track('normal'));
+    limiter.acquire('high').then(track('high'));
+
+    blocker();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(order).toEqual(['high', 'normal', 'low']);
+  });
+
+  it('should pause after a 429 until Retry-After elapses', async () => {
+    const limiter = new RateLimiter({ requestsPerWindow: 100 });
+    limiter.updateFromHeaders({ 'retry-after': '2' }, 429);
+
+    let started = false;
+    limiter.acquire().then(() => {
+      started = true;
+    });
+
+    await vi.advanceTimersByTimeAsync(1900);
+    expect(started).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(started).toBe(true);
+  });
+
+  it('should lower its budget from the remaining quota header', async () => {
+    const limiter = new RateLimiter({ requestsPerWindow: 10, windowMs: 1000 });
+    limiter.updateFromHeaders({ 'x-ratelimit-limit': '10', 'x-ratelimit-remaining': '1' });
+
+    const started: number[] = [];
+    for (let i = 0; i < 2; i++) {
+      limiter.acquire().then((release) => {
+        started.push(i);
+        release();
+      });
+    }
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0]);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(started).toEqual([0, 1]);
+  });
+
+  it('should share one limiter per API host', () => {
+    const a = RateLimiter.forHost('api.school-a.learnworlds.com');
+    const b = RateLimiter.forHost('api.school-a.learnworlds.com');
+    const c = RateLimiter.forHost('api.school-b.learnworlds.com');
+
+    expect(a).toBe(b);
+    expect(a).not.toBe(c);
+  });
+
+  it('should drop a shared limiter once every client released it', () => {
+    const host = 'api.school-c.learnworlds.com';
+    const first = RateLimiter.forHost(host);
+    expect(RateLimiter.forHost(host)).toBe(first);
+
+    RateLimiter.releaseHost(host);
+    expect(RateLimiter.forHost(host)).toBe(first);
+
+    RateLimiter.releaseHost(host);
+    RateLimiter.releaseHost(host);
+    expect(RateLimiter.forHost(host)).not.toBe(first);
+  });
+
+  it('should run scheduled tasks and release the slot', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 });
+
+    await expect(limiter.schedule(() => Promise.resolve('done'))).resolves.toBe('done');
+    await expect(limiter.schedule(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    expect(limiter.inFlight).toBe(0);
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MockLearnWorldsServer } from '../mock-server.js';
+import { LearnWorldsClient } from '../client.js';
+import { AbortError, TimeoutError } from '../errors.js';
+import type { FetchFunction } from '../transport.js';
+
+const course = {
+  id: 'course-1',
+  title: 'Intro',
+  status: 'published' as const,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+describe('request options', () => {
+  let server: MockLearnWorldsServer;
+  let client: LearnWorldsClient;
+
+  const apiCalls = (): string[] =>
+    server.requests
+      .filter((request) => request.path.startsWith('/v2/'))
+      .map((request) => `${request.method} ${request.path} ${request.status}`);
+
+  beforeEach(async () => {
+    server = new MockLearnWorldsServer({ courses: [course] });
+    client = server.createClient({ retry: { maxAttempts: 3, baseDelayMs: 1 } });
+    await client.auth.authenticateWithClientCredentials();
+  });
+
+  it('should reject with AbortError when the signal is already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await client.getCourse('course-1', { signal: controller.signal }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(AbortError);
+    expect(error).toMatchObject({ code: 'ABORTED', method: 'GET', url: '/courses/course-1' });
+    expect(apiCalls()).toEqual([]);
+  });
+
+  it('should cancel a call in flight', async () => {
+    server.setLatency(1000);
+    const controller = new AbortController();
+
+    const pending = client.getCourse('course-1', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 5);
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+  });
+
+  it('should not retry a call aborted while waiting to retry', async () => {
+    const controller = new AbortController();
+    const slow = server.createClient({ retry: { maxAttempts: 4, baseDelayMs: 1000, jitter: 'none' } });
+    await slow.auth.authenticateWithClientCredentials();
+    server.injectFault({ status: 503, path: '/v2/courses' });
+
+    const pending = slow.getCourse('course-1', { signal: controller.signal });
+    await vi.waitFor(() => expect(apiCalls()).toHaveLength(1));
+    controller.abort();
+
+    await expect(pending).rejects.toBeInstanceOf(AbortError);
+    expect(apiCalls()).toEqual(['GET /v2/courses/course-1 503']);
+  });
+
+  it('should reject with TimeoutError once the timeout elapses', async () => {
+    server.setLatency(1000);
+
+    const error = await client.getCourse('course-1', { timeout: 10 }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).not.toBeInstanceOf(AbortError);
+    expect(error.message).toBe('The operation timed out after 10 ms');
+  });
+
+  it('should send extra headers and the idempotency key, retrying keyed writes', async () => {
+    const fetch = vi.fn<Parameters<FetchFunction>, ReturnType<FetchFunction>>(server.fetch);
+    const keyed = server.createClient({ fetch, retry: { maxAttempts: 2, baseDelayMs: 1 } });
+    await keyed.auth.authenticateWithClientCredentials();
+    server.injectFault({ status: 503, method: 'POST', path: '/v2/users' });
+
+    await keyed.createUser(
+      { email: 'jane@example.com' },
+      { idempotencyKey: 'signup-42', headers: { 'X-Trace-Id': 'trace-1' } }
+    );
+
+    const headers = new Headers(fetch.mock.calls.at(-1)?.[1].headers);
+    expect(headers.get('idempotency-key')).toBe('signup-42');
+    expect(headers.get('x-trace-id')).toBe('trace-1');
+    expect(apiCalls()).toEqual(['POST /v2/users 503', 'POST /v2/users 201']);
+  });
+
+  it('should skip the response cache when bypassCache is set', async () => {
+    const cached = server.createClient({ cache: {} });
+    await cached.auth.authenticateWithClientCredentials();
+
+    await cached.getCourse('course-1');
+    await cached.getCourse('course-1');
+    server.courses.set('course-1', { ...course, title: 'Updated' });
+    const fresh = await cached.getCourse('course-1', { bypassCache: true });
+
+    expect(fresh.title).toBe('Updated');
+    await expect(cached.getCourse('course-1')).resolves.toMatchObject({ title: 'Updated' });
+    expect(apiCalls()).toEqual(['GET /v2/courses/course-1 200', 'GET /v2/courses/course-1 200']);
+  });
+
+  it('should pass options to every page of an iteration', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    const iterate = async (): Promise<void> => {
+      for await (const item of client.courses.iterate({ per_page: 1 }, { signal: controller.signal })) {
+        expect(item).toBeDefined();
+      }
+    };
+
+    await expect(iterate()).rejects.toBeInstanceOf(AbortError);
+  });
+});
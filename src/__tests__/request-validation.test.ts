@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { MockLearnWorldsServer } from '../mock-server.js';
+import { ValidationError } from '../errors.js';
+import {
+  isIsoDate,
+  validateCreateUserRequest,
+  validateEnrollUserRequest,
+  validateUnenrollUserRequest,
+  validateUpdateUserRequest,
+  validateUpdateUserTagsRequest,
+} from '../request-validation.js';
+import type { CreateUserRequest, EnrollUserRequest, UpdateUserTagsRequest } from '../types.js';
+
+const fields = (errors: Array<{ field: string; code?: string }>): string[] =>
+  errors.map(({ field, code }) => `${field}:${code}`);
+
+describe('request validation', () => {
+  it('should accept ISO-8601 dates and reject days that do not exist', () => {
+    expect(isIsoDate('2024-02-29')).toBe(true);
+    expect(isIsoDate('2024-12-31T23:59:59.000Z')).toBe(true);
+    expect(isIsoDate('2024-06-01T10:00:00+02:00')).toBe(true);
+    expect(isIsoDate('2023-02-29')).toBe(false);
+    expect(isIsoDate('06/01/2024')).toBe(false);
+    expect(isIsoDate('2024-06-01T25:00:00Z')).toBe(false);
+  });
+
+  it('should check user payloads', () => {
+    expect(validateCreateUserRequest({ email: 'jane@example.com', password: 'long-enough', tags: [] })).toEqual([]);
+
+    const errors = validateCreateUserRequest({
+      email: 'jane@example',
+      password: 'short',
+      tags: ['vip', ' '],
+      custom_fields: [] as unknown as Record<string, unknown>,
+    });
+    expect(fields(errors)).toEqual([
+      'email:invalid_email',
+      'password:too_short',
+      'tags.1:invalid_value',
+      'custom_fields:invalid_type',
+    ]);
+    expect(errors[0].message).toBe('The email must be a valid email address.');
+
+    expect(fields(validateCreateUserRequest({} as CreateUserRequest))).toEqual(['email:required']);
+    expect(fields(validateUpdateUserRequest({ is_active: 'yes' as unknown as boolean }))).toEqual([
+      'is_active:invalid_type',
+    ]);
+  });
+
+  it('should apply password rules', () => {
+    const rules = { minLength: 10, requireUppercase: true, requireDigit: true, requireSymbol: true };
+
+    expect(validateCreateUserRequest({ email: 'jane@example.com', password: 'Correct-Horse-1' }, rules)).toEqual([]);
+    expect(validateCreateUserRequest({ email: 'jane@example.com', password: 'lowercase only' }, rules)).toEqual([
+      {
+        field: 'password',
+        code: 'weak_password',
+        message: 'The password must contain an uppercase letter, a digit.',
+      },
+    ]);
+  });
+
+  it('should require a non-empty tag list and a known action', () => {
+    expect(validateUpdateUserTagsRequest({ tags: ['vip'], action: 'replace' })).toEqual([]);
+    expect(fields(validateUpdateUserTagsRequest({ tags: [], action: 'replace' }))).toEqual(['tags:required']);
+    expect(fields(validateUpdateUserTagsRequest({ action: 'merge' } as unknown as UpdateUserTagsRequest))).toEqual([
+      'action:invalid_value',
+      'tags:required',
+    ]);
+  });
+
+  it('should check enrollment payloads', () => {
+    const enrollment: EnrollUserRequest = { user_id: 'u1', product_id: 'course-1', product_type: 'course' };
+    expect(validateEnrollUserRequest({ ...enrollment, expires_at: '2025-01-01T00:00:00Z' })).toEqual([]);
+
+    expect(
+      fields(
+        validateEnrollUserRequest({
+          ...enrollment,
+          product_type: 'subscription' as 'course',
+          enrollment_type: 'trial' as 'free',
+          expires_at: 'next year',
+        })
+      )
+    ).toEqual(['product_type:invalid_value', 'enrollment_type:invalid_value', 'expires_at:invalid_date']);
+    expect(fields(validateUnenrollUserRequest({ ...enrollment, user_id: '' }))).toEqual(['user_id:required']);
+  });
+});
+
+describe('LearnWorldsClient request validation', () => {
+  let server: MockLearnWorldsServer;
+
+  beforeEach(() => {
+    server = new MockLearnWorldsServer();
+  });
+
+  it('should reject invalid payloads before sending them', async () => {
+    const client = server.createClient({ requestValidation: true, accessToken: 'token' });
+
+    const error = await client
+      .enrollUserToProduct({ user_id: 'u1', product_id: 'course-1', product_type: 'course', expires_at: 'soon' })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(ValidationError);
+    expect(error).toMatchObject({
+      message: 'The expires_at must be an ISO-8601 date.',
+      status: undefined,
+      code: 'VALIDATION_ERROR',
+      method: 'POST',
+      url: '/enrollments',
+    });
+    expect(error.fieldErrors).toEqual([
+      { field: 'expires_at', code: 'invalid_date', message: 'The expires_at must be an ISO-8601 date.' },
+    ]);
+    expect(server.requests).toEqual([]);
+  });
+
+  it('should use the configured password rules and stay off by default', async () => {
+    const strict = server.createClient({ requestValidation: { password: { minLength: 12 } } });
+    await strict.auth.authenticateWithClientCredentials();
+
+    await expect(strict.createUser({ email: 'jane@example.com', password: 'eleven-char' })).rejects.toMatchObject({
+      fieldErrors: [{ field: 'password', code: 'too_short' }],
+    });
+
+    const lenient = server.createClient();
+    await lenient.auth.authenticateWithClientCredentials();
+    await expect(lenient.createUser({ email: 'jane@example.com', password: 'eleven-char' })).resolves.toMatchObject({
+      email: 'jane@example.com',
+    });
+  });
+});
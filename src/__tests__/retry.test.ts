@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { RetryPolicy, parseRetryAfter, parseRateLimitReset } from '../retry.js';
+
+describe('RetryPolicy', () => {
+  describe('shouldRetry', () => {
+    const policy = new RetryPolicy({ maxAttempts: 3 });
+
+    it('should retry idempotent methods on retryable statuses', () => {
+      expect(policy.shouldRetry(1, 'get', {}, 429)).toBe(true);
+      expect(policy.shouldRetry(1, 'delete', {}, 503)).toBe(true);
+      expect(policy.shouldRetry(1, 'get', {}, 404)).toBe(false);
+    });
+
+    it('should retry network errors', () => {
+      expect(policy.shouldRetry(1, 'get', {}, undefined)).toBe(true);
+      expect(new RetryPolicy({ retryOnNetworkError: false }).shouldRetry(1, 'get', {}, undefined)).toBe(false);
+    });
+
+    it('should stop after maxAttempts', () => {
+      expect(policy.shouldRetry(2, 'get', {}, 500)).toBe(true);
+      expect(policy.shouldRetry(3, 'get', {}, 500)).toBe(false);
+    });
+
+    it('should only retry POST when an idempotency key is present', () => {
+      expect(policy.shouldRetry(1, 'post', {}, 503)).toBe(false);
+      expect(policy.shouldRetry(1, 'post', { 'idempotency-key': 'abc' }, 503)).toBe(true);
+    });
+
+    it('should respect custom statuses and methods', () => {
+      const custom = new RetryPolicy({ retryOnStatus: [409], retryOnMethods: ['POST'] });
+      expect(custom.shouldRetry(1, 'post', {}, 409)).toBe(true);
+      expect(custom.shouldRetry(1, 'get', {}, 409)).toBe(false);
+      expect(custom.shouldRetry(1, 'post', {}, 500)).toBe(false);
+    });
+  });
+
+  describe('getDelay', () => {
+    it('should back off exponentially without jitter', () => {
+      const policy = new RetryPolicy({ baseDelayMs: 100, jitter: 'none' });
+      expect(policy.getDelay(1)).toBe(100);
+      expect(policy.getDelay(2)).toBe(200);
+      expect(policy.getDelay(3)).toBe(400);
+    });
+
+    it('should cap the delay at maxDelayMs', () => {
+      const policy = new RetryPolicy({ baseDelayMs: 1000, maxDelayMs: 1500, jitter: 'none' });
+      expect(policy.getDelay(5)).toBe(1500);
+      expect(policy.getDelay(1, { 'Retry-After': '120' })).toBe(1500);
+    });
+
+    it('should keep jittered delays within the backoff window', () => {
+      const policy = new RetryPolicy({ baseDelayMs: 100, jitter: 'equal' });
+      const delay = policy.getDelay(2);
+      expect(delay).toBeGreaterThanOrEqual(100);
+      expect(delay).toBeLessThanOrEqual(200);
+    });
+
+    it('should prefer Retry-After over backoff', () => {
+      const policy = new RetryPolicy({ baseDelayMs: 100, jitter: 'none' });
+      expect(policy.getDelay(1, { 'retry-after': '2' })).toBe(2000);
+    });
+
+    it('should wait for an exhausted rate limit window to reset', () => {
+      const policy = new RetryPolicy({ baseDelayMs: 100, jitter: 'none' });
+      expect(policy.getDelay(1, { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '3' })).toBe(3000);
+      expect(policy.getDelay(1, { 'x-ratelimit-remaining': '5', 'x-ratelimit-reset': '3' })).toBe(100);
+    });
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse seconds and HTTP dates', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(parseRetryAfter('5', now)).toBe(5000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter('invalid', now)).toBeUndefined();
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+  });
+});
+
+describe('parseRateLimitReset', () => {
+  it('should handle unix timestamps', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    const reset = String(now / 1000 + 7);
+    expect(parseRateLimitReset({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset }, now)).toBe(7000);
+  });
+});
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi } from 'vitest';
+import { s, parseDates, validateSchema, userSchema, enrollmentSchema, paymentSchema } from '../schemas.js';
+import { ResponseValidationError } from '../errors.js';
+import { MockLearnWorldsServer } from '../mock-server.js';
+import { LearnWorldsClient } from '../client.js';
+import { ResponseValidationOptions } from '../types.js';
+
+const user = {
+  id: 'user-1',
+  email: 'jane@example.com',
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-02T00:00:00Z',
+  is_active: true,
+  roles: ['student'],
+  tags: [],
+};
+
+describe('validateSchema', () => {
+  it('should accept matching values and keep unknown fields', () => {
+    const result = validateSchema(userSchema, { ...user, extra: 'kept' });
+
+    expect(result.issues).toEqual([]);
+    expect(result.value).toEqual({ ...user, extra: 'kept' });
+  });
+
+  it('should report the path of every mismatch', () => {
+    const result = validateSchema(s.array(userSchema), [user, { ...user, tags: null, is_active: 'yes' }]);
+
+    expect(result.issues).toEqual([
+      { path: '$[1].is_active', expected: 'boolean', received: 'string' },
+      { path: '$[1].tags', expected: 'array', received: 'null' },
+    ]);
+  });
+
+  it('should report enum mismatches and invalid dates', () => {
+    const result = validateSchema(enrollmentSchema, {
+      id: 'enr-1',
+      user_id: 'user-1',
+      product_id: 'course-1',
+      product_type: 'subscription',
+      enrollment_type: 'free',
+      status: 'active',
+      enrolled_at: 'yesterday',
+    });
+
+    expect(result.issues).toEqual([
+      { path: '$.product_type', expected: "'course' | 'bundle'", received: 'string' },
+      { path: '$.enrolled_at', expected: 'ISO-8601 date string', received: 'string' },
+    ]);
+  });
+
+  it('should treat null as a missing optional field', () => {
+    expect(validateSchema(userSchema, { ...user, last_login: null }).issues).toEqual([]);
+  });
+});
+
+describe('parseDates', () => {
+  it('should convert the date fields of a value into typed Date objects', () => {
+    const input = { ...user, last_login: '2024-03-01T10:00:00Z' };
+    const parsed = parseDates(userSchema, input);
+
+    const createdAt: Date = parsed.created_at;
+    const lastLogin: Date | undefined = parsed.last_login;
+    expect(createdAt).toEqual(new Date('2024-01-01T00:00:00Z'));
+    expect(lastLogin).toEqual(new Date('2024-03-01T10:00:00Z'));
+    expect(parsed.email).toBe('jane@example.com');
+    expect(input.created_at).toBe('2024-01-01T00:00:00Z');
+  });
+
+  it('should convert nested and listed records', () => {
+    const payment = {
+      id: 'pay-1',
+      user_id: 'user-1',
+      product_id: 'course-1',
+      product_type: 'course' as const,
+      amount: 49,
+      currency: 'USD',
+      status: 'succeeded' as const,
+      created_at: '2024-03-01T10:00:00Z',
+    };
+
+    const [parsed] = parseDates(s.array(paymentSchema), [payment]);
+
+    expect(parsed.created_at).toBeInstanceOf(Date);
+    expect(parsed.paid_at).toBeUndefined();
+  });
+});
+
+describe('LearnWorldsClient response validation', () => {
+  const brokenCourse = {
+    id: 'course-1',
+    title: 'Broken',
+    status: 'unknown',
+    created_at: '2024-01-01T00:00:00Z',
+    updated_at: '2024-01-01T00:00:00Z',
+  } as never;
+
+  const setup = async (validation: ResponseValidationOptions): Promise<LearnWorldsClient> => {
+    const server = new MockLearnWorldsServer({ courses: [brokenCourse] });
+    const client = server.createClient({ retry: false, validation });
+    await client.auth.authenticateWithClientCredentials();
+    return client;
+  };
+
+  it('should not validate by default', async () => {
+    const client = await setup({});
+    await expect(client.getCourse('course-1')).resolves.toMatchObject({ status: 'unknown' });
+  });
+
+  it('should throw a ResponseValidationError in strict mode', async () => {
+    const client = await setup({ mode: 'strict' });
+
+    const error = await client.getCourse('course-1').catch((e) => e);
+    expect(error).toBeInstanceOf(ResponseValidationError);
+    expect(error.message).toBe("Invalid response at $.status: expected 'published' | 'draft' | 'archived', received string");
+    expect(error).toMatchObject({ method: 'GET', url: '/courses/course-1' });
+  });
+
+  it('should report and continue in warn mode', async () => {
+    const onInvalid = vi.fn();
+    const client = await setup({ mode: 'warn', onInvalid });
+
+    const page = await client.courses.list();
+    expect(page.data[0].title).toBe('Broken');
+    expect(onInvalid).toHaveBeenCalledWith(expect.any(ResponseValidationError));
+    expect(onInvalid.mock.calls[0][0].issues[0].path).toBe('$[0].status');
+  });
+});
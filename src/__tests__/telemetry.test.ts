@@ -0,0 +1,168 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { MockLearnWorldsServer } from '../mock-server.js';
+import { NotFoundError } from '../errors.js';
+import { FetchTransport } from '../transport.js';
+import type { HttpTransport } from '../transport.js';
+import type { OpenTelemetryApi } from '../telemetry.js';
+
+type Span = ReturnType<ReturnType<OpenTelemetryApi['trace']['getTracer']>['startSpan']>;
+
+interface RecordedSpan {
+  name: string;
+  attributes: Record<string, unknown>;
+  /** Name of the span that was active when this one started */
+  parent?: string;
+  status?: { code: number; message?: string };
+  ended: boolean;
+}
+
+/**
+ * Fake OpenTelemetry API. The context is kept in AsyncLocalStorage, like the Node context manager,
+ * and the recorded spans double as context values.
+ */
+function createFakeApi(): {
+  api: OpenTelemetryApi;
+  spans: RecordedSpan[];
+  metrics: Array<{ name: string; value: number; attributes?: Record<string, unknown> }>;
+} {
+  const spans: RecordedSpan[] = [];
+  const metrics: Array<{ name: string; value: number; attributes?: Record<string, unknown> }> = [];
+  const storage = new AsyncLocalStorage<RecordedSpan | undefined>();
+  const recorded = new WeakMap<Span, RecordedSpan>();
+
+  const api: OpenTelemetryApi = {
+    trace: {
+      getTracer: () => ({
+        startSpan: (name, options): Span => {
+          const span: RecordedSpan = {
+            name,
+            attributes: { ...options?.attributes },
+            parent: storage.getStore()?.name,
+            ended: false,
+          };
+          spans.push(span);
+          const handle: Span = {
+            setAttributes: (attributes) => Object.assign(span.attributes, attributes),
+            setStatus: (status) => (span.status = status),
+            recordException: () => undefined,
+            end: () => (span.ended = true),
+          };
+          recorded.set(handle, span);
+          return handle;
+        },
+      }),
+      setSpan: (_context, span) => recorded.get(span),
+    },
+    context: {
+      active: () => storage.getStore(),
+      with: (context, fn) => storage.run(context as RecordedSpan | undefined, fn),
+    },
+    metrics: {
+      getMeter: () => ({
+        createHistogram: (name) => ({ record: (value, attributes) => metrics.push({ name, value, attributes }) }),
+        createCounter: (name) => ({ add: (value, attributes) => metrics.push({ name, value, attributes }) }),
+      }),
+    },
+  };
+
+  return { api, spans, metrics };
+}
+
+describe('OpenTelemetry instrumentation', () => {
+  let server: MockLearnWorldsServer;
+  let fake: ReturnType<typeof createFakeApi>;
+
+  beforeEach(() => {
+    server = new MockLearnWorldsServer();
+    fake = createFakeApi();
+  });
+
+  it('should create a span per client method with route, status and retry count', async () => {
+    const client = server.createClient({ telemetry: { api: fake.api }, retry: { baseDelayMs: 1 } });
+    await client.auth.authenticateWithClientCredentials();
+
+    const user = await client.createUser({ email: 'jane@example.com' });
+    server.injectFault({ status: 503, times: 1 });
+    await client.getUser(user.id);
+
+    const span = fake.spans.find((s) => s.name === 'learnworlds.getUser');
+    expect(span).toMatchObject({
+      ended: true,
+      attributes: {
+        'learnworlds.operation': 'getUser',
+        'http.request.method': 'GET',
+        'url.template': '/users/{id}',
+        'http.response.status_code': 200,
+        'learnworlds.retry_count': 1,
+      },
+    });
+    expect(fake.spans.map((s) => s.name)).toEqual([
+      'learnworlds.oauth.client_credentials',
+      'learnworlds.createUser',
+      'learnworlds.getUser',
+    ]);
+
+    const durations = fake.metrics.filter((m) => m.name === 'learnworlds.client.request.duration');
+    expect(durations).toHaveLength(3);
+    expect(durations[2].attributes).toMatchObject({ 'url.template': '/users/{id}' });
+  });
+
+  it('should make the call span active while the request is sent', async () => {
+    const fetchTransport = new FetchTransport({ fetch: server.fetch });
+    // Stands in for HTTP client instrumentation running inside the transport
+    const transport: HttpTransport = {
+      send: (request) => {
+        fake.api.trace.getTracer('http').startSpan(`HTTP ${request.method}`).end();
+        return fetchTransport.send(request);
+      },
+    };
+    const client = server.createClient({ telemetry: { api: fake.api }, transport });
+    await client.auth.authenticateWithClientCredentials();
+
+    await client.getAllCourses();
+
+    expect(fake.spans.slice(-2).map(({ name, parent }) => ({ name, parent }))).toEqual([
+      { name: 'learnworlds.getAllCourses', parent: undefined },
+      { name: 'HTTP GET', parent: 'learnworlds.getAllCourses' },
+    ]);
+  });
+
+  it('should mark failed calls as errors', async () => {
+    const client = server.createClient({ telemetry: { api: fake.api }, retry: false });
+    await client.auth.authenticateWithClientCredentials();
+
+    await expect(client.getCourse('missing')).rejects.toBeInstanceOf(NotFoundError);
+
+    expect(fake.spans.at(-1)).toMatchObject({
+      status: { code: 2 },
+      attributes: { 'http.response.status_code': 404, 'error.type': 'NOT_FOUND' },
+    });
+  });
+
+  it('should count rate limit hits and token refreshes', async () => {
+    const client = server.createClient({ telemetry: { api: fake.api }, retry: { baseDelayMs: 1 } });
+    await client.auth.authenticateWithClientCredentials();
+
+    server.injectFault({ status: 429, retryAfter: 0, times: 1 });
+    await client.getAllCourses();
+    server.expireTokens();
+    await client.getAllCourses();
+
+    await Promise.resolve();
+    const names = fake.metrics.map((m) => m.name);
+    expect(names.filter((name) => name === 'learnworlds.client.rate_limit.hits')).toHaveLength(1);
+    expect(fake.metrics.find((m) => m.name === 'learnworlds.client.token.refreshes')).toMatchObject({
+      value: 1,
+      attributes: { 'learnworlds.outcome': 'success' },
+    });
+    expect(fake.spans.map((s) => s.name)).toContain('learnworlds.oauth.refresh_token');
+  });
+
+  it('should be a no-op when the OpenTelemetry API is not installed', async () => {
+    const client = server.createClient({ telemetry: true });
+    await client.auth.authenticateWithClientCredentials();
+
+    await expect(client.getAllCourses()).resolves.toEqual([]);
+  });
+});
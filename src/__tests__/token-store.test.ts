@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, stat, writeFile, utimes } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MemoryTokenStore, FileTokenStore } from '../token-store.js';
+import { TimeoutError } from '../errors.js';
+
+describe('MemoryTokenStore', () => {
+  it('should get, set and clear tokens', async () => {
+    const store = new MemoryTokenStore();
+    expect(await store.get()).toBeUndefined();
+
+    await store.set({ accessToken: 'token', refreshToken: 'refresh' });
+    expect(await store.get()).toEqual({ accessToken: 'token', refreshToken: 'refresh' });
+
+    await store.clear();
+    expect(await store.get()).toBeUndefined();
+  });
+});
+
+describe('FileTokenStore', () => {
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'learnworlds-tokens-'));
+    filePath = join(dir, 'nested', 'tokens.json');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should persist tokens to disk', async () => {
+    const expiresAt = new Date('2030-01-01T00:00:00Z');
+    await new FileTokenStore(filePath).set({ accessToken: 'token', refreshToken: 'refresh', expiresAt });
+
+    const tokens = await new FileTokenStore(filePath).get();
+    expect(tokens).toEqual({ accessToken: 'token', refreshToken: 'refresh', expiresAt });
+  });
+
+  it('should keep concurrent writes apart', async () => {
+    const store = new FileTokenStore(filePath);
+
+    await Promise.all(Array.from({ length: 5 }, (_, i) => store.set({ accessToken: `token-${i}` })));
+
+    expect((await store.get())?.accessToken).toMatch(/^token-\d$/);
+  });
+
+  it('should return undefined when the file does not exist', async () => {
+    expect(await new FileTokenStore(filePath).get()).toBeUndefined();
+  });
+
+  it('should remove the file on clear', async () => {
+    const store = new FileTokenStore(filePath);
+    await store.set({ accessToken: 'token' });
+    await store.clear();
+
+    await expect(stat(filePath)).rejects.toThrow();
+  });
+
+  it('should run locked tasks one at a time', async () => {
+    const store = new FileTokenStore(filePath);
+    await store.set({ accessToken: 'token' });
+    const events: string[] = [];
+
+    const task = (name: string) => async (): Promise<void> => {
+      events.push(`${name}:start`);
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      events.push(`${name}:end`);
+    };
+
+    await Promise.all([store.lock(task('a')), store.lock(task('b'))]);
+
+    expect(events).toEqual(['a:start', 'a:end', 'b:start', 'b:end']);
+    await expect(stat(`${filePath}.lock`)).rejects.toThrow();
+  });
+
+  it('should throw a TimeoutError when the lock is not released in time', async () => {
+    const store = new FileTokenStore(filePath, { lockTimeoutMs: 100 });
+    await store.set({ accessToken: 'token' });
+    await writeFile(`${filePath}.lock`, '');
+
+    const error = await store.lock(async () => 'acquired').catch((e) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.code).toBe('TOKEN_LOCK_TIMEOUT');
+  });
+
+  it('should break stale locks', async () => {
+    const store = new FileTokenStore(filePath, { staleLockMs: 1000 });
+    await store.set({ accessToken: 'token' });
+
+    const lockPath = `${filePath}.lock`;
+    await writeFile(lockPath, '');
+    const past = new Date(Date.now() - 5000);
+    await utimes(lockPath, past, past);
+
+    await expect(store.lock(async () => 'acquired')).resolves.toBe('acquired');
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { AxiosAdapter, AxiosResponse } from 'axios';
+import { MockLearnWorldsServer } from '../mock-server.js';
+import { AxiosTransport } from '../axios-transport.js';
+import { AbortError, NetworkError, NotFoundError } from '../errors.js';
+import { FetchTransport, buildUrl } from '../transport.js';
+import type { HttpTransport } from '../transport.js';
+
+const course = {
+  id: 'course-1',
+  title: 'Intro',
+  status: 'published' as const,
+  created_at: '2024-01-01T00:00:00Z',
+  updated_at: '2024-01-01T00:00:00Z',
+};
+
+describe('buildUrl', () => {
+  it('should drop empty parameters and repeat array values', () => {
+    expect(buildUrl('https://api.test/v2', '/users', { page: 2, search: undefined, tags: ['a', 'b'] })).toBe(
+      'https://api.test/v2/users?page=2&tags=a&tags=b'
+    );
+    expect(buildUrl('https://api.test/v2', '/users', {})).toBe('https://api.test/v2/users');
+  });
+});
+
+describe('FetchTransport', () => {
+  it('should send the request and parse the response', async () => {
+    const fetch = vi.fn(
+      async (): Promise<Response> =>
+        new Response('{"success":true}', { status: 201, headers: { 'X-Request-Id': 'req-1' } })
+    );
+    const transport = new FetchTransport({ fetch });
+
+    const response = await transport.send({
+      method: 'POST',
+      url: 'https://api.test/v2/users',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"email":"jane@example.com"}',
+    });
+
+    expect(fetch).toHaveBeenCalledWith('https://api.test/v2/users', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"email":"jane@example.com"}',
+      signal: undefined,
+    });
+    expect(response).toMatchObject({ status: 201, headers: { 'x-request-id': 'req-1' }, data: { success: true } });
+  });
+
+  it('should keep non-JSON bodies as text', async () => {
+    const transport = new FetchTransport({
+      fetch: async (): Promise<Response> => new Response('Bad Gateway', { status: 502 }),
+    });
+
+    await expect(transport.send({ method: 'GET', url: 'https://api.test/v2', headers: {} })).resolves.toMatchObject({
+      status: 502,
+      data: 'Bad Gateway',
+    });
+  });
+});
+
+/**
+ * Axios adapter that answers through the mock server's `fetch`
+ */
+function mockAdapter(server: MockLearnWorldsServer): AxiosAdapter {
+  return async (config): Promise<AxiosResponse> => {
+    const response = await server.fetch(config.url ?? '', {
+      method: config.method?.toUpperCase(),
+      headers: Object.fromEntries(Object.entries(config.headers.toJSON()).map(([k, v]) => [k, String(v)])),
+      body: config.data,
+    });
+    const text = await response.text();
+
+    return {
+      data: text ? JSON.parse(text) : undefined,
+      status: response.status,
+      statusText: response.statusText,
+      headers: Object.fromEntries(response.headers),
+      config,
+    };
+  };
+}
+
+describe('client transports', () => {
+  let server: MockLearnWorldsServer;
+
+  beforeEach(() => {
+    server = new MockLearnWorldsServer({ courses: [course] });
+  });
+
+  it('should authenticate and call the API through AxiosTransport', async () => {
+    const client = server.createClient({ transport: new AxiosTransport({ adapter: mockAdapter(server) }) });
+    await client.auth.authenticateWithClientCredentials();
+
+    await expect(client.getCourse('course-1')).resolves.toMatchObject({ title: 'Intro' });
+    await expect(client.getCourse('missing')).rejects.toBeInstanceOf(NotFoundError);
+
+    server.expireTokens();
+    await expect(client.getCourse('course-1')).resolves.toMatchObject({ title: 'Intro' });
+    expect(server.requests.map((request) => request.status)).toEqual([200, 200, 404, 401, 200, 200]);
+  });
+
+  it('should treat an empty 204 body from AxiosTransport as success', async () => {
+    const adapter: AxiosAdapter = async (config) => ({ data: '', status: 204, statusText: '', headers: {}, config });
+    const transport = new AxiosTransport({ adapter });
+    const client = server.createClient({ transport, retry: false, accessToken: 'token' });
+
+    await expect(client.deleteUser('user-1')).resolves.toBeUndefined();
+  });
+
+  it('should treat an empty 2xx body as success', async () => {
+    const fetch = vi.fn(async (): Promise<Response> => new Response(null, { status: 204 }));
+    const client = server.createClient({ fetch, retry: false, accessToken: 'token' });
+
+    await expect(client.deleteUser('user-1')).resolves.toBeUndefined();
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should map transport failures onto network and abort errors', async () => {
+    const send = vi.fn<Parameters<HttpTransport['send']>, ReturnType<HttpTransport['send']>>();
+    const client = server.createClient({ transport: { send }, retry: false, accessToken: 'token' });
+
+    send.mockRejectedValueOnce(new TypeError('fetch failed'));
+    const failure = await client.getCourse('course-1').catch((error) => error);
+    expect(failure).toBeInstanceOf(NetworkError);
+    expect(failure).toMatchObject({ method: 'GET', url: '/courses/course-1' });
+
+    send.mockRejectedValueOnce(new DOMException('The operation was aborted', 'AbortError'));
+    await expect(client.getCourse('course-1')).rejects.toBeInstanceOf(AbortError);
+  });
+});
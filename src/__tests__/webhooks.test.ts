@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Readable } from 'node:stream';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { WebhookReceiver, computeWebhookSignature, verifyWebhookSignature } from '../webhooks.js';
+import { WebhookVerificationError } from '../errors.js';
+import type { UserEnrolledEvent } from '../types.js';
+
+const secret = 'whsec_test';
+
+const event: UserEnrolledEvent = {
+  id: 'evt-1',
+  type: 'user.enrolled',
+  created_at: '2024-01-01T00:00:00Z',
+  data: {
+    user: {
+      id: 'user-1',
+      email: 'test@example.com',
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-01T00:00:00Z',
+      is_active: true,
+      roles: ['student'],
+      tags: [],
+    },
+    enrollment: {
+      id: 'enrollment-1',
+      user_id: 'user-1',
+      product_id: 'course-1',
+      product_type: 'course',
+      enrollment_type: 'free',
+      status: 'active',
+      enrolled_at: '2024-01-01T00:00:00Z',
+    },
+    product: {
+      id: 'course-1',
+      title: 'Test Course',
+      status: 'published',
+      created_at: '2024-01-01T00:00:00Z',
+      updated_at: '2024-01-01T00:00:00Z',
+    },
+  },
+};
+
+const body = JSON.stringify(event);
+
+describe('verifyWebhookSignature', () => {
+  it('should accept a valid signature', async () => {
+    const signature = await computeWebhookSignature(body, secret);
+    await expect(verifyWebhookSignature(body, signature, secret)).resolves.toBeUndefined();
+  });
+
+  it('should reject a tampered body', async () => {
+    const signature = await computeWebhookSignature(body, secret);
+    await expect(verifyWebhookSignature(body.replace('user-1', 'user-2'), signature, secret)).rejects.toThrow(
+      'Invalid webhook signature'
+    );
+  });
+
+  it('should reject a wrong secret', async () => {
+    const signature = await computeWebhookSignature(body, 'other-secret');
+    await expect(verifyWebhookSignature(body, signature, secret)).rejects.toBeInstanceOf(WebhookVerificationError);
+  });
+
+  it('should reject stale timestamps', async () => {
+    const signature = await computeWebhookSignature(body, secret, Math.floor(Date.now() / 1000) - 600);
+    await expect(verifyWebhookSignature(body, signature, secret)).rejects.toThrow('tolerance window');
+  });
+
+  it('should reject missing or malformed headers', async () => {
+    await expect(verifyWebhookSignature(body, undefined, secret)).rejects.toThrow('Missing webhook signature');
+    await expect(verifyWebhookSignature(body, 'garbage', secret)).rejects.toThrow('Malformed webhook signature');
+  });
+});
+
+describe('WebhookReceiver', () => {
+  it('should dispatch typed events to matching handlers', async () => {
+    const receiver = new WebhookReceiver({ secret });
+    const onEnrolled = vi.fn();
+    const onCompleted = vi.fn();
+    const onAny = vi.fn();
+
+    receiver
+      .on('user.enrolled', (e) => onEnrolled(e.data.enrollment.product_id))
+      .on('course.completed', onCompleted)
+      .on('*', onAny);
+
+    const signature = await computeWebhookSignature(body, secret);
+    await receiver.handle(body, { 'Learnworlds-Webhook-Signature': signature });
+
+    expect(onEnrolled).toHaveBeenCalledWith('course-1');
+    expect(onCompleted).not.toHaveBeenCalled();
+    expect(onAny).toHaveBeenCalledWith(event);
+  });
+
+  it('should reject signed bodies that are not events', async () => {
+    const receiver = new WebhookReceiver({ secret });
+
+    for (const payload of [{ ...event, data: null }, { id: 'evt-2', data: {} }, 'user.enrolled']) {
+      const raw = JSON.stringify(payload);
+      const signature = await computeWebhookSignature(raw, secret);
+      await expect(receiver.constructEvent(raw, signature)).rejects.toThrow('Webhook body is not a LearnWorlds event');
+    }
+  });
+
+  it('should handle Fetch API requests', async () => {
+    const receiver = new WebhookReceiver({ secret });
+    const signature = await computeWebhookSignature(body, secret);
+
+    const ok = await receiver.handleRequest(
+      new Request('https://example.com/webhooks', {
+        method: 'POST',
+        body,
+        headers: { 'learnworlds-webhook-signature': signature },
+      })
+    );
+    expect(ok.status).toBe(200);
+
+    const rejected = await receiver.handleRequest(
+      new Request('https://example.com/webhooks', { method: 'POST', body })
+    );
+    expect(rejected.status).toBe(400);
+  });
+
+  it('should handle Node http requests', async () => {
+    const receiver = new WebhookReceiver({ secret, signatureHeader: 'x-signature' });
+    const onEnrolled = vi.fn();
+    receiver.on('user.enrolled', onEnrolled);
+
+    const req = Object.assign(Readable.from([Buffer.from(body)]), {
+      headers: { 'x-signature': await computeWebhookSignature(body, secret) },
+    }) as unknown as IncomingMessage;
+    const res = { setHeader: vi.fn(), end: vi.fn(), statusCode: 0 } as unknown as ServerResponse;
+
+    await receiver.nodeHandler()(req, res);
+
+    expect(res.statusCode).toBe(200);
+    expect(onEnrolled).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass handler failures to Express', async () => {
+    const receiver = new WebhookReceiver({ secret });
+    const failure = new Error('database down');
+    receiver.on('user.enrolled', () => {
+      throw failure;
+    });
+
+    const req = {
+      body: Buffer.from(body),
+      headers: { 'learnworlds-webhook-signature': await computeWebhookSignature(body, secret) },
+    } as unknown as IncomingMessage & { body: Buffer };
+    const res = { setHeader: vi.fn(), end: vi.fn(), statusCode: 0 } as unknown as ServerResponse;
+    const next = vi.fn();
+
+    await receiver.expressHandler()(req, res, next);
+
+    expect(next).toHaveBeenCalledWith(failure);
+  });
+});
@@ -0,0 +1,57 @@
+import { TimeoutError } from './errors.js';
+
+export interface CallSignal {
+  /** Aborts when the caller's signal aborts or the timeout elapses */
+  signal?: AbortSignal;
+  /** Stop the timer and stop listening to the caller's signal */
+  dispose(): void;
+}
+
+/**
+ * Combine the caller's signal with a timeout for one call. When the timeout elapses the
+ * signal aborts with a `TimeoutError` as its reason.
+ */
+export function createCallSignal(signal?: AbortSignal, timeoutMs?: number): CallSignal {
+  if (!timeoutMs) {
+    return { signal, dispose: () => undefined };
+  }
+
+  const controller = new AbortController();
+  const forward = (): void => controller.abort(signal?.reason);
+  if (signal?.aborted) {
+    forward();
+  } else {
+    signal?.addEventListener('abort', forward, { once: true });
+  }
+
+  const timer = setTimeout(
+    () => controller.abort(new TimeoutError(`The operation timed out after ${timeoutMs} ms`)),
+    timeoutMs
+  );
+
+  return {
+    signal: controller.signal,
+    dispose: (): void => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', forward);
+    },
+  };
+}
+
+/**
+ * Settle like `promise`, or reject with the abort reason as soon as `signal` aborts
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
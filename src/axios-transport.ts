@@ -0,0 +1,57 @@
+import axios, { AxiosAdapter, AxiosInstance, AxiosResponse } from 'axios';
+import type { HttpTransport, TransportRequest, TransportResponse } from './transport.js';
+
+export interface AxiosTransportOptions {
+  /** Instance to send requests with, e.g. one configured with a proxy or an HTTP agent */
+  instance?: AxiosInstance;
+  /** Adapter for a new instance, when `instance` is not given */
+  adapter?: AxiosAdapter;
+}
+
+function toResponse(response: AxiosResponse): TransportResponse {
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(response.headers ?? {})) {
+    if (value !== undefined && value !== null) {
+      headers[name.toLowerCase()] = String(value);
+    }
+  }
+
+  // axios reports an empty body as '', which `FetchTransport` reports as undefined
+  return { status: response.status, headers, data: response.data === '' ? undefined : response.data };
+}
+
+/**
+ * Transport that sends requests with axios. It is published as the `/axios` entry point,
+ * so bundles that use the default fetch transport do not include axios.
+ */
+export class AxiosTransport implements HttpTransport {
+  private http: AxiosInstance;
+
+  constructor(options: AxiosTransportOptions = {}) {
+    this.http = options.instance ?? axios.create(options.adapter ? { adapter: options.adapter } : {});
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    try {
+      const response = await this.http.request({
+        method: request.method,
+        url: request.url,
+        headers: request.headers,
+        data: request.body,
+        signal: request.signal,
+        // Error statuses are mapped by the client
+        validateStatus: () => true,
+      });
+      return toResponse(response);
+    } catch (error) {
+      // Adapters may still reject error statuses; those are responses all the same
+      if (axios.isAxiosError(error) && error.response) {
+        return toResponse(error.response);
+      }
+      if (axios.isCancel(error)) {
+        throw new DOMException('The operation was aborted', 'AbortError');
+      }
+      throw error;
+    }
+  }
+}
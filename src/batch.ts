@@ -0,0 +1,97 @@
+import { BatchOptions } from './types.js';
+import { LearnWorldsApiError } from './errors.js';
+
+interface PendingLoad<T> {
+  resolve: (value: T) => void;
+  reject: (error: unknown) => void;
+}
+
+// Statuses that mean the list endpoint does not understand the ID filter
+const UNSUPPORTED_STATUSES = new Set([400, 404, 405, 422, 501]);
+
+/**
+ * DataLoader-style batcher: IDs requested within the same batch window are
+ * fetched with one list request. When the endpoint cannot filter by ID, the
+ * loader falls back to individual requests and stops batching.
+ */
+export class BatchLoader<T extends { id: string }> {
+  private queue = new Map<string, Array<PendingLoad<T>>>();
+  private timer?: ReturnType<typeof setTimeout>;
+  private supported = true;
+  private maxBatchSize: number;
+  private windowMs: number;
+
+  constructor(
+    private readonly fetchMany: (ids: string[]) => Promise<T[]>,
+    private readonly fetchOne: (id: string) => Promise<T>,
+    options: BatchOptions = {}
+  ) {
+    this.maxBatchSize = options.maxBatchSize ?? 50;
+    this.windowMs = options.windowMs ?? 0;
+  }
+
+  /** Whether the list endpoint has accepted ID filters so far */
+  get batching(): boolean {
+    return this.supported;
+  }
+
+  load(id: string): Promise<T> {
+    if (!this.supported) {
+      return this.fetchOne(id);
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      this.queue.set(id, [...(this.queue.get(id) ?? []), { resolve, reject }]);
+
+      if (this.queue.size >= this.maxBatchSize) {
+        this.flush();
+      } else if (!this.timer) {
+        this.timer = setTimeout(() => this.flush(), this.windowMs);
+      }
+    });
+  }
+
+  private flush(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    const batch = this.queue;
+    this.queue = new Map();
+    void this.dispatch(batch);
+  }
+
+  private async dispatch(batch: Map<string, Array<PendingLoad<T>>>): Promise<void> {
+    const ids = [...batch.keys()];
+    let found = new Map<string, T>();
+
+    if (ids.length > 1 && this.supported) {
+      try {
+        const items = await this.fetchMany(ids);
+
+        // An endpoint that ignores the filter returns other records
+        if (items.every((item) => batch.has(item.id))) {
+          found = new Map(items.map((item) => [item.id, item]));
+        } else {
+          this.supported = false;
+        }
+      } catch (error) {
+        if (error instanceof LearnWorldsApiError && error.status && UNSUPPORTED_STATUSES.has(error.status)) {
+          this.supported = false;
+        }
+      }
+    }
+
+    // Missing IDs are fetched one by one, which also surfaces the right error for each
+    await Promise.all(
+      ids.map(async (id) => {
+        const waiters = batch.get(id)!;
+        try {
+          const item = found.get(id) ?? (await this.fetchOne(id));
+          waiters.forEach((waiter) => waiter.resolve(item));
+        } catch (error) {
+          waiters.forEach((waiter) => waiter.reject(error));
+        }
+      })
+    );
+  }
+}
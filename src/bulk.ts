@@ -0,0 +1,180 @@
+import type { LearnWorldsClient } from './client.js';
+import {
+  Coupon,
+  CouponCodeOptions,
+  CouponTemplate,
+  CreateUserRequest,
+  EnrollUserRequest,
+  Enrollment,
+  RequestOptions,
+  RequestPriority,
+  UnenrollUserRequest,
+  UpdateUserTagsRequest,
+  User,
+} from './types.js';
+import { AbortError, LearnWorldsApiError, ValidationError } from './errors.js';
+import { generateCouponCodes } from './coupons.js';
+
+/** Codes tried per generated coupon before a code conflict is reported */
+const MAX_CODE_ATTEMPTS = 3;
+
+export interface BulkOptions {
+  /** Maximum number of items processed at once (default: 5) */
+  concurrency?: number;
+  /** Called after every item completes */
+  onProgress?: (progress: BulkProgress) => void;
+  /** Stops starting new items; items not yet started are rejected with an `AbortError` */
+  signal?: AbortSignal;
+  /** Rate limiter lane for the requests of every item (default: the client's `rateLimit.priority`) */
+  priority?: RequestPriority;
+}
+
+export interface BulkProgress {
+  total: number;
+  completed: number;
+  succeeded: number;
+  failed: number;
+}
+
+export type BulkResult<TInput, TOutput> =
+  | { status: 'fulfilled'; index: number; input: TInput; value: TOutput }
+  | { status: 'rejected'; index: number; input: TInput; error: LearnWorldsApiError };
+
+export interface BulkTagUpdate extends UpdateUserTagsRequest {
+  user_id: string;
+}
+
+function toApiError(error: unknown): LearnWorldsApiError {
+  if (error instanceof LearnWorldsApiError) {
+    return error;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new LearnWorldsApiError(message, { code: 'UNKNOWN_ERROR', cause: error });
+}
+
+/**
+ * Run a task for every item with bounded concurrency. Never rejects:
+ * every item gets a fulfilled or rejected entry, in input order. Tasks receive
+ * the `signal` and `priority` to pass on to their client calls.
+ */
+export async function runBulk<TInput, TOutput>(
+  items: TInput[],
+  task: (item: TInput, index: number, requestOptions: RequestOptions) => Promise<TOutput>,
+  options: BulkOptions = {}
+): Promise<Array<BulkResult<TInput, TOutput>>> {
+  const { concurrency = 5, onProgress, signal, priority } = options;
+  const requestOptions: RequestOptions = { signal, priority };
+  const results = new Array<BulkResult<TInput, TOutput>>(items.length);
+  const progress: BulkProgress = { total: items.length, completed: 0, succeeded: 0, failed: 0 };
+  let nextIndex = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      const input = items[index];
+
+      if (signal?.aborted) {
+        results[index] = { status: 'rejected', index, input, error: new AbortError() };
+        continue;
+      }
+
+      try {
+        results[index] = { status: 'fulfilled', index, input, value: await task(input, index, requestOptions) };
+        progress.succeeded++;
+      } catch (error) {
+        results[index] = { status: 'rejected', index, input, error: toApiError(error) };
+        progress.failed++;
+      }
+
+      progress.completed++;
+      onProgress?.({ ...progress });
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+
+  return results;
+}
+
+/**
+ * Batch versions of the client's write operations. Requests still go through
+ * the client, so retries and rate limiting apply to every item.
+ */
+export class BulkOperations {
+  constructor(private readonly client: LearnWorldsClient) {}
+
+  createUsers(users: CreateUserRequest[], options?: BulkOptions): Promise<Array<BulkResult<CreateUserRequest, User>>> {
+    return runBulk(users, (user, _index, requestOptions) => this.client.createUser(user, requestOptions), options);
+  }
+
+  enroll(
+    enrollments: EnrollUserRequest[],
+    options?: BulkOptions
+  ): Promise<Array<BulkResult<EnrollUserRequest, Enrollment>>> {
+    return runBulk(
+      enrollments,
+      (enrollment, _index, requestOptions) => this.client.enrollUserToProduct(enrollment, requestOptions),
+      options
+    );
+  }
+
+  unenroll(
+    unenrollments: UnenrollUserRequest[],
+    options?: BulkOptions
+  ): Promise<Array<BulkResult<UnenrollUserRequest, void>>> {
+    return runBulk(
+      unenrollments,
+      (unenrollment, _index, requestOptions) => this.client.unenrollUserFromProduct(unenrollment, requestOptions),
+      options
+    );
+  }
+
+  updateTags(updates: BulkTagUpdate[], options?: BulkOptions): Promise<Array<BulkResult<BulkTagUpdate, User>>> {
+    return runBulk(
+      updates,
+      ({ user_id, tags, action }, _index, requestOptions) =>
+        this.client.updateUserTags(user_id, { tags, action }, requestOptions),
+      options
+    );
+  }
+
+  /**
+   * Create `count` single-use coupons from a template, each with a new random code. When the API
+   * reports a code as taken, the coupon is retried with another one, so `value.code` can differ
+   * from `input`.
+   */
+  async generateCoupons(
+    count: number,
+    template: CouponTemplate,
+    options: BulkOptions & CouponCodeOptions = {}
+  ): Promise<Array<BulkResult<string, Coupon>>> {
+    const { prefix, length, ...bulkOptions } = options;
+    const codeOptions = { prefix, length };
+    const codes = await generateCouponCodes(count, codeOptions);
+    const used = new Set(codes);
+
+    const create = async (code: string, attempt: number, requestOptions: RequestOptions): Promise<Coupon> => {
+      try {
+        const coupon = { ...template, code, usage_limit: 1, usage_limit_per_user: 1 };
+        return await this.client.createCoupon(coupon, requestOptions);
+      } catch (error) {
+        // Only a 422 from the API means the code is taken; a local validation error would repeat
+        const codeTaken =
+          error instanceof ValidationError &&
+          error.status !== undefined &&
+          error.fieldErrors.some((e) => e.field === 'code');
+        if (!codeTaken || attempt >= MAX_CODE_ATTEMPTS) {
+          throw error;
+        }
+
+        const [next] = await generateCouponCodes(1, codeOptions, used);
+        used.add(next);
+        return create(next, attempt + 1, requestOptions);
+      }
+    };
+
+    return runBulk(codes, (code, _index, requestOptions) => create(code, 1, requestOptions), bulkOptions);
+  }
+}
@@ -0,0 +1,232 @@
+import { CacheEntry, CacheOptions, CacheStore, CacheableResource } from './types.js';
+
+const ALL_TAG = '*';
+
+const DEFAULT_TTL: Partial<Record<CacheableResource, number>> = {
+  courses: 5 * 60 * 1000,
+  bundles: 5 * 60 * 1000,
+};
+
+/**
+ * In-memory LRU store; the least recently read entry is evicted once `maxEntries` is reached
+ */
+export class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, { entry: CacheEntry; deadline: number }>();
+
+  constructor(private readonly maxEntries = 1000) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const item = this.entries.get(key);
+    if (!item) {
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    if (Date.now() > item.deadline) {
+      return undefined;
+    }
+
+    this.entries.set(key, item);
+    // Copies keep callers that mutate results from corrupting the cache
+    return structuredClone(item.entry);
+  }
+
+  async set(key: string, entry: CacheEntry, ttlMs: number): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { entry: structuredClone(entry), deadline: Date.now() + ttlMs });
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Cache key for a request: method, path and sorted query parameters
+ */
+export function createCacheKey(method: string, endpoint: string, params?: unknown): string {
+  const query = new URLSearchParams(
+    Object.entries((params ?? {}) as Record<string, unknown>)
+      .filter(([, value]) => value !== undefined && value !== null)
+      .map(([name, value]): [string, string] => [name, String(value)])
+      .sort(([a], [b]) => a.localeCompare(b))
+  ).toString();
+
+  return `${method} ${endpoint}${query ? `?${query}` : ''}`;
+}
+
+/** Which resource a cached read belongs to and the tags that invalidate it */
+export interface CachePolicy {
+  resource: CacheableResource;
+  tags: string[];
+}
+
+export interface CacheLoadResult<T> {
+  /** The API answered 304 Not Modified to the If-None-Match header */
+  notModified: boolean;
+  value?: T;
+  etag?: string;
+}
+
+/**
+ * Caches API responses per resource TTL with stale-while-revalidate and ETag revalidation.
+ *
+ * Invalidation uses tag versions kept in the store itself, so it works across
+ * processes sharing a Redis-like store: each entry records the versions of its
+ * tags, and bumping a tag's version makes every entry carrying it stale.
+ */
+export class ResponseCache {
+  private store: CacheStore;
+  private ttl: Partial<Record<CacheableResource, number>>;
+  private staleWhileRevalidate: number;
+  private revalidating = new Set<string>();
+
+  constructor(
+    options: CacheOptions,
+    private readonly namespace: string
+  ) {
+    this.store = options.store ?? new MemoryCacheStore(options.maxEntries);
+    this.ttl = options.ttl ?? DEFAULT_TTL;
+    this.staleWhileRevalidate = options.staleWhileRevalidate ?? 0;
+  }
+
+  /**
+   * Return a cached value for `key`, or load and store it.
+   * `load` receives the ETag of an expired entry to send as If-None-Match.
+   */
+  async fetch<T>(key: string, policy: CachePolicy, load: (etag?: string) => Promise<CacheLoadResult<T>>): Promise<T> {
+    const ttl = this.ttl[policy.resource];
+    if (!ttl) {
+      return (await load()).value as T;
+    }
+
+    const storeKey = `${this.namespace}:${key}`;
+    const tags = [ALL_TAG, ...policy.tags];
+    const entry = (await this.getValid(storeKey, tags)) as CacheEntry<T> | undefined;
+    const now = Date.now();
+
+    if (entry && now < entry.expiresAt) {
+      return entry.value;
+    }
+
+    if (entry && now < entry.staleUntil) {
+      this.revalidate(storeKey, entry, tags, ttl, load);
+      return entry.value;
+    }
+
+    return this.refresh(storeKey, entry, tags, ttl, load);
+  }
+
+  /**
+   * Load and store a fresh value for `key`, ignoring any cached entry
+   */
+  async reload<T>(key: string, policy: CachePolicy, load: (etag?: string) => Promise<CacheLoadResult<T>>): Promise<T> {
+    const ttl = this.ttl[policy.resource];
+    if (!ttl) {
+      return (await load()).value as T;
+    }
+
+    return this.refresh(`${this.namespace}:${key}`, undefined, [ALL_TAG, ...policy.tags], ttl, load);
+  }
+
+  /**
+   * Make every entry carrying one of the tags stale
+   */
+  async invalidate(tags: string[]): Promise<void> {
+    const version = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+    // A tag must outlive every entry that recorded its previous version
+    const lifetime = this.maxEntryLifetime();
+    const expiresAt = Date.now() + lifetime;
+
+    await Promise.all(
+      tags.map((tag) =>
+        this.store.set(this.tagKey(tag), { value: version, expiresAt, staleUntil: expiresAt, tags: {} }, lifetime)
+      )
+    );
+  }
+
+  /**
+   * Invalidate every entry of this client
+   */
+  clear(): Promise<void> {
+    return this.invalidate([ALL_TAG]);
+  }
+
+  private async getValid(storeKey: string, tags: string[]): Promise<CacheEntry | undefined> {
+    const entry = await this.store.get(storeKey);
+    if (!entry) {
+      return undefined;
+    }
+
+    const versions = await this.tagVersions(tags);
+    const valid = tags.every((tag) => entry.tags[tag] === versions[tag]);
+    return valid ? entry : undefined;
+  }
+
+  private async refresh<T>(
+    storeKey: string,
+    entry: CacheEntry<T> | undefined,
+    tags: string[],
+    ttl: number,
+    load: (etag?: string) => Promise<CacheLoadResult<T>>
+  ): Promise<T> {
+    // Read versions before loading, so an invalidation during the request wins
+    const versions = await this.tagVersions(tags);
+    const result = await load(entry?.etag);
+
+    const notModified = result.notModified && entry;
+    const value = notModified ? entry.value : (result.value as T);
+    const etag = notModified ? entry.etag : result.etag;
+    const now = Date.now();
+    const staleUntil = now + ttl + this.staleWhileRevalidate;
+
+    // Entries with an ETag are kept one extra TTL so they can be revalidated cheaply
+    const storeTtl = staleUntil - now + (etag ? ttl : 0);
+    await this.store.set(storeKey, { value, etag, expiresAt: now + ttl, staleUntil, tags: versions }, storeTtl);
+
+    return value;
+  }
+
+  private revalidate<T>(
+    storeKey: string,
+    entry: CacheEntry<T>,
+    tags: string[],
+    ttl: number,
+    load: (etag?: string) => Promise<CacheLoadResult<T>>
+  ): void {
+    if (this.revalidating.has(storeKey)) {
+      return;
+    }
+
+    this.revalidating.add(storeKey);
+    this.refresh(storeKey, entry, tags, ttl, load)
+      // Keep serving the stale entry; the next read after it expires will surface the error
+      .catch(() => undefined)
+      .finally(() => this.revalidating.delete(storeKey));
+  }
+
+  private async tagVersions(tags: string[]): Promise<Record<string, string>> {
+    const entries = await Promise.all(tags.map((tag) => this.store.get(this.tagKey(tag))));
+    return Object.fromEntries(tags.map((tag, index) => [tag, String(entries[index]?.value ?? '0')]));
+  }
+
+  private tagKey(tag: string): string {
+    return `${this.namespace}:tag:${tag}`;
+  }
+
+  private maxEntryLifetime(): number {
+    const ttls = Object.values(this.ttl).filter((ttl): ttl is number => !!ttl);
+    return Math.max(0, ...ttls) * 2 + this.staleWhileRevalidate;
+  }
+}
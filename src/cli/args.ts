@@ -0,0 +1,114 @@
+/**
+ * Invalid command line input; reported with the usage text and exit code 2
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+const SHORT_FLAGS: Record<string, string> = { o: 'output', p: 'profile', h: 'help' };
+
+// Flags that never take a value, so `--dry-run users` does not swallow the next word
+const BOOLEAN_FLAGS = new Set(['dry-run', 'help', 'all', 'default', 'send-welcome-email', 'active', 'inactive']);
+
+/**
+ * Parsed command line: positional words and `--flag value` / `--flag=value` options.
+ * Repeated flags keep every value, e.g. `--tag a --tag b`.
+ */
+export class Args {
+  readonly positionals: string[] = [];
+  private flags = new Map<string, Array<string | true>>();
+
+  constructor(argv: string[]) {
+    for (let i = 0; i < argv.length; i++) {
+      const token = argv[i];
+
+      if (token === '--') {
+        this.positionals.push(...argv.slice(i + 1));
+        break;
+      }
+
+      const match = /^--([^=]+)(?:=(.*))?$/.exec(token) ?? /^-([a-z])$/.exec(token);
+      if (!match) {
+        this.positionals.push(token);
+        continue;
+      }
+
+      const name = SHORT_FLAGS[match[1]] ?? match[1];
+      let value = (match[2] as string | undefined) ?? true;
+      if (value === true && !BOOLEAN_FLAGS.has(name) && i + 1 < argv.length && !argv[i + 1].startsWith('-')) {
+        value = argv[++i];
+      }
+
+      this.flags.set(name, [...(this.flags.get(name) ?? []), value]);
+    }
+  }
+
+  has(name: string): boolean {
+    return this.flags.has(name);
+  }
+
+  boolean(name: string): boolean {
+    const value = this.flags.get(name)?.at(-1);
+    return value === true || value === 'true';
+  }
+
+  string(name: string): string | undefined {
+    const value = this.flags.get(name)?.at(-1);
+    if (value === true) {
+      throw new CliUsageError(`--${name} needs a value`);
+    }
+    return value;
+  }
+
+  requireString(name: string): string {
+    const value = this.string(name);
+    if (value === undefined) {
+      throw new CliUsageError(`Missing required option --${name}`);
+    }
+    return value;
+  }
+
+  /** Every value of a repeatable flag; comma-separated values are split */
+  strings(name: string): string[] {
+    return (this.flags.get(name) ?? []).flatMap((value) => {
+      if (value === true) {
+        throw new CliUsageError(`--${name} needs a value`);
+      }
+      return value.split(',').map((part) => part.trim()).filter(Boolean);
+    });
+  }
+
+  number(name: string): number | undefined {
+    const value = this.string(name);
+    if (value === undefined) {
+      return undefined;
+    }
+
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed < 1) {
+      throw new CliUsageError(`--${name} must be a positive integer`);
+    }
+    return parsed;
+  }
+
+  /** Required positional argument, counted after the command words */
+  positional(index: number, label: string): string {
+    const value = this.positionals[index];
+    if (value === undefined) {
+      throw new CliUsageError(`Missing <${label}>`);
+    }
+    return value;
+  }
+
+  /** `--name value` pairs given in `names` that are present, e.g. for building update payloads */
+  pick(names: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(names)
+        .filter(([flag]) => this.has(flag))
+        .map(([flag, field]) => [field, this.requireString(flag)])
+    );
+  }
+}
@@ -0,0 +1,239 @@
+import type { LearnWorldsClient } from '../client.js';
+import type {
+  CreateUserRequest,
+  EnrollUserRequest,
+  HttpMethod,
+  UnenrollUserRequest,
+  UpdateUserRequest,
+  UpdateUserTagsRequest,
+} from '../types.js';
+import { NotFoundError } from '../errors.js';
+import { Args, CliUsageError } from './args.js';
+
+/**
+ * A write described before it is sent, so `--dry-run` can print it instead
+ */
+export interface PlannedWrite {
+  method: HttpMethod;
+  endpoint: string;
+  /** Printed by `--dry-run`, with secrets such as passwords redacted */
+  body?: unknown;
+  send(client: LearnWorldsClient): Promise<unknown>;
+}
+
+export interface CliCommand {
+  usage: string;
+  description: string;
+  /** Columns shown for lists in table and CSV output */
+  columns?: string[];
+  /** Reads run directly */
+  run?(client: LearnWorldsClient, args: Args): Promise<unknown>;
+  /** Writes are planned first and accept `--dry-run` */
+  plan?(args: Args): PlannedWrite;
+}
+
+const PRODUCT_COLUMNS = ['id', 'title', 'status', 'price', 'currency', 'created_at'];
+const ENROLLMENT_COLUMNS = [
+  'id',
+  'product_id',
+  'product_type',
+  'enrollment_type',
+  'status',
+  'enrolled_at',
+  'expires_at',
+];
+
+function productType(args: Args): 'course' | 'bundle' {
+  const type = args.string('type') ?? 'course';
+  if (type !== 'course' && type !== 'bundle') {
+    throw new CliUsageError('--type must be "course" or "bundle"');
+  }
+  return type;
+}
+
+async function listPages<T>(
+  args: Args,
+  resource: { list(params: object): Promise<{ data: T[] }>; iterate(params: object): AsyncGenerator<T> }
+): Promise<T[]> {
+  const params = { page: args.number('page'), per_page: args.number('per-page') };
+
+  if (!args.boolean('all')) {
+    return (await resource.list(params)).data;
+  }
+
+  const items: T[] = [];
+  for await (const item of resource.iterate({ per_page: params.per_page })) {
+    items.push(item);
+  }
+  return items;
+}
+
+export const commands: Record<string, CliCommand> = {
+  'users get': {
+    usage: 'users get <user-id> | users get --email <email>',
+    description: 'Show a user by ID or email',
+    async run(client, args) {
+      const email = args.string('email');
+      if (!email) {
+        return client.getUser(args.positional(0, 'user-id'));
+      }
+
+      const user = await client.findUserByEmail(email);
+      if (!user) {
+        throw new NotFoundError(`No user with email ${email}`);
+      }
+      return user;
+    },
+  },
+
+  'users enrollments': {
+    usage: 'users enrollments <user-id>',
+    description: "List a user's enrollments",
+    columns: ENROLLMENT_COLUMNS,
+    run: (client, args) => client.getUserEnrollments(args.positional(0, 'user-id')),
+  },
+
+  'users create': {
+    usage: 'users create --email <email> [--username] [--first-name] [--last-name] [--password] [--tag ...]',
+    description: 'Create a user',
+    plan(args) {
+      const body: CreateUserRequest = {
+        email: args.requireString('email'),
+        ...args.pick({
+          username: 'username',
+          'first-name': 'first_name',
+          'last-name': 'last_name',
+          password: 'password',
+          bio: 'bio',
+        }),
+        ...(args.has('tag') ? { tags: args.strings('tag') } : {}),
+        ...(args.boolean('send-welcome-email') ? { send_welcome_email: true } : {}),
+      };
+
+      return {
+        method: 'POST',
+        endpoint: '/users',
+        body: body.password === undefined ? body : { ...body, password: '[REDACTED]' },
+        send: (client) => client.createUser(body),
+      };
+    },
+  },
+
+  'users update': {
+    usage: 'users update <user-id> [--username] [--first-name] [--last-name] [--bio] [--active | --inactive]',
+    description: "Update a user's profile",
+    plan(args) {
+      const userId = args.positional(0, 'user-id');
+      const body: UpdateUserRequest = {
+        ...args.pick({ username: 'username', 'first-name': 'first_name', 'last-name': 'last_name', bio: 'bio' }),
+        ...(args.boolean('active') ? { is_active: true } : {}),
+        ...(args.boolean('inactive') ? { is_active: false } : {}),
+      };
+
+      if (Object.keys(body).length === 0) {
+        throw new CliUsageError('Nothing to update');
+      }
+
+      return {
+        method: 'PUT',
+        endpoint: `/users/${userId}`,
+        body,
+        send: (client) => client.updateUser(userId, body),
+      };
+    },
+  },
+
+  'users tags': {
+    usage: 'users tags <user-id> (--add <tags> | --remove <tags> | --set <tags>)',
+    description: "Add, remove or replace a user's tags",
+    plan(args) {
+      const userId = args.positional(0, 'user-id');
+      const actions = (['add', 'remove', 'set'] as const).filter((flag) => args.has(flag));
+      if (actions.length !== 1) {
+        throw new CliUsageError('Pass exactly one of --add, --remove or --set');
+      }
+
+      const tags = args.strings(actions[0]);
+      if (tags.length === 0) {
+        throw new CliUsageError(`--${actions[0]} needs at least one tag`);
+      }
+
+      const body: UpdateUserTagsRequest = { tags, action: actions[0] === 'set' ? 'replace' : actions[0] };
+      return {
+        method: 'PATCH',
+        endpoint: `/users/${userId}/tags`,
+        body,
+        send: (client) => client.updateUserTags(userId, body),
+      };
+    },
+  },
+
+  enroll: {
+    usage: 'enroll <user-id> <product-id> [--type course|bundle] [--enrollment-type free|paid] [--expires-at <date>]',
+    description: 'Enroll a user in a course or bundle',
+    plan(args) {
+      const enrollmentType = args.string('enrollment-type');
+      if (enrollmentType !== undefined && enrollmentType !== 'free' && enrollmentType !== 'paid') {
+        throw new CliUsageError('--enrollment-type must be "free" or "paid"');
+      }
+
+      const body: EnrollUserRequest = {
+        user_id: args.positional(0, 'user-id'),
+        product_id: args.positional(1, 'product-id'),
+        product_type: productType(args),
+        ...(enrollmentType ? { enrollment_type: enrollmentType } : {}),
+        ...args.pick({ 'expires-at': 'expires_at' }),
+      };
+
+      return { method: 'POST', endpoint: '/enrollments', body, send: (client) => client.enrollUserToProduct(body) };
+    },
+  },
+
+  unenroll: {
+    usage: 'unenroll <user-id> <product-id> [--type course|bundle]',
+    description: 'Remove a user from a course or bundle',
+    plan(args) {
+      const body: UnenrollUserRequest = {
+        user_id: args.positional(0, 'user-id'),
+        product_id: args.positional(1, 'product-id'),
+        product_type: productType(args),
+      };
+
+      return {
+        method: 'DELETE',
+        endpoint: '/enrollments',
+        body,
+        send: async (client): Promise<object> => {
+          await client.unenrollUserFromProduct(body);
+          return { unenrolled: true, ...body };
+        },
+      };
+    },
+  },
+
+  'courses list': {
+    usage: 'courses list [--page <n>] [--per-page <n>] [--all]',
+    description: 'List courses',
+    columns: PRODUCT_COLUMNS,
+    run: (client, args) => listPages(args, client.courses),
+  },
+
+  'courses get': {
+    usage: 'courses get <course-id>',
+    description: 'Show a course',
+    run: (client, args) => client.getCourse(args.positional(0, 'course-id')),
+  },
+
+  'bundles list': {
+    usage: 'bundles list [--page <n>] [--per-page <n>] [--all]',
+    description: 'List bundles',
+    columns: PRODUCT_COLUMNS,
+    run: (client, args) => listPages(args, client.bundles),
+  },
+
+  'bundles get': {
+    usage: 'bundles get <bundle-id>',
+    description: 'Show a bundle',
+    run: (client, args) => client.getBundle(args.positional(0, 'bundle-id')),
+  },
+};
@@ -0,0 +1,255 @@
+import { LearnWorldsClient } from '../client.js';
+import { LearnWorldsApiError, ValidationError } from '../errors.js';
+import type { TokenResponse } from '../types.js';
+import type { FetchFunction } from '../transport.js';
+import { Args, CliUsageError } from './args.js';
+import { commands } from './commands.js';
+import { OUTPUT_FORMATS, OutputFormat, formatOutput } from './output.js';
+import { CliGrant, CliProfile, ProfileStore } from './profiles.js';
+
+export interface CliOptions {
+  /** Defaults to `process.stdout` */
+  stdout?: (text: string) => void;
+  /** Defaults to `process.stderr` */
+  stderr?: (text: string) => void;
+  /** Ask the user for input; defaults to a readline prompt that does not echo secret answers */
+  prompt?: (question: string, options?: PromptOptions) => Promise<string>;
+  env?: Record<string, string | undefined>;
+  /** Where profiles and tokens are kept (default: `LEARNWORLDS_CONFIG_DIR` or `~/.learnworlds`) */
+  configDir?: string;
+  /** `fetch` for the clients, e.g. `MockLearnWorldsServer.fetch` */
+  fetch?: FetchFunction;
+}
+
+export interface PromptOptions {
+  /** The answer is a password or similar, so it must not be shown while it is typed */
+  secret?: boolean;
+}
+
+const GRANTS: CliGrant[] = ['client_credentials', 'password', 'authorization_code'];
+
+const LOGIN_USAGE =
+  'auth login [--profile <name>] [--school-domain <domain>] [--api-host <host>] [--client-id <id>] ' +
+  '[--client-secret <secret>] [--grant client_credentials|password|authorization_code] [--default]';
+
+function usage(): string {
+  const lines = [
+    ...Object.values(commands).map((command) => `  ${command.usage}\n      ${command.description}`),
+    `  ${LOGIN_USAGE}\n      Save a profile and sign in`,
+  ];
+
+  return [
+    'Usage: learnworlds <command> [options]',
+    '',
+    'Commands:',
+    ...lines,
+    '',
+    'Options:',
+    '  -p, --profile <name>   Profile to use (default: LEARNWORLDS_PROFILE or the default profile)',
+    '  -o, --output <format>  table, json or csv (default: table)',
+    '  --dry-run              Print the request a write would send without sending it',
+    '',
+  ].join('\n');
+}
+
+async function defaultPrompt(question: string, options: PromptOptions = {}): Promise<string> {
+  const readline = await import('node:readline/promises');
+  const { Writable } = await import('node:stream');
+
+  // In terminal mode readline echoes the input itself, so muting its output hides secret answers
+  let muted = false;
+  const output = new Writable({
+    write(chunk, encoding, callback): void {
+      if (!muted) {
+        process.stderr.write(chunk, encoding);
+      }
+      callback();
+    },
+  });
+  const rl = readline.createInterface({ input: process.stdin, output, terminal: process.stdin.isTTY });
+
+  try {
+    // The question is written synchronously, before the output is muted
+    const answer = rl.question(question);
+    muted = options.secret === true;
+    return await answer;
+  } finally {
+    rl.close();
+    if (muted) {
+      process.stderr.write('\n');
+    }
+  }
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof ValidationError && error.fieldErrors.length > 0) {
+    return [error.message, ...error.fieldErrors.map((field) => `  ${field.field}: ${field.message}`)].join('\n');
+  }
+  if (error instanceof LearnWorldsApiError && error.requestId) {
+    return `${error.message} (request ID ${error.requestId})`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+interface CliRuntime {
+  args: Args;
+  env: Record<string, string | undefined>;
+  profiles: ProfileStore;
+  fetch?: FetchFunction;
+  prompt: (question: string, options?: PromptOptions) => Promise<string>;
+  stderr: (text: string) => void;
+}
+
+async function defaultConfigDir(): Promise<string> {
+  const os = await import('node:os');
+  return `${os.homedir()}/.learnworlds`;
+}
+
+function createClient(cli: CliRuntime, name: string, profile: CliProfile): LearnWorldsClient {
+  return new LearnWorldsClient({
+    schoolDomain: profile.schoolDomain,
+    apiHost: profile.apiHost,
+    clientId: profile.clientId,
+    clientSecret: profile.clientSecret ?? '',
+    redirectUri: profile.redirectUri,
+    tokenStore: cli.profiles.tokenStore(name),
+    fetch: cli.fetch,
+  });
+}
+
+/**
+ * Client for the selected profile. Client credentials are requested again when the
+ * stored token is missing or expired; other grants need `auth login`.
+ */
+async function connect(cli: CliRuntime): Promise<LearnWorldsClient> {
+  const { name, profile } = await cli.profiles.resolve(cli.args.string('profile'), cli.env);
+  const client = createClient(cli, name, profile);
+  const tokens = await cli.profiles.tokenStore(name).get();
+  const expired = !tokens?.accessToken || (!!tokens.expiresAt && tokens.expiresAt.getTime() <= Date.now());
+
+  if (expired && !tokens?.refreshToken) {
+    if (profile.grant !== 'client_credentials') {
+      throw new CliUsageError(`Not signed in to profile "${name}". Run \`learnworlds auth login --profile ${name}\`.`);
+    }
+    await client.auth.authenticateWithClientCredentials();
+  }
+
+  return client;
+}
+
+async function login(cli: CliRuntime): Promise<Record<string, unknown>> {
+  const { args } = cli;
+  const name = args.string('profile') ?? cli.env.LEARNWORLDS_PROFILE ?? 'default';
+  const existing = (await cli.profiles.read()).profiles[name];
+
+  const grant = (args.string('grant') ?? existing?.grant ?? 'client_credentials') as CliGrant;
+  if (!GRANTS.includes(grant)) {
+    throw new CliUsageError(`--grant must be one of ${GRANTS.join(', ')}`);
+  }
+
+  const profile: CliProfile = {
+    schoolDomain: args.string('school-domain') ?? existing?.schoolDomain ?? (await cli.prompt('School domain: ')),
+    apiHost: args.string('api-host') ?? existing?.apiHost ?? (await cli.prompt('API host: ')),
+    clientId: args.string('client-id') ?? existing?.clientId ?? (await cli.prompt('Client ID: ')),
+    clientSecret: args.string('client-secret') ?? existing?.clientSecret,
+    redirectUri: args.string('redirect-uri') ?? existing?.redirectUri,
+    grant,
+  };
+
+  // Secrets from the environment are used but not written to the config file
+  const clientSecret = profile.clientSecret ?? cli.env.LEARNWORLDS_CLIENT_SECRET;
+  if (!clientSecret) {
+    throw new CliUsageError('Missing --client-secret (or LEARNWORLDS_CLIENT_SECRET)');
+  }
+
+  const client = createClient(cli, name, { ...profile, clientSecret });
+  const scopes = args.has('scope') ? args.strings('scope') : undefined;
+  let tokens: TokenResponse;
+
+  if (grant === 'client_credentials') {
+    tokens = await client.auth.authenticateWithClientCredentials(scopes);
+  } else if (grant === 'password') {
+    const username = args.string('username') ?? (await cli.prompt('Username: '));
+    const password =
+      args.string('password') ?? cli.env.LEARNWORLDS_PASSWORD ?? (await cli.prompt('Password: ', { secret: true }));
+    tokens = await client.auth.authenticateWithPassword({ username, password, scopes });
+  } else {
+    const request = await client.auth.createAuthorizationRequest({ scopes });
+    cli.stderr(`Open this URL in a browser and approve access:\n\n  ${request.url}\n\n`);
+    const callbackUrl = await cli.prompt('Paste the URL you were redirected to: ');
+    tokens = await client.auth.exchangeAuthorizationCode({
+      callbackUrl,
+      state: request.state,
+      codeVerifier: request.codeVerifier,
+      redirectUri: request.redirectUri,
+    });
+  }
+
+  await cli.profiles.save(name, profile, args.boolean('default'));
+
+  return {
+    profile: name,
+    school: profile.schoolDomain,
+    grant,
+    expires_at: new Date(Date.now() + tokens.expires_in * 1000).toISOString(),
+  };
+}
+
+/**
+ * Run the `learnworlds` command line tool and return its exit code
+ */
+export async function runCli(argv: string[], options: CliOptions = {}): Promise<number> {
+  const stdout = options.stdout ?? ((text: string): boolean => process.stdout.write(text));
+  const stderr = options.stderr ?? ((text: string): boolean => process.stderr.write(text));
+  const env = options.env ?? process.env;
+
+  try {
+    const args = new Args(argv);
+    const key = [args.positionals.slice(0, 2).join(' '), args.positionals[0]].find((name) => name in commands);
+
+    if (args.boolean('help') || args.positionals.length === 0) {
+      stdout(usage());
+      return args.positionals.length === 0 && !args.boolean('help') ? 2 : 0;
+    }
+
+    const format = (args.string('output') ?? 'table') as OutputFormat;
+    if (!OUTPUT_FORMATS.includes(format)) {
+      throw new CliUsageError(`--output must be one of ${OUTPUT_FORMATS.join(', ')}`);
+    }
+
+    const profiles = new ProfileStore(options.configDir ?? env.LEARNWORLDS_CONFIG_DIR ?? (await defaultConfigDir()));
+    const cli = { args, env, profiles, fetch: options.fetch, prompt: options.prompt ?? defaultPrompt, stderr };
+    let result: unknown;
+
+    if (args.positionals.slice(0, 2).join(' ') === 'auth login') {
+      args.positionals.splice(0, 2);
+      result = await login(cli);
+    } else if (key) {
+      const command = commands[key];
+      args.positionals.splice(0, key.split(' ').length);
+
+      if (command.plan) {
+        const write = command.plan(args);
+        result = args.boolean('dry-run')
+          ? { dry_run: true, method: write.method, endpoint: write.endpoint, body: write.body }
+          : await write.send(await connect(cli));
+      } else {
+        result = await command.run!(await connect(cli), args);
+      }
+    } else {
+      throw new CliUsageError(`Unknown command "${args.positionals.join(' ')}"`);
+    }
+
+    const output = formatOutput(result, format, key ? commands[key].columns : undefined);
+    stdout(output ? `${output}\n` : '');
+    return 0;
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      stderr(`${error.message}\nRun \`learnworlds --help\` for usage.\n`);
+      return 2;
+    }
+
+    stderr(`Error: ${describeError(error)}\n`);
+    return 1;
+  }
+}
@@ -0,0 +1,85 @@
+import { formatCsvRow } from '../csv.js';
+
+export type OutputFormat = 'table' | 'json' | 'csv';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json', 'csv'];
+
+type Row = Record<string, unknown>;
+
+/**
+ * Render a value for table and CSV cells: arrays of scalars are joined, other objects become JSON
+ */
+function toCell(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value) && value.every((item) => typeof item !== 'object' || item === null)) {
+    return value.join(', ');
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+function columnsOf(rows: Row[], preferred?: string[]): string[] {
+  const seen = new Set<string>();
+  rows.forEach((row) => Object.keys(row).forEach((key) => seen.add(key)));
+
+  if (!preferred) {
+    return [...seen];
+  }
+  // Preferred columns keep lists readable; they are dropped when no row has them
+  return preferred.filter((column) => seen.has(column));
+}
+
+function renderTable(header: string[], body: string[][]): string {
+  const widths = header.map((title, i) => Math.max(title.length, ...body.map((cells) => cells[i].length)));
+  const line = (cells: string[]): string => cells.map((cell, i) => cell.padEnd(widths[i])).join('  ').trimEnd();
+
+  return [line(header), line(widths.map((width) => '-'.repeat(width))), ...body.map(line)].join('\n');
+}
+
+/**
+ * Format a command result. Lists print one row per record; a single record prints as
+ * field/value pairs in table mode.
+ */
+export function formatOutput(value: unknown, format: OutputFormat, columns?: string[]): string {
+  if (format === 'json') {
+    return JSON.stringify(value, null, 2);
+  }
+
+  if (value === undefined || value === null) {
+    return '';
+  }
+
+  const isList = Array.isArray(value);
+  const rows = (isList ? value : [value]) as Row[];
+
+  if (format === 'csv') {
+    const header = columnsOf(rows, isList ? columns : undefined);
+    return [header, ...rows.map((row) => header.map((column) => toCell(row[column])))]
+      .map(formatCsvRow)
+      .join('\n');
+  }
+
+  if (!isList) {
+    return renderTable(
+      ['FIELD', 'VALUE'],
+      Object.entries(value as Row).map(([field, cell]) => [field, toCell(cell)])
+    );
+  }
+
+  if (rows.length === 0) {
+    return 'No results';
+  }
+
+  const header = columnsOf(rows, columns);
+  return renderTable(
+    header.map((column) => column.toUpperCase()),
+    rows.map((row) => header.map((column) => toCell(row[column])))
+  );
+}
@@ -0,0 +1,103 @@
+import { FileTokenStore } from '../token-store.js';
+import { CliUsageError } from './args.js';
+
+export type CliGrant = 'client_credentials' | 'password' | 'authorization_code';
+
+/**
+ * Connection settings for one school
+ */
+export interface CliProfile {
+  schoolDomain: string;
+  apiHost: string;
+  clientId: string;
+  /** Falls back to the `LEARNWORLDS_CLIENT_SECRET` environment variable */
+  clientSecret?: string;
+  redirectUri?: string;
+  /** Grant used by `auth login`; client credentials are renewed automatically when they expire */
+  grant: CliGrant;
+}
+
+export interface CliConfigFile {
+  defaultProfile?: string;
+  profiles: Record<string, CliProfile>;
+}
+
+type Env = Record<string, string | undefined>;
+
+// Profile names become file names
+function assertProfileName(name: string): void {
+  if (!/^[\w.-]+$/.test(name)) {
+    throw new CliUsageError(`Invalid profile name "${name}"`);
+  }
+}
+
+/**
+ * Named profiles in `<dir>/config.json`, with each profile's tokens in `<dir>/tokens/<name>.json`
+ */
+export class ProfileStore {
+  constructor(private readonly dir: string) {}
+
+  async read(): Promise<CliConfigFile> {
+    const fs = await import('node:fs/promises');
+
+    try {
+      return JSON.parse(await fs.readFile(this.configPath, 'utf8')) as CliConfigFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { profiles: {} };
+      }
+      throw error;
+    }
+  }
+
+  async save(name: string, profile: CliProfile, makeDefault = false): Promise<void> {
+    const fs = await import('node:fs/promises');
+    const config = await this.read();
+    assertProfileName(name);
+
+    config.profiles[name] = profile;
+    if (makeDefault || !config.defaultProfile) {
+      config.defaultProfile = name;
+    }
+
+    await fs.mkdir(this.dir, { recursive: true });
+    // The file may hold client secrets
+    await fs.writeFile(this.configPath, JSON.stringify(config, null, 2), { mode: 0o600 });
+  }
+
+  /**
+   * Pick the profile from `--profile`, `LEARNWORLDS_PROFILE` or the default profile.
+   * Without a config file, settings come from `LEARNWORLDS_*` environment variables.
+   */
+  async resolve(name: string | undefined, env: Env): Promise<{ name: string; profile: CliProfile }> {
+    const config = await this.read();
+    const selected = name ?? env.LEARNWORLDS_PROFILE ?? config.defaultProfile ?? 'default';
+    const stored = config.profiles[selected];
+
+    const profile: Partial<CliProfile> = {
+      ...stored,
+      schoolDomain: stored?.schoolDomain ?? env.LEARNWORLDS_SCHOOL_DOMAIN,
+      apiHost: stored?.apiHost ?? env.LEARNWORLDS_API_HOST,
+      clientId: stored?.clientId ?? env.LEARNWORLDS_CLIENT_ID,
+      clientSecret: stored?.clientSecret ?? env.LEARNWORLDS_CLIENT_SECRET,
+      grant: stored?.grant ?? 'client_credentials',
+    };
+
+    if (!profile.schoolDomain || !profile.apiHost || !profile.clientId) {
+      throw new CliUsageError(
+        `Profile "${selected}" is not configured. Run \`learnworlds auth login --profile ${selected}\` first.`
+      );
+    }
+
+    return { name: selected, profile: profile as CliProfile };
+  }
+
+  tokenStore(name: string): FileTokenStore {
+    assertProfileName(name);
+    return new FileTokenStore(`${this.dir}/tokens/${name}.json`);
+  }
+
+  private get configPath(): string {
+    return `${this.dir}/config.json`;
+  }
+}
@@ -1,78 +1,284 @@
-import axios, { AxiosInstance, AxiosResponse, AxiosError, AxiosRequestConfig } from 'axios';
 import {
   LearnWorldsConfig,
-  LearnWorldsError,
   ApiResponse,
+  HttpMethod,
+  RequestPriority,
+  RequestOptions,
+  ResponseValidationOptions,
+  RequestValidationOptions,
+  FieldError,
   PaginationParams,
+  Page,
+  BatchOptions,
   Course,
+  CourseContents,
   Bundle,
   User,
+  UserListFilters,
+  UserCourseProgressSummary,
+  UserCourseProgress,
+  UserGrade,
+  Certificate,
   CreateUserRequest,
   UpdateUserRequest,
   UpdateUserTagsRequest,
   EnrollUserRequest,
   UnenrollUserRequest,
   Enrollment,
+  EnsureResult,
+  EnsureUserResult,
+  Payment,
+  PaymentListFilters,
+  Order,
+  OrderListFilters,
+  Subscription,
+  SubscriptionListFilters,
+  Invoice,
+  InvoiceListFilters,
+  PaymentReconciliation,
+  Coupon,
+  CouponListFilters,
+  CreateCouponRequest,
+  UpdateCouponRequest,
 } from './types.js';
 import { OAuth2Client } from './oauth.js';
+import { PaginatedResource, ScopedPaginatedResource, toPage } from './pagination.js';
+import { IDEMPOTENCY_KEY_HEADER, RetryPolicy, getHeader, sleep } from './retry.js';
+import { abortable, createCallSignal } from './abort.js';
+import { RateLimiter } from './rate-limiter.js';
+import {
+  AbortError,
+  LearnWorldsApiError,
+  NetworkError,
+  ResponseValidationError,
+  TimeoutError,
+  ValidationError,
+  createApiError,
+} from './errors.js';
+import { BulkOperations } from './bulk.js';
+import { CallOutcome, Telemetry } from './telemetry.js';
+import { CacheLoadResult, CachePolicy, ResponseCache, createCacheKey } from './cache.js';
+import { BatchLoader } from './batch.js';
+import { reconcilePayments } from './reconciliation.js';
+import {
+  validateCreateCouponRequest,
+  validateCreateUserRequest,
+  validateEnrollUserRequest,
+  validateUnenrollUserRequest,
+  validateUpdateCouponRequest,
+  validateUpdateUserRequest,
+  validateUpdateUserTagsRequest,
+} from './request-validation.js';
+import {
+  HttpTransport,
+  TransportRequest,
+  TransportResponse,
+  buildUrl,
+  createTransport,
+  isAbortError,
+} from './transport.js';
+import {
+  Middleware,
+  MiddlewareContext,
+  MiddlewareRequest,
+  MiddlewareResponse,
+  createMiddlewareContext,
+  runAfterResponse,
+  runBeforeRequest,
+  runOnError,
+} from './middleware.js';
+import {
+  Schema,
+  s,
+  validateSchema,
+  bundleSchema,
+  certificateSchema,
+  couponSchema,
+  courseContentsSchema,
+  courseSchema,
+  enrollmentSchema,
+  invoiceSchema,
+  orderSchema,
+  paymentSchema,
+  subscriptionSchema,
+  userCourseProgressSchema,
+  userCourseProgressSummarySchema,
+  userGradeSchema,
+  userSchema,
+} from './schemas.js';
+
+interface RequestSpec<T> {
+  /** Client method name reported to middleware and telemetry */
+  operation: string;
+  /** Path template, e.g. `/users/{id}` */
+  route: string;
+  /** Cache policy for reads */
+  cache?: CachePolicy;
+  /** Cache tags invalidated by a successful write */
+  invalidates?: string[];
+  /** Schema the response data is checked against when validation is enabled */
+  schema?: Schema<T>;
+  /** Payload check run before sending when request validation is enabled */
+  validate?: (options: RequestValidationOptions) => FieldError[];
+}
+
+const JSON_HEADERS = {
+  'Content-Type': 'application/json',
+  Accept: 'application/json',
+};
+
+/** How `execute` sends one call */
+interface CallSettings {
+  /** Treat 304 Not Modified as a success, for conditional requests */
+  acceptNotModified: boolean;
+  priority: RequestPriority;
+  signal?: AbortSignal;
+}
+
+/** Ensure operations send several requests, so one idempotency key cannot cover them */
+type EnsureOptions = Omit<RequestOptions, 'idempotencyKey'>;
+
+interface BatchLoaders {
+  users: BatchLoader<User>;
+  courses: BatchLoader<Course>;
+  bundles: BatchLoader<Bundle>;
+}
 
 export class LearnWorldsClient {
-  private http: AxiosInstance;
+  private transport: HttpTransport;
+  private baseUrl: string;
   private oauth: OAuth2Client;
+  private retryPolicy?: RetryPolicy;
+  private rateLimiter?: RateLimiter;
+  /** Set while the client holds a reference to the limiter shared per API host */
+  private sharedRateLimiter = false;
+  private priority: RequestPriority;
+  private validation: ResponseValidationOptions;
+  private requestValidation?: RequestValidationOptions;
+  private middlewares: Middleware[] = [];
+  private telemetry?: Telemetry;
+  private apiHost: string;
+  private responseCache?: ResponseCache;
+  private inFlight?: Map<string, Promise<ApiResponse<unknown>>>;
+  private loaders?: BatchLoaders;
+
+  /** Paginated access to courses */
+  readonly courses: PaginatedResource<Course>;
+  /** Paginated access to bundles */
+  readonly bundles: PaginatedResource<Bundle>;
+  /** Paginated access to users */
+  readonly users: PaginatedResource<User, UserListFilters>;
+  /** Paginated access to a user's enrollments */
+  readonly enrollments: ScopedPaginatedResource<Enrollment>;
+  /** Paginated access to payments */
+  readonly payments: PaginatedResource<Payment, PaymentListFilters>;
+  /** Paginated access to orders */
+  readonly orders: PaginatedResource<Order, OrderListFilters>;
+  /** Paginated access to subscriptions */
+  readonly subscriptions: PaginatedResource<Subscription, SubscriptionListFilters>;
+  /** Paginated access to invoices */
+  readonly invoices: PaginatedResource<Invoice, InvoiceListFilters>;
+  /** Paginated access to coupons */
+  readonly coupons: PaginatedResource<Coupon, CouponListFilters>;
+  /** Batch write operations with bounded concurrency */
+  readonly bulk: BulkOperations;
 
   constructor(config: LearnWorldsConfig) {
-    this.oauth = new OAuth2Client(config);
+    this.transport = createTransport(config);
+    this.oauth = new OAuth2Client({ ...config, transport: this.transport });
+    this.retryPolicy = config.retry === false ? undefined : new RetryPolicy(config.retry);
+    this.priority = config.rateLimit?.priority ?? 'normal';
+    this.validation = config.validation ?? {};
+    if (config.requestValidation) {
+      this.requestValidation = config.requestValidation === true ? {} : config.requestValidation;
+    }
+    this.telemetry = Telemetry.from(config.telemetry);
+    this.apiHost = config.apiHost;
+    this.responseCache = config.cache ? new ResponseCache(config.cache, `learnworlds:${config.apiHost}`) : undefined;
+    this.inFlight = config.dedupe ? new Map() : undefined;
 
-    // Use the provided API host (each user gets a unique host from LearnWorlds)
-    const baseURL = `https://${config.apiHost}/v2`;
+    if (config.batch) {
+      this.loaders = this.createLoaders(config.batch === true ? {} : config.batch);
+    }
 
-    this.http = axios.create({
-      baseURL,
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-    });
+    if (config.rateLimit) {
+      this.sharedRateLimiter = config.rateLimit.shared !== false;
+      this.rateLimiter = this.sharedRateLimiter
+        ? RateLimiter.forHost(config.apiHost, config.rateLimit)
+        : new RateLimiter(config.rateLimit);
+    }
 
-    // Add request interceptor to inject auth token
-    this.http.interceptors.request.use(
-      async (config) => {
-        try {
-          const token = await this.oauth.getAccessToken();
-          config.headers.Authorization = `Bearer ${token}`;
-        } catch (error) {
-          // If no token available, continue without auth header
-          // This allows public endpoints to work
-        }
-        return config;
-      },
-      (error) => Promise.reject(error)
+    this.courses = new PaginatedResource((params, options) =>
+      this.makePagedRequest<Course>('/courses', params, options, {
+        operation: 'listCourses',
+        route: '/courses',
+        cache: { resource: 'courses', tags: ['courses'] },
+        schema: courseSchema,
+      })
     );
+    this.bundles = new PaginatedResource((params, options) =>
+      this.makePagedRequest<Bundle>('/bundles', params, options, {
+        operation: 'listBundles',
+        route: '/bundles',
+        cache: { resource: 'bundles', tags: ['bundles'] },
+        schema: bundleSchema,
+      })
+    );
+    this.users = new PaginatedResource((filters, options) => this.listUsers(filters, options));
+    this.enrollments = new ScopedPaginatedResource((userId, params, options) =>
+      this.makePagedRequest<Enrollment>(`/users/${userId}/enrollments`, params, options, {
+        operation: 'listUserEnrollments',
+        route: '/users/{id}/enrollments',
+        cache: { resource: 'enrollments', tags: [`user:${userId}:enrollments`] },
+        schema: enrollmentSchema,
+      })
+    );
+    this.payments = new PaginatedResource((filters, options) => this.listPayments(filters, options));
+    this.orders = new PaginatedResource((filters, options) => this.listOrders(filters, options));
+    this.subscriptions = new PaginatedResource((filters, options) => this.listSubscriptions(filters, options));
+    this.invoices = new PaginatedResource((filters, options) => this.listInvoices(filters, options));
+    this.coupons = new PaginatedResource((filters, options) => this.listCoupons(filters, options));
+    this.bulk = new BulkOperations(this);
 
-    this.http.interceptors.response.use(
-      (response) => response,
-      async (error: AxiosError) => {
-        const originalRequest = error.config as AxiosRequestConfig & { _retry?: boolean };
-
-        // If 401 and we have a refresh token, try to refresh
-        if (error.response?.status === 401 && !originalRequest._retry && this.oauth.getTokens().refreshToken) {
-          originalRequest._retry = true;
-          
-          try {
-            await this.oauth.refreshAccessToken();
-            const token = await this.oauth.getAccessToken();
-            originalRequest.headers = originalRequest.headers || {};
-            originalRequest.headers.Authorization = `Bearer ${token}`;
-            return this.http(originalRequest);
-          } catch (refreshError) {
-            // Refresh failed, reject with original error
-            return Promise.reject(this.handleError(error));
-          }
-        }
+    // Use the provided API host (each user gets a unique host from LearnWorlds)
+    this.baseUrl = `https://${config.apiHost}/v2`;
+  }
 
-        return Promise.reject(this.handleError(error));
-      }
-    );
+  /**
+   * Drop cached responses carrying any of the tags (e.g. `course:123`, `user:42`), or every cached response
+   */
+  async invalidateCache(tags?: string[]): Promise<void> {
+    if (!this.responseCache) {
+      return;
+    }
+
+    await (tags ? this.responseCache.invalidate(tags) : this.responseCache.clear());
+  }
+
+  /**
+   * Register middleware. Hooks run in registration order for every request made by this client.
+   */
+  use(middleware: Middleware): this {
+    this.middlewares.push(middleware);
+    return this;
+  }
+
+  /**
+   * Release the rate limiter shared with other clients of the same API host, so it can be
+   * dropped once none of them is left. Call it when discarding a client; the pool does so on eviction.
+   */
+  close(): void {
+    if (this.sharedRateLimiter) {
+      this.sharedRateLimiter = false;
+      RateLimiter.releaseHost(this.apiHost);
+    }
+  }
+
+  /**
+   * The local checks of `requestValidation`, or undefined when it is off
+   */
+  getRequestValidation(): RequestValidationOptions | undefined {
+    return this.requestValidation;
   }
 
   /**
@@ -82,114 +288,892 @@ export class LearnWorldsClient {
     return this.oauth;
   }
 
-  private handleError(error: AxiosError): LearnWorldsError {
-    const lwError = new Error() as LearnWorldsError;
-    lwError.name = 'LearnWorldsError';
-
-    if (error.response) {
-      lwError.status = error.response.status;
-      lwError.message = (error.response.data as { message?: string })?.message || error.message || 'API Error';
-      lwError.details = error.response.data;
-      
-      switch (error.response.status) {
-        case 401:
-          lwError.code = 'UNAUTHORIZED';
-          lwError.message = 'Invalid API key or authentication failed';
-          break;
-        case 403:
-          lwError.code = 'FORBIDDEN';
-          lwError.message = 'Access denied';
-          break;
-        case 404:
-          lwError.code = 'NOT_FOUND';
-          lwError.message = 'Resource not found';
-          break;
-        case 422:
-          lwError.code = 'VALIDATION_ERROR';
-          lwError.message = 'Validation failed';
-          break;
-        case 429:
-          lwError.code = 'RATE_LIMIT';
-          lwError.message = 'Rate limit exceeded';
-          break;
-        default:
-          lwError.code = 'API_ERROR';
-      }
-    } else if (error.request) {
-      lwError.code = 'NETWORK_ERROR';
-      lwError.message = 'Network error - unable to reach API';
-    } else {
-      lwError.code = 'UNKNOWN_ERROR';
-      lwError.message = error.message || 'Unknown error occurred';
-    }
-
-    return lwError;
+  /**
+   * Send a call through middleware, the rate limiter and the transport. A 401 refreshes
+   * the access token once; transient failures are retried according to the retry policy.
+   */
+  private async execute(context: MiddlewareContext, call: CallSettings): Promise<MiddlewareResponse> {
+    const { signal } = call;
+    let refreshed = false;
+    let retryCount = 0;
+
+    for (;;) {
+      if (signal?.aborted) {
+        return this.fail(context, undefined, signal.reason, signal);
+      }
+
+      // Middleware runs first so short-circuited requests skip the rate limiter and token lookup
+      const shortCircuit = await runBeforeRequest(this.middlewares, context);
+      if (shortCircuit) {
+        return shortCircuit;
+      }
+
+      let response: TransportResponse | undefined;
+      let failure: unknown;
+      let releaseSlot: (() => void) | undefined;
+      try {
+        releaseSlot = await this.acquireSlot(call.priority, signal);
+        response = await this.transport.send({ ...(await this.authorize(context.request)), signal });
+      } catch (error) {
+        failure = error;
+      } finally {
+        releaseSlot?.();
+      }
+
+      const status = response?.status;
+      if (response) {
+        this.rateLimiter?.updateFromHeaders(response.headers, status);
+        if ((response.status >= 200 && response.status < 300) || (call.acceptNotModified && status === 304)) {
+          return runAfterResponse(this.middlewares, context, response);
+        }
+      }
+
+      if (status === 429) {
+        this.telemetry?.recordRateLimitHit({ operation: context.operation, host: this.apiHost });
+      }
+
+      // If 401 and we have a refresh token, try to refresh
+      if (status === 401 && !refreshed && this.oauth.getTokens().refreshToken) {
+        refreshed = true;
+        const renewed = await this.oauth.refreshAccessToken().then(
+          () => true,
+          () => false
+        );
+        if (!renewed) {
+          // Refresh failed, fail with the original error
+          return this.fail(context, response, failure, signal);
+        }
+        continue;
+      }
+
+      // Retry transient failures (429, 5xx, network errors) with backoff
+      const attempt = retryCount + 1;
+      if (
+        this.retryPolicy &&
+        !signal?.aborted &&
+        !isAbortError(failure) &&
+        this.retryPolicy.shouldRetry(attempt, context.request.method, context.request.headers, status)
+      ) {
+        retryCount = attempt;
+        // An abort during the delay is reported at the start of the next attempt
+        await sleep(this.retryPolicy.getDelay(attempt, response?.headers), signal).catch(() => undefined);
+        continue;
+      }
+
+      return this.fail(context, response, failure, signal);
+    }
+  }
+
+  /**
+   * Wait for a rate limiter slot. A slot granted after the call was aborted is released right away.
+   */
+  private async acquireSlot(priority: RequestPriority, signal?: AbortSignal): Promise<(() => void) | undefined> {
+    if (!this.rateLimiter) {
+      return undefined;
+    }
+
+    const slot = this.rateLimiter.acquire(priority);
+    try {
+      return await abortable(slot, signal);
+    } catch (error) {
+      void slot.then((release) => release());
+      throw error;
+    }
+  }
+
+  /**
+   * Build the transport request for an attempt, with the current access token
+   */
+  private async authorize(request: MiddlewareRequest): Promise<TransportRequest> {
+    const headers = { ...request.headers };
+    try {
+      headers.Authorization = `Bearer ${await this.oauth.getAccessToken()}`;
+    } catch (error) {
+      // If no token available, continue without auth header
+      // This allows public endpoints to work
+    }
+
+    return {
+      method: request.method,
+      url: buildUrl(this.baseUrl, request.url, request.params),
+      headers,
+      body: request.data === undefined ? undefined : JSON.stringify(request.data),
+    };
+  }
+
+  /**
+   * Map a failed request onto an SDK error, giving `onError` middleware a chance to recover
+   */
+  private async fail(
+    context: MiddlewareContext,
+    response: TransportResponse | undefined,
+    failure: unknown,
+    signal: AbortSignal | undefined
+  ): Promise<MiddlewareResponse> {
+    const apiError = this.toApiError(context.request, response, failure, signal);
+    const recovered = await runOnError(this.middlewares, context, apiError);
+    if (recovered) {
+      return recovered;
+    }
+
+    throw apiError;
+  }
+
+  private toApiError(
+    request: MiddlewareRequest,
+    response: TransportResponse | undefined,
+    failure: unknown,
+    signal: AbortSignal | undefined
+  ): LearnWorldsApiError {
+    const context = { method: request.method, url: request.url, cause: failure };
+
+    if (response) {
+      return createApiError({ status: response.status, body: response.data, headers: response.headers }, context);
+    }
+
+    if (signal?.aborted && signal.reason instanceof TimeoutError) {
+      return new TimeoutError(signal.reason.message, context);
+    }
+
+    if (signal?.aborted || isAbortError(failure)) {
+      return new AbortError(undefined, context);
+    }
+
+    return new NetworkError(undefined, context);
+  }
+
+  private async sendRequest<T>(
+    method: HttpMethod,
+    endpoint: string,
+    data: unknown,
+    params: unknown,
+    spec: Pick<RequestSpec<unknown>, 'operation' | 'route'>,
+    options: RequestOptions,
+    outcome?: CallOutcome,
+    etag?: string
+  ): Promise<MiddlewareResponse<ApiResponse<T>>> {
+    const context = createMiddlewareContext(spec, {
+      method,
+      url: endpoint,
+      headers: {
+        ...JSON_HEADERS,
+        ...(etag ? { 'If-None-Match': etag } : {}),
+        ...(options.idempotencyKey ? { [IDEMPOTENCY_KEY_HEADER]: options.idempotencyKey } : {}),
+        ...options.headers,
+      },
+      data,
+      params: params as Record<string, unknown> | undefined,
+    });
+    const call = createCallSignal(options.signal, options.timeout);
+
+    let response: MiddlewareResponse<ApiResponse<T>>;
+    try {
+      response = (await this.execute(context, {
+        acceptNotModified: !!etag,
+        priority: options.priority ?? this.priority,
+        signal: call.signal,
+      })) as MiddlewareResponse<ApiResponse<T>>;
+    } finally {
+      call.dispose();
+      if (outcome) {
+        outcome.retryCount = Math.max(0, context.attempt - 1);
+      }
+    }
+
+    if (outcome) {
+      outcome.status = response.status;
+    }
+
+    // Endpoints without content (e.g. 204 No Content) answer with an empty body
+    if (response.status !== 304 && response.data === undefined) {
+      return { ...response, data: { success: true, data: undefined as T } };
+    }
+
+    if (response.status !== 304 && !response.data?.success) {
+      throw new LearnWorldsApiError(response.data?.message || 'API request failed', {
+        status: response.status,
+        code: 'API_ERROR',
+        details: response.data?.errors,
+        method,
+        url: endpoint,
+        requestId: getHeader(response.headers, 'x-request-id'),
+      });
+    }
+
+    return response;
+  }
+
+  /**
+   * Send a request, sharing the pending promise between identical GETs when deduplication is enabled.
+   * Calls that can be cancelled or change the request are never shared.
+   */
+  private fetchResponse<T>(
+    method: HttpMethod,
+    endpoint: string,
+    data: unknown,
+    params: unknown,
+    spec: RequestSpec<unknown>,
+    options: RequestOptions,
+    outcome?: CallOutcome
+  ): Promise<ApiResponse<T>> {
+    const shareable = !options.signal && !options.timeout && !options.headers && !options.bypassCache;
+    if (!this.inFlight || method !== 'GET' || !shareable) {
+      return this.loadResponse<T>(method, endpoint, data, params, spec, options, outcome);
+    }
+
+    const key = createCacheKey(method, endpoint, params);
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending as Promise<ApiResponse<T>>;
+    }
+
+    const request = this.loadResponse<T>(method, endpoint, data, params, spec, options, outcome).finally(() =>
+      this.inFlight?.delete(key)
+    );
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  /**
+   * Send a request through the response cache when the call has a cache policy,
+   * and invalidate related entries after writes
+   */
+  private async loadResponse<T>(
+    method: HttpMethod,
+    endpoint: string,
+    data: unknown,
+    params: unknown,
+    spec: RequestSpec<unknown>,
+    options: RequestOptions,
+    outcome?: CallOutcome
+  ): Promise<ApiResponse<T>> {
+    const cache = this.responseCache;
+
+    if (cache && spec.cache) {
+      const key = createCacheKey(method, endpoint, params);
+      const load = async (etag?: string): Promise<CacheLoadResult<ApiResponse<T>>> => {
+        const response = await this.sendRequest<T>(method, endpoint, data, params, spec, options, outcome, etag);
+        return response.status === 304
+          ? { notModified: true }
+          : { notModified: false, value: response.data, etag: getHeader(response.headers, 'etag') };
+      };
+      return options.bypassCache ? cache.reload(key, spec.cache, load) : cache.fetch(key, spec.cache, load);
+    }
+
+    const response = await this.sendRequest<T>(method, endpoint, data, params, spec, options, outcome);
+    if (cache && spec.invalidates) {
+      await cache.invalidate(spec.invalidates);
+    }
+
+    return response.data;
   }
 
   private async makeRequest<T>(
-    method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE',
+    method: HttpMethod,
+    endpoint: string,
+    data: unknown,
+    params: unknown,
+    options: RequestOptions | undefined,
+    spec: RequestSpec<T>
+  ): Promise<T> {
+    this.validateRequest(spec, method, endpoint);
+
+    return this.instrument(method, spec, async (outcome) => {
+      const response = await this.fetchResponse<T>(method, endpoint, data, params, spec, options ?? {}, outcome);
+      return this.validateResponse(response.data, spec.schema, method, endpoint);
+    });
+  }
+
+  private async makePagedRequest<T>(
     endpoint: string,
-    data?: unknown,
-    params?: unknown
+    params: PaginationParams | undefined,
+    options: RequestOptions | undefined,
+    spec: RequestSpec<T>
+  ): Promise<Page<T>> {
+    return this.instrument('GET', spec, async (outcome) => {
+      const response = await this.fetchResponse<T[]>('GET', endpoint, undefined, params, spec, options ?? {}, outcome);
+      const data = this.validateResponse(response.data, spec.schema && s.array(spec.schema), 'GET', endpoint);
+      return toPage({ ...response, data }, params);
+    });
+  }
+
+  /**
+   * Wrap a client call in a telemetry span when instrumentation is enabled
+   */
+  private instrument<T>(
+    method: HttpMethod,
+    spec: RequestSpec<unknown>,
+    run: (outcome?: CallOutcome) => Promise<T>
   ): Promise<T> {
-    const response: AxiosResponse<ApiResponse<T>> = await this.http.request({
+    if (!this.telemetry) {
+      return run();
+    }
+
+    return this.telemetry.trace(
+      `learnworlds.${spec.operation}`,
+      { operation: spec.operation, method, route: spec.route, host: this.apiHost },
+      run
+    );
+  }
+
+  private createLoaders(options: BatchOptions): BatchLoaders {
+    return {
+      users: new BatchLoader(
+        (ids) =>
+          this.listByIds<User>('/users', ids, {
+            operation: 'batchGetUsers',
+            route: '/users',
+            cache: { resource: 'users', tags: ['users', ...ids.map((id) => `user:${id}`)] },
+            schema: userSchema,
+          }),
+        (id) => this.fetchUser(id),
+        options
+      ),
+      courses: new BatchLoader(
+        (ids) =>
+          this.listByIds<Course>('/courses', ids, {
+            operation: 'batchGetCourses',
+            route: '/courses',
+            cache: { resource: 'courses', tags: ['courses', ...ids.map((id) => `course:${id}`)] },
+            schema: courseSchema,
+          }),
+        (id) => this.fetchCourse(id),
+        options
+      ),
+      bundles: new BatchLoader(
+        (ids) =>
+          this.listByIds<Bundle>('/bundles', ids, {
+            operation: 'batchGetBundles',
+            route: '/bundles',
+            cache: { resource: 'bundles', tags: ['bundles', ...ids.map((id) => `bundle:${id}`)] },
+            schema: bundleSchema,
+          }),
+        (id) => this.fetchBundle(id),
+        options
+      ),
+    };
+  }
+
+  /**
+   * Fetch records with a list request filtered by `ids`
+   */
+  private async listByIds<T>(endpoint: string, ids: string[], spec: RequestSpec<T>): Promise<T[]> {
+    const params = { ids: ids.join(','), per_page: ids.length };
+    return (await this.makePagedRequest<T>(endpoint, params, undefined, spec)).data;
+  }
+
+  /**
+   * Reject an invalid payload before it is sent, with the same field errors a 422 response would carry
+   */
+  private validateRequest(spec: RequestSpec<unknown>, method: HttpMethod, endpoint: string): void {
+    const fieldErrors = this.requestValidation && spec.validate?.(this.requestValidation);
+    if (!fieldErrors?.length) {
+      return;
+    }
+
+    const more = fieldErrors.length > 1 ? ` (and ${fieldErrors.length - 1} more)` : '';
+    throw new ValidationError(`${fieldErrors[0].message}${more}`, {
+      // Nothing was sent, so there is no HTTP status
+      status: undefined,
+      details: fieldErrors,
+      fieldErrors,
       method,
       url: endpoint,
-      data,
-      params,
     });
+  }
 
-    if (!response.data.success) {
-      const error = new Error(response.data.message || 'API request failed') as LearnWorldsError;
-      error.code = 'API_ERROR';
-      error.details = response.data.errors;
-      throw error;
+  private validateResponse<T>(data: T, schema: Schema<T> | undefined, method: HttpMethod, endpoint: string): T {
+    const { mode = 'off', onInvalid } = this.validation;
+
+    if (!schema || mode === 'off') {
+      return data;
     }
 
-    return response.data.data;
+    const result = validateSchema(schema, data);
+
+    if (result.issues.length > 0) {
+      const error = new ResponseValidationError(result.issues, { method, url: endpoint });
+
+      if (mode === 'strict') {
+        throw error;
+      }
+
+      if (onInvalid) {
+        onInvalid(error);
+      } else {
+        console.warn(`[learnworlds] ${error.message}`);
+      }
+    }
+
+    return result.value;
+  }
+
+  async getAllCourses(params?: PaginationParams, options?: RequestOptions): Promise<Course[]> {
+    return this.makeRequest<Course[]>('GET', '/courses', undefined, params, options, {
+      operation: 'getAllCourses',
+      route: '/courses',
+      cache: { resource: 'courses', tags: ['courses'] },
+      schema: s.array(courseSchema),
+    });
+  }
+
+  async getAllBundles(params?: PaginationParams, options?: RequestOptions): Promise<Bundle[]> {
+    return this.makeRequest<Bundle[]>('GET', '/bundles', undefined, params, options, {
+      operation: 'getAllBundles',
+      route: '/bundles',
+      cache: { resource: 'bundles', tags: ['bundles'] },
+      schema: s.array(bundleSchema),
+    });
+  }
+
+  async createUser(userData: CreateUserRequest, options?: RequestOptions): Promise<User> {
+    return this.makeRequest<User>('POST', '/users', userData, undefined, options, {
+      operation: 'createUser',
+      route: '/users',
+      invalidates: ['users'],
+      schema: userSchema,
+      validate: ({ password }) => validateCreateUserRequest(userData, password),
+    });
+  }
+
+  async updateUser(userId: string, userData: UpdateUserRequest, options?: RequestOptions): Promise<User> {
+    return this.makeRequest<User>('PUT', `/users/${userId}`, userData, undefined, options, {
+      operation: 'updateUser',
+      route: '/users/{id}',
+      invalidates: ['users', `user:${userId}`],
+      schema: userSchema,
+      validate: () => validateUpdateUserRequest(userData),
+    });
+  }
+
+  async updateUserTags(userId: string, tagData: UpdateUserTagsRequest, options?: RequestOptions): Promise<User> {
+    return this.makeRequest<User>('PATCH', `/users/${userId}/tags`, tagData, undefined, options, {
+      operation: 'updateUserTags',
+      route: '/users/{id}/tags',
+      invalidates: ['users', `user:${userId}`],
+      schema: userSchema,
+      validate: () => validateUpdateUserTagsRequest(tagData),
+    });
+  }
+
+  async enrollUserToProduct(enrollmentData: EnrollUserRequest, options?: RequestOptions): Promise<Enrollment> {
+    return this.makeRequest<Enrollment>('POST', '/enrollments', enrollmentData, undefined, options, {
+      operation: 'enrollUserToProduct',
+      route: '/enrollments',
+      invalidates: [`user:${enrollmentData.user_id}:enrollments`, `user:${enrollmentData.user_id}:progress`],
+      schema: enrollmentSchema,
+      validate: () => validateEnrollUserRequest(enrollmentData),
+    });
+  }
+
+  async unenrollUserFromProduct(unenrollmentData: UnenrollUserRequest, options?: RequestOptions): Promise<void> {
+    await this.makeRequest<void>('DELETE', '/enrollments', unenrollmentData, undefined, options, {
+      operation: 'unenrollUserFromProduct',
+      route: '/enrollments',
+      invalidates: [`user:${unenrollmentData.user_id}:enrollments`, `user:${unenrollmentData.user_id}:progress`],
+      validate: () => validateUnenrollUserRequest(unenrollmentData),
+    });
+  }
+
+  async getUser(userId: string, options?: RequestOptions): Promise<User> {
+    // Calls with their own options are sent on their own rather than batched
+    return this.loaders && !options ? this.loaders.users.load(userId) : this.fetchUser(userId, options);
+  }
+
+  private async fetchUser(userId: string, options?: RequestOptions): Promise<User> {
+    return this.makeRequest<User>('GET', `/users/${userId}`, undefined, undefined, options, {
+      operation: 'getUser',
+      route: '/users/{id}',
+      cache: { resource: 'users', tags: [`user:${userId}`] },
+      schema: userSchema,
+    });
+  }
+
+  async getCourse(courseId: string, options?: RequestOptions): Promise<Course> {
+    // Calls with their own options are sent on their own rather than batched
+    return this.loaders && !options ? this.loaders.courses.load(courseId) : this.fetchCourse(courseId, options);
+  }
+
+  private async fetchCourse(courseId: string, options?: RequestOptions): Promise<Course> {
+    return this.makeRequest<Course>('GET', `/courses/${courseId}`, undefined, undefined, options, {
+      operation: 'getCourse',
+      route: '/courses/{id}',
+      cache: { resource: 'courses', tags: [`course:${courseId}`] },
+      schema: courseSchema,
+    });
+  }
+
+  async getCourseContents(courseId: string, options?: RequestOptions): Promise<CourseContents> {
+    return this.makeRequest<CourseContents>('GET', `/courses/${courseId}/contents`, undefined, undefined, options, {
+      operation: 'getCourseContents',
+      route: '/courses/{id}/contents',
+      cache: { resource: 'courses', tags: [`course:${courseId}`] },
+      schema: courseContentsSchema,
+    });
+  }
+
+  async getBundle(bundleId: string, options?: RequestOptions): Promise<Bundle> {
+    // Calls with their own options are sent on their own rather than batched
+    return this.loaders && !options ? this.loaders.bundles.load(bundleId) : this.fetchBundle(bundleId, options);
+  }
+
+  private async fetchBundle(bundleId: string, options?: RequestOptions): Promise<Bundle> {
+    return this.makeRequest<Bundle>('GET', `/bundles/${bundleId}`, undefined, undefined, options, {
+      operation: 'getBundle',
+      route: '/bundles/{id}',
+      cache: { resource: 'bundles', tags: [`bundle:${bundleId}`] },
+      schema: bundleSchema,
+    });
+  }
+
+  async getUserEnrollments(userId: string, options?: RequestOptions): Promise<Enrollment[]> {
+    return this.makeRequest<Enrollment[]>('GET', `/users/${userId}/enrollments`, undefined, undefined, options, {
+      operation: 'getUserEnrollments',
+      route: '/users/{id}/enrollments',
+      cache: { resource: 'enrollments', tags: [`user:${userId}:enrollments`] },
+      schema: s.array(enrollmentSchema),
+    });
+  }
+
+  async listUsers(filters: UserListFilters = {}, options?: RequestOptions): Promise<Page<User>> {
+    const { tags, ...params } = filters;
+    return this.makePagedRequest<User>(
+      '/users',
+      { ...params, ...(tags?.length ? { tags: tags.join(',') } : {}) },
+      options,
+      {
+        operation: 'listUsers',
+        route: '/users',
+        cache: { resource: 'users', tags: ['users'] },
+        schema: userSchema,
+      }
+    );
+  }
+
+  /**
+   * Find a user by exact email (case-insensitive)
+   */
+  async findUserByEmail(email: string, options?: RequestOptions): Promise<User | undefined> {
+    const normalized = email.trim().toLowerCase();
+    const page = await this.listUsers({ email: normalized }, options);
+    return page.data.find((user) => user.email.toLowerCase() === normalized);
+  }
+
+  async deleteUser(userId: string, options?: RequestOptions): Promise<void> {
+    await this.makeRequest<void>('DELETE', `/users/${userId}`, undefined, undefined, options, {
+      operation: 'deleteUser',
+      route: '/users/{id}',
+      invalidates: ['users', `user:${userId}`, `user:${userId}:enrollments`, `user:${userId}:progress`],
+    });
+  }
+
+  async suspendUser(userId: string, options?: RequestOptions): Promise<User> {
+    return this.makeRequest<User>('PUT', `/users/${userId}/suspend`, undefined, undefined, options, {
+      operation: 'suspendUser',
+      route: '/users/{id}/suspend',
+      invalidates: ['users', `user:${userId}`],
+      schema: userSchema,
+    });
+  }
+
+  async unsuspendUser(userId: string, options?: RequestOptions): Promise<User> {
+    return this.makeRequest<User>('PUT', `/users/${userId}/unsuspend`, undefined, undefined, options, {
+      operation: 'unsuspendUser',
+      route: '/users/{id}/unsuspend',
+      invalidates: ['users', `user:${userId}`],
+      schema: userSchema,
+    });
+  }
+
+  async getUserProgress(userId: string, options?: RequestOptions): Promise<UserCourseProgressSummary[]> {
+    return this.makeRequest<UserCourseProgressSummary[]>(
+      'GET',
+      `/users/${userId}/progress`,
+      undefined,
+      undefined,
+      options,
+      {
+        operation: 'getUserProgress',
+        route: '/users/{id}/progress',
+        cache: { resource: 'progress', tags: [`user:${userId}:progress`] },
+        schema: s.array(userCourseProgressSummarySchema),
+      }
+    );
+  }
+
+  async getUserCourseProgress(userId: string, courseId: string, options?: RequestOptions): Promise<UserCourseProgress> {
+    return this.makeRequest<UserCourseProgress>(
+      'GET',
+      `/users/${userId}/courses/${courseId}/progress`,
+      undefined,
+      undefined,
+      options,
+      {
+        operation: 'getUserCourseProgress',
+        route: '/users/{id}/courses/{courseId}/progress',
+        cache: { resource: 'progress', tags: [`user:${userId}:progress`] },
+        schema: userCourseProgressSchema,
+      }
+    );
+  }
+
+  async getUserGrades(userId: string, courseId?: string, options?: RequestOptions): Promise<UserGrade[]> {
+    const params = courseId ? { course_id: courseId } : undefined;
+    return this.makeRequest<UserGrade[]>('GET', `/users/${userId}/grades`, undefined, params, options, {
+      operation: 'getUserGrades',
+      route: '/users/{id}/grades',
+      cache: { resource: 'progress', tags: [`user:${userId}:progress`] },
+      schema: s.array(userGradeSchema),
+    });
+  }
+
+  async getUserCertificates(userId: string, options?: RequestOptions): Promise<Certificate[]> {
+    return this.makeRequest<Certificate[]>('GET', `/users/${userId}/certificates`, undefined, undefined, options, {
+      operation: 'getUserCertificates',
+      route: '/users/{id}/certificates',
+      cache: { resource: 'progress', tags: [`user:${userId}:progress`] },
+      schema: s.array(certificateSchema),
+    });
+  }
+
+  async listPayments(filters: PaymentListFilters = {}, options?: RequestOptions): Promise<Page<Payment>> {
+    return this.makePagedRequest<Payment>('/payments', filters, options, {
+      operation: 'listPayments',
+      route: '/payments',
+      schema: paymentSchema,
+    });
+  }
+
+  async getPayment(paymentId: string, options?: RequestOptions): Promise<Payment> {
+    return this.makeRequest<Payment>('GET', `/payments/${paymentId}`, undefined, undefined, options, {
+      operation: 'getPayment',
+      route: '/payments/{id}',
+      schema: paymentSchema,
+    });
+  }
+
+  async listOrders(filters: OrderListFilters = {}, options?: RequestOptions): Promise<Page<Order>> {
+    return this.makePagedRequest<Order>('/orders', filters, options, {
+      operation: 'listOrders',
+      route: '/orders',
+      schema: orderSchema,
+    });
+  }
+
+  async getOrder(orderId: string, options?: RequestOptions): Promise<Order> {
+    return this.makeRequest<Order>('GET', `/orders/${orderId}`, undefined, undefined, options, {
+      operation: 'getOrder',
+      route: '/orders/{id}',
+      schema: orderSchema,
+    });
   }
 
-  async getAllCourses(params?: PaginationParams): Promise<Course[]> {
-    return this.makeRequest<Course[]>('GET', '/courses', undefined, params);
+  async listSubscriptions(
+    filters: SubscriptionListFilters = {},
+    options?: RequestOptions
+  ): Promise<Page<Subscription>> {
+    return this.makePagedRequest<Subscription>('/subscriptions', filters, options, {
+      operation: 'listSubscriptions',
+      route: '/subscriptions',
+      schema: subscriptionSchema,
+    });
   }
 
-  async getAllBundles(params?: PaginationParams): Promise<Bundle[]> {
-    return this.makeRequest<Bundle[]>('GET', '/bundles', undefined, params);
+  async getSubscription(subscriptionId: string, options?: RequestOptions): Promise<Subscription> {
+    return this.makeRequest<Subscription>('GET', `/subscriptions/${subscriptionId}`, undefined, undefined, options, {
+      operation: 'getSubscription',
+      route: '/subscriptions/{id}',
+      schema: subscriptionSchema,
+    });
   }
 
-  async createUser(userData: CreateUserRequest): Promise<User> {
-    return this.makeRequest<User>('POST', '/users', userData);
+  async listInvoices(filters: InvoiceListFilters = {}, options?: RequestOptions): Promise<Page<Invoice>> {
+    return this.makePagedRequest<Invoice>('/invoices', filters, options, {
+      operation: 'listInvoices',
+      route: '/invoices',
+      schema: invoiceSchema,
+    });
   }
 
-  async updateUser(userId: string, userData: UpdateUserRequest): Promise<User> {
-    return this.makeRequest<User>('PUT', `/users/${userId}`, userData);
+  async getInvoice(invoiceId: string, options?: RequestOptions): Promise<Invoice> {
+    return this.makeRequest<Invoice>('GET', `/invoices/${invoiceId}`, undefined, undefined, options, {
+      operation: 'getInvoice',
+      route: '/invoices/{id}',
+      schema: invoiceSchema,
+    });
+  }
+
+  async createCoupon(couponData: CreateCouponRequest, options?: RequestOptions): Promise<Coupon> {
+    return this.makeRequest<Coupon>('POST', '/coupons', couponData, undefined, options, {
+      operation: 'createCoupon',
+      route: '/coupons',
+      schema: couponSchema,
+      validate: () => validateCreateCouponRequest(couponData),
+    });
+  }
+
+  async listCoupons(filters: CouponListFilters = {}, options?: RequestOptions): Promise<Page<Coupon>> {
+    return this.makePagedRequest<Coupon>('/coupons', filters, options, {
+      operation: 'listCoupons',
+      route: '/coupons',
+      schema: couponSchema,
+    });
+  }
+
+  async getCoupon(couponId: string, options?: RequestOptions): Promise<Coupon> {
+    return this.makeRequest<Coupon>('GET', `/coupons/${couponId}`, undefined, undefined, options, {
+      operation: 'getCoupon',
+      route: '/coupons/{id}',
+      schema: couponSchema,
+    });
   }
 
-  async updateUserTags(userId: string, tagData: UpdateUserTagsRequest): Promise<User> {
-    return this.makeRequest<User>('PATCH', `/users/${userId}/tags`, tagData);
+  async updateCoupon(couponId: string, couponData: UpdateCouponRequest, options?: RequestOptions): Promise<Coupon> {
+    return this.makeRequest<Coupon>('PUT', `/coupons/${couponId}`, couponData, undefined, options, {
+      operation: 'updateCoupon',
+      route: '/coupons/{id}',
+      schema: couponSchema,
+      validate: () => validateUpdateCouponRequest(couponData),
+    });
   }
 
-  async enrollUserToProduct(enrollmentData: EnrollUserRequest): Promise<Enrollment> {
-    return this.makeRequest<Enrollment>('POST', '/enrollments', enrollmentData);
+  /**
+   * Stop a coupon from being redeemed. Past redemptions and the coupon itself are kept.
+   */
+  async deactivateCoupon(couponId: string, options?: RequestOptions): Promise<Coupon> {
+    return this.makeRequest<Coupon>('PUT', `/coupons/${couponId}/deactivate`, undefined, undefined, options, {
+      operation: 'deactivateCoupon',
+      route: '/coupons/{id}/deactivate',
+      schema: couponSchema,
+    });
   }
 
-  async unenrollUserFromProduct(unenrollmentData: UnenrollUserRequest): Promise<void> {
-    await this.makeRequest<void>('DELETE', '/enrollments', unenrollmentData);
+  /**
+   * Join all of a user's payments with their enrollments, to find paid enrollments
+   * without a succeeded payment and payments without an enrollment
+   */
+  async reconcileUserPayments(userId: string, options?: RequestOptions): Promise<PaymentReconciliation> {
+    const payments: Payment[] = [];
+    for await (const payment of this.payments.iterate({ user_id: userId, per_page: 100 }, options)) {
+      payments.push(payment);
+    }
+
+    const enrollments: Enrollment[] = [];
+    for await (const enrollment of this.enrollments.iterate(userId, { per_page: 100 }, options)) {
+      enrollments.push(enrollment);
+    }
+
+    return reconcilePayments(userId, payments, enrollments);
   }
 
-  async getUser(userId: string): Promise<User> {
-    return this.makeRequest<User>('GET', `/users/${userId}`);
+  /**
+   * Find a user by email, then create it or update it to match `data`.
+   * Tags in `data` are added but never removed; `password` and `send_welcome_email` only apply on creation.
+   */
+  async ensureUser(
+    email: string,
+    data: Omit<CreateUserRequest, 'email'> = {},
+    options?: EnsureOptions
+  ): Promise<EnsureUserResult> {
+    let existing = await this.findUserByEmail(email, options);
+
+    if (!existing) {
+      try {
+        return { value: await this.createUser({ email, ...data }, options), changed: true, created: true };
+      } catch (error) {
+        // Another job may have created the user since the lookup
+        const emailTaken = error instanceof ValidationError && error.fieldErrors.some((e) => e.field === 'email');
+        existing = emailTaken ? await this.findUserByEmail(email, options) : undefined;
+        if (!existing) {
+          throw error;
+        }
+      }
+    }
+
+    const changes: UpdateUserRequest = {};
+    for (const field of ['first_name', 'last_name', 'username', 'bio'] as const) {
+      if (data[field] !== undefined && data[field] !== existing[field]) {
+        changes[field] = data[field];
+      }
+    }
+
+    const customFields = Object.entries(data.custom_fields ?? {});
+    if (customFields.some(([key, value]) => JSON.stringify(existing!.custom_fields?.[key]) !== JSON.stringify(value))) {
+      changes.custom_fields = { ...existing.custom_fields, ...data.custom_fields };
+    }
+
+    let user = existing;
+    const changed = Object.keys(changes).length > 0;
+    if (changed) {
+      user = await this.updateUser(user.id, changes, options);
+    }
+
+    if (data.tags?.length) {
+      const tagged = await this.applyTagDiff(user, { tags: data.tags, action: 'add' }, options);
+      return { value: tagged.value, changed: changed || tagged.changed, created: false };
+    }
+
+    return { value: user, changed, created: false };
   }
 
-  async getCourse(courseId: string): Promise<Course> {
-    return this.makeRequest<Course>('GET', `/courses/${courseId}`);
+  /**
+   * Enroll a user unless `getUserEnrollments` already shows an active enrollment in the product.
+   * Expired and inactive enrollments are re-activated by enrolling again.
+   */
+  async ensureEnrollment(
+    userId: string,
+    product: Omit<EnrollUserRequest, 'user_id'>,
+    options?: EnsureOptions
+  ): Promise<EnsureResult<Enrollment>> {
+    // Every page is checked, stopping at the first match
+    for await (const enrollment of this.enrollments.iterate(userId, { per_page: 100 }, options)) {
+      if (
+        enrollment.product_id === product.product_id &&
+        enrollment.product_type === product.product_type &&
+        enrollment.status === 'active'
+      ) {
+        return { value: enrollment, changed: false };
+      }
+    }
+
+    return { value: await this.enrollUserToProduct({ user_id: userId, ...product }, options), changed: true };
   }
 
-  async getBundle(bundleId: string): Promise<Bundle> {
-    return this.makeRequest<Bundle>('GET', `/bundles/${bundleId}`);
+  /**
+   * Update a user's tags only when they differ from the requested state
+   */
+  async ensureTags(
+    userId: string,
+    tagData: UpdateUserTagsRequest,
+    options?: EnsureOptions
+  ): Promise<EnsureResult<User>> {
+    return this.applyTagDiff(await this.getUser(userId, options), tagData, options);
   }
 
-  async getUserEnrollments(userId: string): Promise<Enrollment[]> {
-    return this.makeRequest<Enrollment[]>('GET', `/users/${userId}/enrollments`);
+  private async applyTagDiff(
+    user: User,
+    { tags, action }: UpdateUserTagsRequest,
+    options?: EnsureOptions
+  ): Promise<EnsureResult<User>> {
+    const current = new Set(user.tags);
+    const requested = [...new Set(tags)];
+    let update: UpdateUserTagsRequest | undefined;
+
+    if (action === 'add') {
+      const missing = requested.filter((tag) => !current.has(tag));
+      update = missing.length > 0 ? { tags: missing, action: 'add' } : undefined;
+    } else if (action === 'remove') {
+      const present = requested.filter((tag) => current.has(tag));
+      update = present.length > 0 ? { tags: present, action: 'remove' } : undefined;
+    } else if (requested.length !== current.size || requested.some((tag) => !current.has(tag))) {
+      // The API rejects an empty tag list, so clearing every tag is a removal
+      update = requested.length > 0 ? { tags: requested, action: 'replace' } : { tags: user.tags, action: 'remove' };
+    }
+
+    if (!update) {
+      return { value: user, changed: false };
+    }
+
+    return { value: await this.updateUserTags(user.id, update, options), changed: true };
   }
-}
\ No newline at end of file
+}
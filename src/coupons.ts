@@ -0,0 +1,36 @@
+import { CouponCodeOptions } from './types.js';
+import { getWebCrypto } from './crypto.js';
+
+/** Upper-case letters and digits without the look-alikes 0, O, 1 and I */
+export const COUPON_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+/**
+ * Generate `count` distinct random coupon codes. Codes in `exclude` are never returned.
+ * The alphabet has 32 characters, so every character carries 5 bits of randomness.
+ */
+export async function generateCouponCodes(
+  count: number,
+  options: CouponCodeOptions = {},
+  exclude: Iterable<string> = []
+): Promise<string[]> {
+  const { prefix = '', length = 8 } = options;
+  if (length < 4) {
+    throw new RangeError('Coupon codes need at least 4 random characters');
+  }
+
+  const crypto = await getWebCrypto();
+  const taken = new Set(exclude);
+  const codes: string[] = [];
+
+  while (codes.length < count) {
+    const bytes = crypto.getRandomValues(new Uint8Array(length));
+    const code = prefix + Array.from(bytes, (byte) => COUPON_CODE_ALPHABET[byte % 32]).join('');
+
+    if (!taken.has(code)) {
+      taken.add(code);
+      codes.push(code);
+    }
+  }
+
+  return codes;
+}
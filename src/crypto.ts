@@ -0,0 +1,59 @@
+/**
+ * Web Crypto helpers that work in Node (18+), browsers and edge runtimes
+ */
+
+let webCrypto: Crypto | undefined;
+
+export async function getWebCrypto(): Promise<Crypto> {
+  if (!webCrypto) {
+    webCrypto = globalThis.crypto?.subtle
+      ? globalThis.crypto
+      : ((await import('node:crypto')).webcrypto as unknown as Crypto);
+  }
+
+  return webCrypto;
+}
+
+export function toHex(bytes: ArrayBuffer | Uint8Array): string {
+  return Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function hmacSha256Hex(secret: string, payload: string | Uint8Array): Promise<string> {
+  const crypto = await getWebCrypto();
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ]);
+  const data = typeof payload === 'string' ? encoder.encode(payload) : payload;
+
+  return toHex(await crypto.subtle.sign('HMAC', key, data));
+}
+
+export function toBase64Url(bytes: ArrayBuffer | Uint8Array): string {
+  const binary = String.fromCharCode(...new Uint8Array(bytes));
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export async function randomBase64Url(byteLength: number): Promise<string> {
+  const crypto = await getWebCrypto();
+  return toBase64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+}
+
+export async function sha256Base64Url(input: string): Promise<string> {
+  const crypto = await getWebCrypto();
+  return toBase64Url(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input)));
+}
+
+/**
+ * Compare two strings in time independent of where they differ
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  let diff = a.length ^ b.length;
+  const length = Math.max(a.length, b.length);
+
+  for (let i = 0; i < length; i++) {
+    diff |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+
+  return diff === 0;
+}
@@ -0,0 +1,84 @@
+/** Text to parse: a whole string, or chunks such as a Node.js read stream or a fetch body */
+export type CsvSource = string | Iterable<string> | AsyncIterable<string | Uint8Array>;
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break (RFC 4180)
+ */
+export function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function formatCsvRow(cells: string[]): string {
+  return cells.map(escapeCsv).join(',');
+}
+
+async function* chunksOf(source: CsvSource): AsyncGenerator<string> {
+  if (typeof source === 'string') {
+    yield source;
+    return;
+  }
+
+  const decoder = new TextDecoder();
+  for await (const chunk of source as AsyncIterable<string | Uint8Array>) {
+    yield typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+  }
+  yield decoder.decode();
+}
+
+/**
+ * Parse RFC 4180 CSV incrementally, yielding one array of fields per record.
+ * Quoted fields may contain commas, escaped quotes and line breaks; blank lines are skipped.
+ */
+export async function* parseCsv(source: CsvSource): AsyncGenerator<string[]> {
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  // A quote inside a quoted field may be the first half of an escaped `""`
+  let pendingQuote = false;
+  let first = true;
+
+  for await (let chunk of chunksOf(source)) {
+    if (first && chunk.length > 0) {
+      chunk = chunk.replace(/^\uFEFF/, '');
+      first = false;
+    }
+
+    for (const char of chunk) {
+      if (pendingQuote) {
+        pendingQuote = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        quoted = false;
+      }
+
+      if (quoted) {
+        if (char === '"') {
+          pendingQuote = true;
+        } else {
+          field += char;
+        }
+      } else if (char === '"' && field === '') {
+        quoted = true;
+      } else if (char === ',') {
+        row.push(field);
+        field = '';
+      } else if (char === '\n') {
+        row.push(field.replace(/\r$/, ''));
+        if (row.length > 1 || row[0] !== '') {
+          yield row;
+        }
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field.replace(/\r$/, ''));
+    yield row;
+  }
+}
@@ -0,0 +1,240 @@
+import { FieldError, LearnWorldsError, ValidationIssue } from './types.js';
+import { getHeader, parseRetryAfter } from './retry.js';
+
+export interface LearnWorldsErrorOptions {
+  status?: number;
+  code?: string;
+  details?: unknown;
+  method?: string;
+  url?: string;
+  requestId?: string;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error thrown by the SDK
+ */
+export class LearnWorldsApiError extends Error implements LearnWorldsError {
+  override name = 'LearnWorldsApiError';
+  readonly status?: number;
+  readonly code: string;
+  readonly details?: unknown;
+  readonly method?: string;
+  readonly url?: string;
+  readonly requestId?: string;
+
+  constructor(message: string, options: LearnWorldsErrorOptions = {}) {
+    super(message, options.cause !== undefined ? { cause: options.cause } : undefined);
+    this.status = options.status;
+    this.code = options.code ?? 'API_ERROR';
+    this.details = options.details;
+    this.method = options.method;
+    this.url = options.url;
+    this.requestId = options.requestId;
+  }
+}
+
+export class UnauthorizedError extends LearnWorldsApiError {
+  override name = 'UnauthorizedError';
+
+  constructor(message = 'Invalid API key or authentication failed', options: LearnWorldsErrorOptions = {}) {
+    super(message, { status: 401, code: 'UNAUTHORIZED', ...options });
+  }
+}
+
+export class ForbiddenError extends LearnWorldsApiError {
+  override name = 'ForbiddenError';
+
+  constructor(message = 'Access denied', options: LearnWorldsErrorOptions = {}) {
+    super(message, { status: 403, code: 'FORBIDDEN', ...options });
+  }
+}
+
+export class NotFoundError extends LearnWorldsApiError {
+  override name = 'NotFoundError';
+
+  constructor(message = 'Resource not found', options: LearnWorldsErrorOptions = {}) {
+    super(message, { status: 404, code: 'NOT_FOUND', ...options });
+  }
+}
+
+export class ValidationError extends LearnWorldsApiError {
+  override name = 'ValidationError';
+  readonly fieldErrors: FieldError[];
+
+  constructor(message = 'Validation failed', options: LearnWorldsErrorOptions & { fieldErrors?: FieldError[] } = {}) {
+    const { fieldErrors, ...rest } = options;
+    super(message, { status: 422, code: 'VALIDATION_ERROR', ...rest });
+    this.fieldErrors = fieldErrors ?? parseFieldErrors(options.details);
+  }
+}
+
+export class RateLimitError extends LearnWorldsApiError {
+  override name = 'RateLimitError';
+  /** Seconds to wait before retrying, when the server provided it */
+  readonly retryAfter?: number;
+
+  constructor(message = 'Rate limit exceeded', options: LearnWorldsErrorOptions & { retryAfter?: number } = {}) {
+    const { retryAfter, ...rest } = options;
+    super(message, { status: 429, code: 'RATE_LIMIT', ...rest });
+    this.retryAfter = retryAfter;
+  }
+}
+
+export class NetworkError extends LearnWorldsApiError {
+  override name = 'NetworkError';
+
+  constructor(message = 'Network error - unable to reach API', options: LearnWorldsErrorOptions = {}) {
+    super(message, { code: 'NETWORK_ERROR', ...options });
+  }
+}
+
+/**
+ * Response body that does not match the expected schema
+ */
+export class ResponseValidationError extends LearnWorldsApiError {
+  override name = 'ResponseValidationError';
+  readonly issues: ValidationIssue[];
+
+  constructor(issues: ValidationIssue[], options: LearnWorldsErrorOptions = {}) {
+    const [first] = issues;
+    const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : '';
+    super(`Invalid response at ${first?.path}: expected ${first?.expected}, received ${first?.received}${more}`, {
+      code: 'RESPONSE_VALIDATION_ERROR',
+      details: issues,
+      ...options,
+    });
+    this.issues = issues;
+  }
+}
+
+/**
+ * Operation cancelled through an `AbortSignal`
+ */
+export class AbortError extends LearnWorldsApiError {
+  override name = 'AbortError';
+
+  constructor(message = 'The operation was aborted', options: LearnWorldsErrorOptions = {}) {
+    super(message, { code: 'ABORTED', ...options });
+  }
+}
+
+/**
+ * Call that did not finish within its `timeout`, or a token lock that was not released in time
+ */
+export class TimeoutError extends LearnWorldsApiError {
+  override name = 'TimeoutError';
+
+  constructor(message = 'The operation timed out', options: LearnWorldsErrorOptions = {}) {
+    super(message, { code: 'TIMEOUT', ...options });
+  }
+}
+
+/**
+ * Error returned by the OAuth2 token or revoke endpoints (RFC 6749, section 5.2)
+ */
+export class OAuthError extends LearnWorldsApiError {
+  override name = 'OAuthError';
+  readonly error: string;
+  readonly error_description?: string;
+  readonly error_uri?: string;
+
+  constructor(
+    message: string,
+    options: LearnWorldsErrorOptions & { error?: string; error_description?: string; error_uri?: string } = {}
+  ) {
+    const { error, error_description, error_uri, ...rest } = options;
+    super(message, { code: 'OAUTH_ERROR', ...rest });
+    this.error = error ?? 'server_error';
+    this.error_description = error_description;
+    this.error_uri = error_uri;
+  }
+}
+
+/**
+ * Webhook request with a missing, invalid or expired signature
+ */
+export class WebhookVerificationError extends LearnWorldsApiError {
+  override name = 'WebhookVerificationError';
+
+  constructor(message: string, options: LearnWorldsErrorOptions = {}) {
+    super(message, { status: 400, code: 'WEBHOOK_VERIFICATION_FAILED', ...options });
+  }
+}
+
+/**
+ * Normalize the different shapes of 422 bodies into a flat list of field errors.
+ * Supports `{ errors: { field: [messages] } }`, `{ errors: [{ field, message }] }`
+ * and plain string lists.
+ */
+export function parseFieldErrors(body: unknown): FieldError[] {
+  const errors = (body as { errors?: unknown } | undefined)?.errors ?? body;
+
+  if (Array.isArray(errors)) {
+    return errors.map((entry) => {
+      if (typeof entry === 'string') {
+        return { field: 'base', message: entry };
+      }
+      const { field, message, code } = entry as Partial<FieldError>;
+      return { field: field ?? 'base', message: message ?? 'Invalid value', ...(code ? { code } : {}) };
+    });
+  }
+
+  if (errors && typeof errors === 'object') {
+    return Object.entries(errors as Record<string, unknown>).flatMap(([field, messages]) =>
+      (Array.isArray(messages) ? messages : [messages]).map((message) => ({ field, message: String(message) }))
+    );
+  }
+
+  return [];
+}
+
+function getServerMessage(body: unknown): string | undefined {
+  if (!body || typeof body !== 'object') {
+    return undefined;
+  }
+
+  const { message, error_description, error } = body as Record<string, unknown>;
+  const candidate = message ?? error_description ?? error;
+  return typeof candidate === 'string' && candidate ? candidate : undefined;
+}
+
+export interface ErrorResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, unknown>;
+}
+
+/**
+ * Map an HTTP error response onto the matching error class.
+ * The server-provided message is kept whenever there is one.
+ */
+export function createApiError(response: ErrorResponse, options: LearnWorldsErrorOptions = {}): LearnWorldsApiError {
+  const message = getServerMessage(response.body);
+  const context: LearnWorldsErrorOptions = {
+    ...options,
+    status: response.status,
+    details: response.body,
+    requestId: options.requestId ?? getHeader(response.headers, 'x-request-id'),
+  };
+
+  switch (response.status) {
+    case 401:
+      return new UnauthorizedError(message, context);
+    case 403:
+      return new ForbiddenError(message, context);
+    case 404:
+      return new NotFoundError(message, context);
+    case 422:
+      return new ValidationError(message, context);
+    case 429: {
+      const retryAfterMs = parseRetryAfter(getHeader(response.headers, 'retry-after'));
+      return new RateLimitError(message, {
+        ...context,
+        retryAfter: retryAfterMs !== undefined ? retryAfterMs / 1000 : undefined,
+      });
+    }
+    default:
+      return new LearnWorldsApiError(message || 'API Error', { code: 'API_ERROR', ...context });
+  }
+}
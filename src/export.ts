@@ -0,0 +1,220 @@
+import type { LearnWorldsClient } from './client.js';
+import { UserListFilters } from './types.js';
+import { formatCsvRow } from './csv.js';
+
+export type ExportFormat = 'csv' | 'ndjson';
+
+export interface ExportOptions {
+  /** Default: `csv` */
+  format?: ExportFormat;
+  /**
+   * Custom field keys exported as `custom_fields.<key>` columns. By default CSV exports
+   * collect the keys from the first `sampleSize` records.
+   */
+  customFields?: string[];
+  /**
+   * Records read before the CSV header is written, when `customFields` is not set (default: 100).
+   * `Infinity` collects the keys of every record, holding the whole export in memory.
+   */
+  sampleSize?: number;
+  /**
+   * Called once the CSV is complete with the sampled-out custom field keys, i.e. keys that first
+   * appeared after the header was written and are missing from the file (default: `console.warn`)
+   */
+  onDroppedCustomFields?: (keys: string[]) => void;
+  /** Separator for list values such as tags in CSV cells (default: `;`) */
+  listSeparator?: string;
+}
+
+export interface UserExportOptions extends ExportOptions {
+  filters?: Omit<UserListFilters, 'page' | 'per_page'>;
+}
+
+export interface EnrollmentExportOptions extends ExportOptions {
+  /** Users whose enrollments are exported (default: every user) */
+  userIds?: string[];
+}
+
+type FlatRecord = Record<string, unknown>;
+
+const USER_EXPORT_COLUMNS = [
+  'id',
+  'email',
+  'username',
+  'first_name',
+  'last_name',
+  'bio',
+  'tags',
+  'roles',
+  'is_active',
+  'created_at',
+  'updated_at',
+  'last_login',
+];
+const COURSE_EXPORT_COLUMNS = [
+  'id',
+  'title',
+  'status',
+  'price',
+  'currency',
+  'slug',
+  'category_id',
+  'instructor_id',
+  'created_at',
+  'updated_at',
+];
+const BUNDLE_EXPORT_COLUMNS = [
+  'id',
+  'title',
+  'status',
+  'price',
+  'currency',
+  'slug',
+  'course_ids',
+  'discount_percentage',
+  'created_at',
+  'updated_at',
+];
+const ENROLLMENT_EXPORT_COLUMNS = [
+  'id',
+  'user_id',
+  'product_id',
+  'product_type',
+  'enrollment_type',
+  'status',
+  'enrolled_at',
+  'expires_at',
+  'progress',
+  'completion_date',
+];
+
+/**
+ * Move `custom_fields` entries to top-level `custom_fields.<key>` properties
+ */
+function flatten(record: object): FlatRecord {
+  const { custom_fields: customFields, ...rest } = record as FlatRecord;
+  const flat: FlatRecord = { ...rest };
+
+  for (const [key, value] of Object.entries((customFields ?? {}) as FlatRecord)) {
+    flat[`custom_fields.${key}`] = value;
+  }
+  return flat;
+}
+
+function toCell(value: unknown, listSeparator: string): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.join(listSeparator);
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Stream records as CSV or NDJSON lines. `columns` are the fixed CSV columns; custom fields follow them.
+ */
+export async function* exportRecords(
+  records: AsyncIterable<object>,
+  columns: string[],
+  options: ExportOptions = {}
+): AsyncGenerator<string> {
+  const { format = 'csv', sampleSize = 100, listSeparator = ';' } = options;
+
+  if (format === 'ndjson') {
+    for await (const record of records) {
+      yield `${JSON.stringify(flatten(record))}\n`;
+    }
+    return;
+  }
+
+  const iterator = records[Symbol.asyncIterator]();
+  const sample: FlatRecord[] = [];
+  const sampled = !options.customFields;
+  let customFields = options.customFields;
+
+  if (!customFields) {
+    const keys = new Set<string>();
+    while (sample.length < sampleSize) {
+      const next = await iterator.next();
+      if (next.done) {
+        break;
+      }
+      const record = next.value as FlatRecord;
+      Object.keys((record.custom_fields ?? {}) as FlatRecord).forEach((key) => keys.add(key));
+      sample.push(record);
+    }
+    customFields = [...keys];
+  }
+
+  const header = [...columns, ...customFields.map((key) => `custom_fields.${key}`)];
+  const line = (record: object): string => {
+    const flat = flatten(record);
+    return `${formatCsvRow(header.map((column) => toCell(flat[column], listSeparator)))}\n`;
+  };
+
+  yield `${formatCsvRow(header)}\n`;
+  for (const record of sample) {
+    yield line(record);
+  }
+
+  const known = new Set(customFields);
+  const dropped = new Set<string>();
+  for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+    if (sampled) {
+      Object.keys(((next.value as FlatRecord).custom_fields ?? {}) as FlatRecord)
+        .filter((key) => !known.has(key))
+        .forEach((key) => dropped.add(key));
+    }
+    yield line(next.value);
+  }
+
+  if (dropped.size > 0) {
+    const keys = [...dropped];
+    if (options.onDroppedCustomFields) {
+      options.onDroppedCustomFields(keys);
+    } else {
+      console.warn(
+        `[learnworlds] Custom fields missing from the export: ${keys.join(', ')}; raise sampleSize or pass customFields`
+      );
+    }
+  }
+}
+
+/**
+ * Stream every user, e.g. `Readable.from(exportUsers(client)).pipe(createWriteStream('users.csv'))`
+ */
+export function exportUsers(client: LearnWorldsClient, options: UserExportOptions = {}): AsyncGenerator<string> {
+  return exportRecords(client.users.iterate(options.filters), USER_EXPORT_COLUMNS, options);
+}
+
+export function exportCourses(client: LearnWorldsClient, options: ExportOptions = {}): AsyncGenerator<string> {
+  return exportRecords(client.courses.iterate(), COURSE_EXPORT_COLUMNS, options);
+}
+
+export function exportBundles(client: LearnWorldsClient, options: ExportOptions = {}): AsyncGenerator<string> {
+  return exportRecords(client.bundles.iterate(), BUNDLE_EXPORT_COLUMNS, options);
+}
+
+/**
+ * Stream the enrollments of the given users, or of every user in the school
+ */
+export function exportEnrollments(
+  client: LearnWorldsClient,
+  options: EnrollmentExportOptions = {}
+): AsyncGenerator<string> {
+  async function* enrollments(): AsyncGenerator<object> {
+    const userIds = options.userIds ?? mapIds(client.users.iterate());
+    for await (const userId of userIds) {
+      yield* client.enrollments.iterate(userId);
+    }
+  }
+
+  return exportRecords(enrollments(), ENROLLMENT_EXPORT_COLUMNS, options);
+}
+
+async function* mapIds(users: AsyncIterable<{ id: string }>): AsyncGenerator<string> {
+  for await (const user of users) {
+    yield user.id;
+  }
+}
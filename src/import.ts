@@ -0,0 +1,295 @@
+import type { LearnWorldsClient } from './client.js';
+import {
+  CreateUserRequest,
+  EnrollUserRequest,
+  Enrollment,
+  FieldError,
+  RequestOptions,
+  RequestValidationOptions,
+  User,
+} from './types.js';
+import { AbortError, LearnWorldsApiError } from './errors.js';
+import { BulkOptions, runBulk } from './bulk.js';
+import { CsvSource, parseCsv } from './csv.js';
+import { validateCreateUserRequest, validateEnrollUserRequest } from './request-validation.js';
+
+/**
+ * Remembers the last row an import finished, so an interrupted import can resume after it
+ */
+export interface CheckpointStore {
+  get(): Promise<number | undefined>;
+  set(row: number): Promise<void>;
+}
+
+export interface ImportOptions<TInput, TOutput> extends Pick<BulkOptions, 'concurrency' | 'signal' | 'priority'> {
+  /**
+   * CSV header to request field, e.g. `{ 'E-mail': 'email', Company: 'custom_fields.company' }`.
+   * Unmapped headers are used as field names, so files written by the exporters import as-is.
+   */
+  columns?: Record<string, string>;
+  /** Separator for list values such as tags (default: `;`) */
+  listSeparator?: string;
+  /** Validate every row without sending anything */
+  dryRun?: boolean;
+  checkpoint?: CheckpointStore;
+  /** Rows applied between checkpoint saves (default: 100) */
+  chunkSize?: number;
+  /** Called for every row once it is validated or applied */
+  onRow?: (result: ImportRowResult<TInput, TOutput>) => void;
+}
+
+/** `row` is the 1-based data row, not counting the header */
+export type ImportRowResult<TInput, TOutput> =
+  | { row: number; status: 'succeeded'; input: TInput; value: TOutput }
+  | { row: number; status: 'failed'; input: TInput; error: LearnWorldsApiError }
+  | { row: number; status: 'invalid'; errors: FieldError[] }
+  | { row: number; status: 'validated'; input: TInput };
+
+export interface ImportReport<TInput, TOutput> {
+  /** Rows read in this run, not counting rows skipped from the checkpoint */
+  processed: number;
+  succeeded: number;
+  failed: number;
+  invalid: number;
+  /** Rows already imported by a previous run */
+  skipped: number;
+  rows: Array<ImportRowResult<TInput, TOutput>>;
+}
+
+/** A request built from a CSV row, or the reasons the row is invalid */
+export type RowParseResult<T> = { value: T; errors?: undefined } | { value?: undefined; errors: FieldError[] };
+
+/**
+ * Stores the checkpoint as JSON on disk
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  constructor(private readonly filePath: string) {}
+
+  async get(): Promise<number | undefined> {
+    const fs = await import('node:fs/promises');
+
+    try {
+      return (JSON.parse(await fs.readFile(this.filePath, 'utf8')) as { row: number }).row;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async set(row: number): Promise<void> {
+    const fs = await import('node:fs/promises');
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify({ row }));
+    await fs.rename(tempPath, this.filePath);
+  }
+}
+
+function parseBoolean(value: string): boolean | undefined {
+  const normalized = value.toLowerCase();
+  if (['true', '1', 'yes'].includes(normalized)) {
+    return true;
+  }
+  if (['false', '0', 'no'].includes(normalized)) {
+    return false;
+  }
+  return undefined;
+}
+
+function splitList(value: string, separator: string): string[] {
+  return value
+    .split(separator)
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Rows are checked with the same validators as `requestValidation`, so errors read the same.
+ * Passwords are only checked when the client enforces password rules itself.
+ */
+function parseUserRow(
+  fields: Record<string, string>,
+  listSeparator: string,
+  validation: RequestValidationOptions | undefined
+): RowParseResult<CreateUserRequest> {
+  const user: Record<string, unknown> = {};
+  const customFields: Record<string, string> = {};
+
+  for (const [field, value] of Object.entries(fields)) {
+    if (value === '') {
+      continue;
+    }
+
+    if (field.startsWith('custom_fields.')) {
+      customFields[field.slice('custom_fields.'.length)] = value;
+    } else if (['email', 'username', 'first_name', 'last_name', 'password', 'bio'].includes(field)) {
+      user[field] = value;
+    } else if (field === 'tags') {
+      user.tags = splitList(value, listSeparator);
+    } else if (field === 'send_welcome_email') {
+      // Unrecognized values are kept, so the validator reports them
+      user.send_welcome_email = parseBoolean(value) ?? value;
+    }
+  }
+
+  if (Object.keys(customFields).length > 0) {
+    user.custom_fields = customFields;
+  }
+
+  return toParseResult(user as unknown as CreateUserRequest, (request) =>
+    validation
+      ? validateCreateUserRequest(request, validation.password)
+      : validateCreateUserRequest({ ...request, password: undefined })
+  );
+}
+
+function parseEnrollmentRow(fields: Record<string, string>): RowParseResult<EnrollUserRequest> {
+  const enrollment: Record<string, string> = {};
+  for (const field of ['user_id', 'product_id', 'product_type', 'enrollment_type', 'expires_at']) {
+    if (fields[field]) {
+      enrollment[field] = fields[field];
+    }
+  }
+
+  return toParseResult(enrollment as unknown as EnrollUserRequest, validateEnrollUserRequest);
+}
+
+function toParseResult<T>(value: T, validate: (value: T) => FieldError[]): RowParseResult<T> {
+  const errors = validate(value);
+  return errors.length > 0 ? { errors } : { value };
+}
+
+/**
+ * Read a CSV, turn every row into a request with `parse`, and apply valid rows in chunks.
+ * The checkpoint is saved after each chunk, so a rerun skips rows that were already applied.
+ * `apply` receives the `signal` and `priority` to pass on to its client call.
+ */
+export async function runImport<TInput, TOutput>(
+  source: CsvSource,
+  parse: (fields: Record<string, string>) => RowParseResult<TInput>,
+  apply: (input: TInput, requestOptions: RequestOptions) => Promise<TOutput>,
+  options: ImportOptions<TInput, TOutput> = {}
+): Promise<ImportReport<TInput, TOutput>> {
+  const { columns = {}, dryRun = false, checkpoint, chunkSize = 100, onRow } = options;
+  const report: ImportReport<TInput, TOutput> = {
+    processed: 0,
+    succeeded: 0,
+    failed: 0,
+    invalid: 0,
+    skipped: 0,
+    rows: [],
+  };
+  const resumeAfter = (await checkpoint?.get()) ?? 0;
+  let header: string[] | undefined;
+  let chunk: Array<{ row: number; fields: Record<string, string> }> = [];
+  let row = 0;
+
+  const record = (result: ImportRowResult<TInput, TOutput>): void => {
+    report.rows.push(result);
+    if (result.status === 'succeeded') {
+      report.succeeded++;
+    } else if (result.status === 'failed') {
+      report.failed++;
+    } else if (result.status === 'invalid') {
+      report.invalid++;
+    }
+    onRow?.(result);
+  };
+
+  const flush = async (): Promise<void> => {
+    const parsed = chunk.map((item) => ({ row: item.row, result: parse(item.fields) }));
+    const valid = dryRun ? [] : parsed.filter((item) => !item.result.errors);
+
+    const applied = await runBulk(
+      valid,
+      (item, _index, requestOptions) => apply(item.result.value as TInput, requestOptions),
+      { concurrency: options.concurrency, signal: options.signal, priority: options.priority }
+    );
+    const appliedByRow = new Map(applied.map((result) => [result.input.row, result]));
+
+    // Report rows in file order
+    for (const { row: itemRow, result } of parsed) {
+      const outcome = appliedByRow.get(itemRow);
+      if (result.errors) {
+        record({ row: itemRow, status: 'invalid', errors: result.errors });
+      } else if (!outcome) {
+        record({ row: itemRow, status: 'validated', input: result.value });
+      } else if (outcome.status === 'fulfilled') {
+        record({ row: itemRow, status: 'succeeded', input: result.value, value: outcome.value });
+      } else {
+        record({ row: itemRow, status: 'failed', input: result.value, error: outcome.error });
+      }
+    }
+
+    report.processed += chunk.length;
+    // Rows skipped by an abort were not applied, so the checkpoint stops before the first of them
+    const aborted = applied.find((result) => result.status === 'rejected' && result.error instanceof AbortError);
+    const last = aborted ? aborted.input.row - 1 : chunk.at(-1)?.row;
+    chunk = [];
+
+    if (checkpoint && !dryRun && last !== undefined) {
+      await checkpoint.set(last);
+    }
+  };
+
+  for await (const cells of parseCsv(source)) {
+    if (!header) {
+      header = cells.map((name) => columns[name.trim()] ?? name.trim());
+      continue;
+    }
+
+    row++;
+    if (row <= resumeAfter) {
+      report.skipped++;
+      continue;
+    }
+
+    chunk.push({ row, fields: Object.fromEntries(header.map((field, i) => [field, (cells[i] ?? '').trim()])) });
+    if (chunk.length >= chunkSize) {
+      await flush();
+    }
+    if (options.signal?.aborted) {
+      return report;
+    }
+  }
+
+  await flush();
+  return report;
+}
+
+/**
+ * Create users from a CSV with an `email` column and optional `username`, `first_name`, `last_name`,
+ * `password`, `bio`, `tags`, `send_welcome_email` and `custom_fields.<key>` columns
+ */
+export function importUsers(
+  client: LearnWorldsClient,
+  source: CsvSource,
+  options: ImportOptions<CreateUserRequest, User> = {}
+): Promise<ImportReport<CreateUserRequest, User>> {
+  const listSeparator = options.listSeparator ?? ';';
+  const validation = client.getRequestValidation();
+  return runImport(
+    source,
+    (fields) => parseUserRow(fields, listSeparator, validation),
+    (user, requestOptions) => client.createUser(user, requestOptions),
+    options
+  );
+}
+
+/**
+ * Enroll users from a CSV with `user_id`, `product_id` and `product_type` columns and
+ * optional `enrollment_type` and `expires_at` columns
+ */
+export function importEnrollments(
+  client: LearnWorldsClient,
+  source: CsvSource,
+  options: ImportOptions<EnrollUserRequest, Enrollment> = {}
+): Promise<ImportReport<EnrollUserRequest, Enrollment>> {
+  return runImport(
+    source,
+    parseEnrollmentRow,
+    (enrollment, requestOptions) => client.enrollUserToProduct(enrollment, requestOptions),
+    options
+  );
+}
@@ -1,3 +1,97 @@
 export { LearnWorldsClient } from './client.js';
 export { OAuth2Client } from './oauth.js';
+export {
+  LearnWorldsApiError,
+  UnauthorizedError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+  RateLimitError,
+  NetworkError,
+  ResponseValidationError,
+  OAuthError,
+  AbortError,
+  TimeoutError,
+  WebhookVerificationError,
+} from './errors.js';
+export type { LearnWorldsErrorOptions } from './errors.js';
+export { MemoryTokenStore, FileTokenStore } from './token-store.js';
+export type { FileTokenStoreOptions } from './token-store.js';
+export {
+  WebhookReceiver,
+  verifyWebhookSignature,
+  computeWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+} from './webhooks.js';
+export type { WebhookOptions } from './webhooks.js';
+export { BulkOperations, runBulk } from './bulk.js';
+export type { BulkOptions, BulkProgress, BulkResult, BulkTagUpdate } from './bulk.js';
+export type {
+  Middleware,
+  MiddlewareContext,
+  MiddlewareRequest,
+  MiddlewareResponse,
+  RequestTimings,
+} from './middleware.js';
+export { Telemetry } from './telemetry.js';
+export type { TelemetryOptions, OpenTelemetryApi } from './telemetry.js';
+export { MemoryCacheStore } from './cache.js';
+export { LearnWorldsClientPool } from './pool.js';
+export type { ClientPoolOptions, CrossSchoolOptions, SchoolResolver, SchoolResult } from './pool.js';
+export { parseCsv, formatCsvRow } from './csv.js';
+export type { CsvSource } from './csv.js';
+export { exportRecords, exportUsers, exportCourses, exportBundles, exportEnrollments } from './export.js';
+export type { ExportFormat, ExportOptions, UserExportOptions, EnrollmentExportOptions } from './export.js';
+export { runImport, importUsers, importEnrollments, FileCheckpointStore } from './import.js';
+export type { CheckpointStore, ImportOptions, ImportReport, ImportRowResult, RowParseResult } from './import.js';
+export { FetchTransport } from './transport.js';
+export type {
+  HttpTransport,
+  TransportRequest,
+  TransportResponse,
+  FetchFunction,
+  FetchTransportOptions,
+} from './transport.js';
+export { MockLearnWorldsServer } from './mock-server.js';
+export type { MockRequest, MockResponse, MockFault, MockServerOptions } from './mock-server.js';
+export {
+  s,
+  validateSchema,
+  parseDates,
+  courseSchema,
+  bundleSchema,
+  userSchema,
+  enrollmentSchema,
+  learningUnitSchema,
+  sectionSchema,
+  courseContentsSchema,
+  userCourseProgressSummarySchema,
+  learningUnitProgressSchema,
+  userCourseProgressSchema,
+  userGradeSchema,
+  certificateSchema,
+  paymentSchema,
+  lineItemSchema,
+  orderSchema,
+  subscriptionSchema,
+  invoiceSchema,
+  couponSchema,
+} from './schemas.js';
+export type { Schema } from './schemas.js';
+export {
+  validateCreateUserRequest,
+  validateUpdateUserRequest,
+  validateUpdateUserTagsRequest,
+  validateEnrollUserRequest,
+  validateUnenrollUserRequest,
+  validateCreateCouponRequest,
+  validateUpdateCouponRequest,
+  isEmail,
+  isIsoDate,
+} from './request-validation.js';
+export { reconcilePayments } from './reconciliation.js';
+export { generateCouponCodes, COUPON_CODE_ALPHABET } from './coupons.js';
+export { RetryPolicy } from './retry.js';
+export { RateLimiter } from './rate-limiter.js';
+export { PaginatedResource, ScopedPaginatedResource, paginate } from './pagination.js';
 export * from './types.js';
\ No newline at end of file
@@ -0,0 +1,148 @@
+import type { HttpMethod } from './types.js';
+import type { LearnWorldsApiError } from './errors.js';
+
+export interface MiddlewareRequest {
+  method: HttpMethod;
+  /** Path relative to the API base URL, e.g. `/users/123` */
+  url: string;
+  headers: Record<string, string>;
+  params?: Record<string, unknown>;
+  data?: unknown;
+}
+
+export interface MiddlewareResponse<T = unknown> {
+  status: number;
+  headers: Record<string, string>;
+  /** Raw response body, i.e. the `{ success, data }` envelope */
+  data: T;
+}
+
+export interface RequestTimings {
+  /** When the call started (ms since epoch) */
+  start: number;
+  /** When the current attempt started */
+  attemptStart: number;
+  /** Milliseconds since `start`, set once a response or error arrives */
+  duration?: number;
+  /** Milliseconds the current attempt took */
+  attemptDuration?: number;
+}
+
+export interface MiddlewareContext {
+  /** Client method that issued the request, e.g. `createUser` or `getCourse` */
+  operation: string;
+  /** Path template of the endpoint, e.g. `/users/{id}` */
+  route: string;
+  /** 1-based attempt number; increases on retries and after a token refresh */
+  attempt: number;
+  request: MiddlewareRequest;
+  timings: RequestTimings;
+  /** Scratch space shared by every hook of one call */
+  state: Record<string, unknown>;
+}
+
+type HookResult = MiddlewareResponse | undefined | void;
+
+export interface Middleware {
+  /**
+   * Runs before every attempt, before the rate limiter and the Authorization header.
+   * Mutate `context.request`, or return a response to skip the HTTP call.
+   */
+  beforeRequest?(context: MiddlewareContext): HookResult | Promise<HookResult>;
+  /** Runs after a response from the API. Return a response to replace it. */
+  afterResponse?(context: MiddlewareContext, response: MiddlewareResponse): HookResult | Promise<HookResult>;
+  /** Runs once a call has failed for good, after retries. Return a response to recover. */
+  onError?(context: MiddlewareContext, error: LearnWorldsApiError): HookResult | Promise<HookResult>;
+}
+
+/**
+ * State of one client call, shared by every attempt
+ */
+class CallContext implements MiddlewareContext {
+  attempt = 0;
+  request: MiddlewareRequest;
+  timings: RequestTimings;
+  state: Record<string, unknown> = {};
+
+  constructor(
+    readonly operation: string,
+    readonly route: string,
+    request: MiddlewareRequest
+  ) {
+    const now = Date.now();
+    this.request = request;
+    this.timings = { start: now, attemptStart: now };
+  }
+}
+
+export function createMiddlewareContext(
+  call: Pick<MiddlewareContext, 'operation' | 'route'>,
+  request: MiddlewareRequest
+): MiddlewareContext {
+  return new CallContext(call.operation, call.route, request);
+}
+
+function markEnd(context: MiddlewareContext): void {
+  const now = Date.now();
+  context.timings.duration = now - context.timings.start;
+  context.timings.attemptDuration = now - context.timings.attemptStart;
+}
+
+/**
+ * Run `beforeRequest` hooks in order. The first returned response short-circuits the rest.
+ */
+export async function runBeforeRequest(
+  middlewares: Middleware[],
+  context: MiddlewareContext
+): Promise<MiddlewareResponse | undefined> {
+  context.attempt++;
+  context.timings.attemptStart = Date.now();
+
+  for (const middleware of middlewares) {
+    const response = await middleware.beforeRequest?.(context);
+    if (response) {
+      markEnd(context);
+      return response;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Run `afterResponse` hooks in order; each one sees the response returned by the previous hook
+ */
+export async function runAfterResponse(
+  middlewares: Middleware[],
+  context: MiddlewareContext,
+  response: MiddlewareResponse
+): Promise<MiddlewareResponse> {
+  markEnd(context);
+
+  let current = response;
+  for (const middleware of middlewares) {
+    current = (await middleware.afterResponse?.(context, current)) || current;
+  }
+
+  return current;
+}
+
+/**
+ * Run `onError` hooks in order. The first returned response recovers the call.
+ */
+export async function runOnError(
+  middlewares: Middleware[],
+  context: MiddlewareContext,
+  error: LearnWorldsApiError
+): Promise<MiddlewareResponse | undefined> {
+  markEnd(context);
+
+  for (const middleware of middlewares) {
+    const response = await middleware.onError?.(context, error);
+    if (response) {
+      return response;
+    }
+  }
+
+  return undefined;
+}
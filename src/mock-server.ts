@@ -0,0 +1,679 @@
+import {
+  ApiResponse,
+  Bundle,
+  Coupon,
+  Course,
+  Enrollment,
+  HttpMethod,
+  Invoice,
+  LearnWorldsConfig,
+  LineItem,
+  Order,
+  Payment,
+  Subscription,
+  TokenResponse,
+  User,
+} from './types.js';
+import { LearnWorldsClient } from './client.js';
+import { sleep } from './retry.js';
+import type { FetchFunction } from './transport.js';
+
+export interface MockRequest {
+  method: string;
+  /** Absolute URL or path, including the query string */
+  url: string;
+  headers?: Record<string, string>;
+  body?: string;
+  /** Cancels the simulated latency, like an aborted network request */
+  signal?: AbortSignal;
+}
+
+export interface MockResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface MockFault {
+  status: number;
+  /** How many matching requests fail (default: 1) */
+  times?: number;
+  method?: HttpMethod;
+  /** Only fail requests whose path starts with this string or matches this pattern */
+  path?: string | RegExp;
+  /** Seconds sent in the `Retry-After` header */
+  retryAfter?: number;
+  body?: unknown;
+}
+
+export interface MockServerOptions {
+  clientId?: string;
+  clientSecret?: string;
+  schoolDomain?: string;
+  apiHost?: string;
+  /** Lifetime of issued access tokens (default: 3600) */
+  tokenTtlSeconds?: number;
+  courses?: Course[];
+  bundles?: Bundle[];
+  users?: User[];
+  enrollments?: Enrollment[];
+  payments?: Payment[];
+  orders?: Order[];
+  subscriptions?: Subscription[];
+  invoices?: Invoice[];
+  coupons?: Coupon[];
+}
+
+interface IssuedToken {
+  expiresAt: number;
+  refreshToken: string;
+}
+
+type RouteHandler = (match: RegExpMatchArray, request: ParsedRequest) => MockResponse | Promise<MockResponse>;
+
+interface CommerceRecord {
+  id: string;
+  user_id: string;
+  status: string;
+  product_id?: string;
+  items?: LineItem[];
+  created_at?: string;
+  issued_at?: string;
+}
+
+interface ParsedRequest {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+/**
+ * Stateful in-memory fake of the LearnWorlds API for offline tests.
+ * Implements the OAuth2 token endpoints and the `/v2` routes used by the client,
+ * with the same response envelopes, and supports fault injection.
+ */
+export class MockLearnWorldsServer {
+  readonly courses = new Map<string, Course>();
+  readonly bundles = new Map<string, Bundle>();
+  readonly users = new Map<string, User>();
+  readonly enrollments = new Map<string, Enrollment>();
+  readonly payments = new Map<string, Payment>();
+  readonly orders = new Map<string, Order>();
+  readonly subscriptions = new Map<string, Subscription>();
+  readonly invoices = new Map<string, Invoice>();
+  readonly coupons = new Map<string, Coupon>();
+  /** Every request received, in order */
+  readonly requests: Array<{ method: string; path: string; status: number }> = [];
+
+  readonly clientId: string;
+  readonly clientSecret: string;
+  readonly schoolDomain: string;
+  readonly apiHost: string;
+
+  private tokenTtlSeconds: number;
+  private accessTokens = new Map<string, IssuedToken>();
+  private refreshTokens = new Set<string>();
+  private faults: Array<MockFault & { remaining: number }> = [];
+  private latencyMs = 0;
+  private sequence = 0;
+  private routes: Array<[HttpMethod, RegExp, RouteHandler]> = [];
+
+  constructor(options: MockServerOptions = {}) {
+    this.clientId = options.clientId ?? 'mock-client-id';
+    this.clientSecret = options.clientSecret ?? 'mock-client-secret';
+    this.schoolDomain = options.schoolDomain ?? 'mockschool';
+    this.apiHost = options.apiHost ?? 'api.mockschool.learnworlds.com';
+    this.tokenTtlSeconds = options.tokenTtlSeconds ?? 3600;
+
+    options.courses?.forEach((course) => this.courses.set(course.id, course));
+    options.bundles?.forEach((bundle) => this.bundles.set(bundle.id, bundle));
+    options.users?.forEach((user) => this.users.set(user.id, user));
+    options.enrollments?.forEach((enrollment) => this.enrollments.set(enrollment.id, enrollment));
+    options.payments?.forEach((payment) => this.payments.set(payment.id, payment));
+    options.orders?.forEach((order) => this.orders.set(order.id, order));
+    options.subscriptions?.forEach((subscription) => this.subscriptions.set(subscription.id, subscription));
+    options.invoices?.forEach((invoice) => this.invoices.set(invoice.id, invoice));
+    options.coupons?.forEach((coupon) => this.coupons.set(coupon.id, coupon));
+
+    this.route('GET', /^\/v2\/courses$/, (_, req) => this.list([...this.courses.values()], req));
+    this.route('GET', /^\/v2\/courses\/([^/]+)$/, ([, id]) => this.find(this.courses, id, 'Course'));
+    this.route('GET', /^\/v2\/bundles$/, (_, req) => this.list([...this.bundles.values()], req));
+    this.route('GET', /^\/v2\/bundles\/([^/]+)$/, ([, id]) => this.find(this.bundles, id, 'Bundle'));
+    this.route('GET', /^\/v2\/users$/, (_, req) => this.listUsers(req));
+    this.route('POST', /^\/v2\/users$/, (_, req) => this.createUser(req.body));
+    this.route('GET', /^\/v2\/users\/([^/]+)$/, ([, id]) => this.find(this.users, id, 'User'));
+    this.route('PUT', /^\/v2\/users\/([^/]+)$/, ([, id], req) => this.updateUser(id, req.body));
+    this.route('DELETE', /^\/v2\/users\/([^/]+)$/, ([, id]) => this.deleteUser(id));
+    this.route('PUT', /^\/v2\/users\/([^/]+)\/suspend$/, ([, id]) => this.updateUser(id, { is_active: false }));
+    this.route('PUT', /^\/v2\/users\/([^/]+)\/unsuspend$/, ([, id]) => this.updateUser(id, { is_active: true }));
+    this.route('PATCH', /^\/v2\/users\/([^/]+)\/tags$/, ([, id], req) => this.updateTags(id, req.body));
+    this.route('GET', /^\/v2\/users\/([^/]+)\/enrollments$/, ([, id], req) => this.listEnrollments(id, req));
+    this.route('POST', /^\/v2\/enrollments$/, (_, req) => this.enroll(req.body));
+    this.route('DELETE', /^\/v2\/enrollments$/, (_, req) => this.unenroll(req.body));
+    this.route('GET', /^\/v2\/payments$/, (_, req) => this.listCommerce(this.payments, req));
+    this.route('GET', /^\/v2\/payments\/([^/]+)$/, ([, id]) => this.find(this.payments, id, 'Payment'));
+    this.route('GET', /^\/v2\/orders$/, (_, req) => this.listCommerce(this.orders, req));
+    this.route('GET', /^\/v2\/orders\/([^/]+)$/, ([, id]) => this.find(this.orders, id, 'Order'));
+    this.route('GET', /^\/v2\/subscriptions$/, (_, req) => this.listCommerce(this.subscriptions, req));
+    this.route('GET', /^\/v2\/subscriptions\/([^/]+)$/, ([, id]) => this.find(this.subscriptions, id, 'Subscription'));
+    this.route('GET', /^\/v2\/invoices$/, (_, req) => this.listCommerce(this.invoices, req));
+    this.route('GET', /^\/v2\/invoices\/([^/]+)$/, ([, id]) => this.find(this.invoices, id, 'Invoice'));
+    this.route('GET', /^\/v2\/coupons$/, (_, req) => this.listCoupons(req));
+    this.route('POST', /^\/v2\/coupons$/, (_, req) => this.createCoupon(req.body));
+    this.route('GET', /^\/v2\/coupons\/([^/]+)$/, ([, id]) => this.find(this.coupons, id, 'Coupon'));
+    this.route('PUT', /^\/v2\/coupons\/([^/]+)$/, ([, id], req) => this.updateCoupon(id, req.body));
+    this.route('PUT', /^\/v2\/coupons\/([^/]+)\/deactivate$/, ([, id]) => this.updateCoupon(id, { is_active: false }));
+  }
+
+  private route(method: HttpMethod, pattern: RegExp, handler: RouteHandler): void {
+    this.routes.push([method, pattern, handler]);
+  }
+
+  /**
+   * Fail upcoming requests with the given status
+   */
+  injectFault(fault: MockFault): this {
+    this.faults.push({ ...fault, remaining: fault.times ?? 1 });
+    return this;
+  }
+
+  /**
+   * Expire every issued access token, so the next API call gets a 401
+   */
+  expireTokens(): this {
+    for (const token of this.accessTokens.values()) {
+      token.expiresAt = 0;
+    }
+    return this;
+  }
+
+  /**
+   * Delay every response by the given number of milliseconds
+   */
+  setLatency(latencyMs: number): this {
+    this.latencyMs = latencyMs;
+    return this;
+  }
+
+  /**
+   * Client configuration pointing at this server
+   */
+  getConfig(overrides: Partial<LearnWorldsConfig> = {}): LearnWorldsConfig {
+    return {
+      schoolDomain: this.schoolDomain,
+      apiHost: this.apiHost,
+      clientId: this.clientId,
+      clientSecret: this.clientSecret,
+      fetch: this.fetch,
+      ...overrides,
+    };
+  }
+
+  /**
+   * Create a client that talks to this server, without touching the network
+   */
+  createClient(overrides: Partial<LearnWorldsConfig> = {}): LearnWorldsClient {
+    return new LearnWorldsClient(this.getConfig(overrides));
+  }
+
+  /**
+   * `fetch` implementation routing requests to this server
+   */
+  get fetch(): FetchFunction {
+    return async (url, init) => {
+      const result = await this.handle({
+        method: init.method ?? 'GET',
+        url,
+        headers: Object.fromEntries(new Headers(init.headers)),
+        body: typeof init.body === 'string' ? init.body : undefined,
+        signal: init.signal ?? undefined,
+      });
+
+      const hasBody = result.body !== undefined && result.status !== 204 && result.status !== 304;
+      return new Response(hasBody ? JSON.stringify(result.body) : null, {
+        status: result.status,
+        headers: { ...(hasBody ? { 'content-type': 'application/json' } : {}), ...result.headers },
+      });
+    };
+  }
+
+  /**
+   * Handle a single request
+   */
+  async handle(request: MockRequest): Promise<MockResponse> {
+    if (this.latencyMs) {
+      await sleep(this.latencyMs, request.signal);
+    }
+
+    const parsed = this.parse(request);
+    const response = this.withEtag(parsed, await this.dispatch(parsed));
+    this.requests.push({ method: parsed.method, path: parsed.path, status: response.status });
+    return response;
+  }
+
+  private parse(request: MockRequest): ParsedRequest {
+    const url = new URL(request.url, `https://${this.apiHost}`);
+    const headers = Object.fromEntries(
+      Object.entries(request.headers ?? {}).map(([key, value]) => [key.toLowerCase(), value])
+    );
+
+    let body: Record<string, unknown> = {};
+    if (request.body) {
+      body = headers['content-type']?.includes('application/x-www-form-urlencoded')
+        ? Object.fromEntries(new URLSearchParams(request.body))
+        : (JSON.parse(request.body) as Record<string, unknown>);
+    }
+
+    return { method: request.method.toUpperCase(), path: url.pathname, query: url.searchParams, headers, body };
+  }
+
+  private async dispatch(request: ParsedRequest): Promise<MockResponse> {
+    const fault = this.faults.find(
+      (candidate) =>
+        candidate.remaining > 0 &&
+        (!candidate.method || candidate.method === request.method) &&
+        (!candidate.path ||
+          (typeof candidate.path === 'string'
+            ? request.path.startsWith(candidate.path)
+            : candidate.path.test(request.path)))
+    );
+
+    if (fault) {
+      fault.remaining--;
+      this.faults = this.faults.filter((candidate) => candidate.remaining > 0);
+      return {
+        status: fault.status,
+        headers: fault.retryAfter !== undefined ? { 'retry-after': String(fault.retryAfter) } : {},
+        body: fault.body ?? { success: false, message: `Injected fault (${fault.status})` },
+      };
+    }
+
+    if (request.method === 'POST' && request.path === '/oauth2/token') {
+      return this.token(request.body);
+    }
+
+    if (request.method === 'POST' && request.path === '/oauth2/revoke') {
+      return this.revoke(request.body);
+    }
+
+    if (!this.isAuthorized(request.headers.authorization)) {
+      return this.error(401, 'Unauthenticated');
+    }
+
+    for (const [method, pattern, handler] of this.routes) {
+      const match = request.path.match(pattern);
+      if (method === request.method && match) {
+        return handler(match, request);
+      }
+    }
+
+    return this.error(404, `No route for ${request.method} ${request.path}`);
+  }
+
+  private token(body: Record<string, unknown>): MockResponse {
+    if (body.client_id !== this.clientId || body.client_secret !== this.clientSecret) {
+      return {
+        status: 401,
+        headers: {},
+        body: { error: 'invalid_client', error_description: 'Client authentication failed' },
+      };
+    }
+
+    switch (body.grant_type) {
+      case 'client_credentials':
+      case 'password':
+      case 'authorization_code':
+        break;
+      case 'refresh_token':
+        if (!this.refreshTokens.delete(String(body.refresh_token))) {
+          return {
+            status: 400,
+            headers: {},
+            body: { error: 'invalid_grant', error_description: 'Invalid refresh token' },
+          };
+        }
+        break;
+      default:
+        return { status: 400, headers: {}, body: { error: 'unsupported_grant_type' } };
+    }
+
+    const accessToken = `access-${this.nextId()}`;
+    const refreshToken = `refresh-${this.nextId()}`;
+    this.accessTokens.set(accessToken, { expiresAt: Date.now() + this.tokenTtlSeconds * 1000, refreshToken });
+    this.refreshTokens.add(refreshToken);
+
+    const response: TokenResponse = {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: this.tokenTtlSeconds,
+      refresh_token: refreshToken,
+    };
+
+    return { status: 200, headers: {}, body: response };
+  }
+
+  private revoke(body: Record<string, unknown>): MockResponse {
+    const token = String(body.token);
+    this.accessTokens.delete(token);
+    this.refreshTokens.delete(token);
+    return { status: 200, headers: {}, body: {} };
+  }
+
+  private isAuthorized(header: string | undefined): boolean {
+    const token = header?.replace(/^Bearer /, '');
+    const issued = token ? this.accessTokens.get(token) : undefined;
+    return !!issued && issued.expiresAt > Date.now();
+  }
+
+  private list<T extends { id: string }>(items: T[], request: ParsedRequest): MockResponse {
+    const ids = request.query.get('ids')?.split(',');
+    if (ids) {
+      items = items.filter((item) => ids.includes(item.id));
+    }
+
+    const page = Number(request.query.get('page') ?? 1);
+    const perPage = Number(request.query.get('per_page') ?? 20);
+    const data = items.slice((page - 1) * perPage, page * perPage);
+
+    const body: ApiResponse<T[]> = {
+      success: true,
+      data,
+      meta: { page, itemsPerPage: perPage, totalItems: items.length, totalPages: Math.ceil(items.length / perPage) },
+    };
+
+    return { status: 200, headers: {}, body };
+  }
+
+  private listUsers(request: ParsedRequest): MockResponse {
+    const { query } = request;
+    const search = query.get('search')?.toLowerCase();
+    const email = query.get('email')?.toLowerCase();
+    const tags = query.get('tags')?.split(',').filter(Boolean) ?? [];
+    const createdAfter = query.get('created_after');
+    const createdBefore = query.get('created_before');
+
+    const users = [...this.users.values()].filter(
+      (user) =>
+        (!email || user.email.toLowerCase() === email) &&
+        (!search ||
+          [user.email, user.username, user.first_name, user.last_name].some((value) =>
+            value?.toLowerCase().includes(search)
+          )) &&
+        tags.every((tag) => user.tags.includes(tag)) &&
+        (!createdAfter || new Date(user.created_at) >= new Date(createdAfter)) &&
+        (!createdBefore || new Date(user.created_at) <= new Date(createdBefore))
+    );
+
+    return this.list(users, request);
+  }
+
+  /**
+   * List payments, orders, subscriptions or invoices filtered by user, product, status and creation date
+   */
+  private listCommerce<T extends CommerceRecord>(items: Map<string, T>, request: ParsedRequest): MockResponse {
+    const { query } = request;
+    const userId = query.get('user_id');
+    const productId = query.get('product_id');
+    const status = query.get('status');
+    const createdAfter = query.get('created_after');
+    const createdBefore = query.get('created_before');
+
+    const records = [...items.values()].filter((record) => {
+      const createdAt = new Date(record.created_at ?? record.issued_at ?? 0);
+      return (
+        (!userId || record.user_id === userId) &&
+        (!productId || record.product_id === productId || !!record.items?.some((i) => i.product_id === productId)) &&
+        (!status || record.status === status) &&
+        (!createdAfter || createdAt >= new Date(createdAfter)) &&
+        (!createdBefore || createdAt <= new Date(createdBefore))
+      );
+    });
+
+    return this.list(records, request);
+  }
+
+  private listCoupons(request: ParsedRequest): MockResponse {
+    const { query } = request;
+    const search = query.get('search')?.toLowerCase();
+    const isActive = query.get('is_active');
+    const productId = query.get('product_id');
+
+    const coupons = [...this.coupons.values()].filter(
+      (coupon) =>
+        (!search || coupon.code.toLowerCase().includes(search)) &&
+        (isActive === null || String(coupon.is_active) === isActive) &&
+        (!productId || [...(coupon.course_ids ?? []), ...(coupon.bundle_ids ?? [])].includes(productId))
+    );
+
+    return this.list(coupons, request);
+  }
+
+  private createCoupon(body: Record<string, unknown>): MockResponse {
+    const code = typeof body.code === 'string' ? body.code : '';
+
+    if (!code) {
+      return this.error(422, 'The code field is required.', { code: ['The code field is required.'] });
+    }
+
+    if ([...this.coupons.values()].some((coupon) => coupon.code.toLowerCase() === code.toLowerCase())) {
+      const message = 'The code has already been taken.';
+      return this.error(422, message, { code: [message] });
+    }
+
+    const now = new Date().toISOString();
+    const coupon = {
+      is_active: true,
+      ...body,
+      id: `coupon-${this.nextId()}`,
+      code,
+      times_used: 0,
+      created_at: now,
+      updated_at: now,
+    } as Coupon;
+
+    this.coupons.set(coupon.id, coupon);
+    return this.ok(coupon, 201);
+  }
+
+  private updateCoupon(id: string, changes: Record<string, unknown>): MockResponse {
+    const coupon = this.coupons.get(id);
+    if (!coupon) {
+      return this.error(404, 'Coupon not found');
+    }
+
+    const updated = { ...coupon, ...changes, id, code: coupon.code, updated_at: new Date().toISOString() } as Coupon;
+    this.coupons.set(id, updated);
+    return this.ok(updated);
+  }
+
+  private createUser(body: Record<string, unknown>): MockResponse {
+    const email = typeof body.email === 'string' ? body.email : '';
+
+    if (!email.includes('@')) {
+      const message = 'The email must be a valid email address.';
+      return this.error(422, message, { email: [message] });
+    }
+
+    if ([...this.users.values()].some((user) => user.email.toLowerCase() === email.toLowerCase())) {
+      const message = 'The email has already been taken.';
+      return this.error(422, message, { email: [message] });
+    }
+
+    const now = new Date().toISOString();
+    const fields = { ...body };
+    delete fields.password;
+    delete fields.send_welcome_email;
+
+    const user: User = {
+      roles: ['student'],
+      tags: [],
+      ...fields,
+      id: `user-${this.nextId()}`,
+      email,
+      is_active: true,
+      created_at: now,
+      updated_at: now,
+    } as User;
+
+    this.users.set(user.id, user);
+    return this.ok(user, 201);
+  }
+
+  private updateUser(id: string, changes: Record<string, unknown>): MockResponse {
+    const user = this.users.get(id);
+    if (!user) {
+      return this.error(404, 'User not found');
+    }
+
+    const updated: User = { ...user, ...changes, id, email: user.email, updated_at: new Date().toISOString() };
+    this.users.set(id, updated);
+    return this.ok(updated);
+  }
+
+  private deleteUser(id: string): MockResponse {
+    if (!this.users.delete(id)) {
+      return this.error(404, 'User not found');
+    }
+
+    for (const [enrollmentId, enrollment] of this.enrollments) {
+      if (enrollment.user_id === id) {
+        this.enrollments.delete(enrollmentId);
+      }
+    }
+
+    return this.ok(undefined);
+  }
+
+  private updateTags(id: string, body: Record<string, unknown>): MockResponse {
+    const user = this.users.get(id);
+    if (!user) {
+      return this.error(404, 'User not found');
+    }
+
+    const tags = Array.isArray(body.tags) ? body.tags.map(String) : [];
+    if (tags.length === 0) {
+      return this.error(422, 'The tags field is required.', { tags: ['The tags field is required.'] });
+    }
+
+    let updatedTags: string[];
+    switch (body.action) {
+      case 'add':
+        updatedTags = [...new Set([...user.tags, ...tags])];
+        break;
+      case 'remove':
+        updatedTags = user.tags.filter((tag) => !tags.includes(tag));
+        break;
+      case 'replace':
+        updatedTags = tags;
+        break;
+      default:
+        return this.error(422, 'The selected action is invalid.', { action: ['The selected action is invalid.'] });
+    }
+
+    return this.updateUser(id, { tags: updatedTags });
+  }
+
+  private listEnrollments(userId: string, request: ParsedRequest): MockResponse {
+    if (!this.users.has(userId)) {
+      return this.error(404, 'User not found');
+    }
+
+    return this.list(
+      [...this.enrollments.values()].filter((enrollment) => enrollment.user_id === userId),
+      request
+    );
+  }
+
+  private enroll(body: Record<string, unknown>): MockResponse {
+    const productType = body.product_type as Enrollment['product_type'];
+    const products = productType === 'bundle' ? this.bundles : this.courses;
+
+    if (!this.users.has(String(body.user_id))) {
+      return this.error(404, 'User not found');
+    }
+
+    if (!products.has(String(body.product_id))) {
+      return this.error(404, `${productType === 'bundle' ? 'Bundle' : 'Course'} not found`);
+    }
+
+    const existing = this.findEnrollment(body);
+    if (existing?.status === 'active') {
+      return this.error(422, 'The user is already enrolled in this product.');
+    }
+
+    const enrollment: Enrollment = {
+      id: existing?.id ?? `enrollment-${this.nextId()}`,
+      user_id: String(body.user_id),
+      product_id: String(body.product_id),
+      product_type: productType,
+      enrollment_type: (body.enrollment_type as Enrollment['enrollment_type']) ?? 'free',
+      status: 'active',
+      enrolled_at: new Date().toISOString(),
+      ...(body.expires_at ? { expires_at: String(body.expires_at) } : {}),
+    };
+
+    this.enrollments.set(enrollment.id, enrollment);
+    return this.ok(enrollment, 201);
+  }
+
+  private unenroll(body: Record<string, unknown>): MockResponse {
+    const existing = this.findEnrollment(body);
+    if (!existing) {
+      return this.error(404, 'Enrollment not found');
+    }
+
+    this.enrollments.delete(existing.id);
+    return this.ok(undefined);
+  }
+
+  private findEnrollment(body: Record<string, unknown>): Enrollment | undefined {
+    return [...this.enrollments.values()].find(
+      (enrollment) =>
+        enrollment.user_id === body.user_id &&
+        enrollment.product_id === body.product_id &&
+        enrollment.product_type === body.product_type
+    );
+  }
+
+  private find<T>(items: Map<string, T>, id: string, name: string): MockResponse {
+    const item = items.get(id);
+    return item ? this.ok(item) : this.error(404, `${name} not found`);
+  }
+
+  /**
+   * Tag successful GET responses with an ETag and answer matching If-None-Match headers with 304
+   */
+  private withEtag(request: ParsedRequest, response: MockResponse): MockResponse {
+    if (request.method !== 'GET' || response.status !== 200 || request.path.startsWith('/oauth2/')) {
+      return response;
+    }
+
+    const body = JSON.stringify(response.body);
+    let hash = 5381;
+    for (let i = 0; i < body.length; i++) {
+      hash = ((hash << 5) + hash + body.charCodeAt(i)) >>> 0;
+    }
+    const etag = `W/"${hash.toString(16)}"`;
+
+    if (request.headers['if-none-match'] === etag) {
+      return { status: 304, headers: { etag }, body: undefined };
+    }
+
+    return { ...response, headers: { ...response.headers, etag } };
+  }
+
+  private ok<T>(data: T, status = 200): MockResponse {
+    const body: ApiResponse<T> = { success: true, data };
+    return { status, headers: {}, body };
+  }
+
+  private error(status: number, message: string, errors?: Record<string, string[]>): MockResponse {
+    return { status, headers: {}, body: { success: false, message, ...(errors ? { errors } : {}) } };
+  }
+
+  private nextId(): number {
+    return ++this.sequence;
+  }
+}
@@ -1,68 +1,110 @@
-import axios, { AxiosInstance } from 'axios';
 import { 
   TokenResponse, 
+  AuthorizationCallbackRequest,
   AuthorizationCodeRequest, 
+  AuthorizationRequest,
+  AuthorizationRequestOptions,
+  OAuthScope,
   ResourceOwnerPasswordRequest,
-  LearnWorldsConfig 
+  LearnWorldsConfig,
+  StoredTokens,
+  TokenStore,
 } from './types.js';
+import { NetworkError, OAuthError } from './errors.js';
+import { getHeader } from './retry.js';
+import { MemoryTokenStore } from './token-store.js';
+import { randomBase64Url, sha256Base64Url, timingSafeEqual } from './crypto.js';
+import { CallOutcome, Telemetry } from './telemetry.js';
+import { HttpTransport, TransportResponse, createTransport } from './transport.js';
+
+// Refresh tokens that expire within this window (5 minutes)
+const EXPIRY_BUFFER_MS = 5 * 60 * 1000;
 
 export class OAuth2Client {
-  private http: AxiosInstance;
+  private transport: HttpTransport;
+  private baseUrl: string;
   private config: LearnWorldsConfig;
   private accessToken?: string;
   private refreshToken?: string;
   private tokenExpiresAt?: Date;
+  private tokenStore: TokenStore;
+  private pendingRefresh?: Promise<TokenResponse>;
+  private telemetry?: Telemetry;
 
   constructor(config: LearnWorldsConfig) {
     this.config = config;
     this.accessToken = config.accessToken;
     this.refreshToken = config.refreshToken;
+    this.tokenStore =
+      config.tokenStore ??
+      new MemoryTokenStore(
+        config.accessToken ? { accessToken: config.accessToken, refreshToken: config.refreshToken } : undefined
+      );
+
+    this.telemetry = Telemetry.from(config.telemetry);
 
     // OAuth2 endpoints use the school-specific domain (not api.learnworlds.com)
-    const baseURL = `https://${config.schoolDomain}.learnworlds.com`;
-    
-    this.http = axios.create({
-      baseURL,
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-    });
+    this.baseUrl = `https://${config.schoolDomain}.learnworlds.com`;
+    this.transport = createTransport(config);
   }
 
   /**
-   * Get the authorization URL for the authorization code grant flow
+   * Get the authorization URL for the authorization code grant flow.
+   * Prefer `createAuthorizationRequest`, which adds PKCE and a random state.
    */
-  getAuthorizationUrl(scope = 'read_user_profile', state?: string): string {
-    const params = new URLSearchParams({
-      client_id: this.config.clientId,
-      redirect_uri: this.config.redirectUri || '',
-      response_type: 'code',
-      scope,
-    });
+  getAuthorizationUrl(scopes: OAuthScope[] = ['read_user_profile'], state?: string): string {
+    return this.buildAuthorizationUrl(scopes, this.config.redirectUri, state);
+  }
 
-    if (state) {
-      params.append('state', state);
-    }
+  /**
+   * Start an authorization code flow with PKCE (S256) and a random state.
+   * Store the returned `state` and `codeVerifier` in the user's session, then redirect to `url`.
+   */
+  async createAuthorizationRequest(options: AuthorizationRequestOptions = {}): Promise<AuthorizationRequest> {
+    const { scopes = ['read_user_profile'], redirectUri = this.config.redirectUri } = options;
+    const codeVerifier = await randomBase64Url(32);
+    const codeChallenge = await sha256Base64Url(codeVerifier);
+    const state = await randomBase64Url(16);
 
-    return `https://${this.config.schoolDomain}.learnworlds.com/oauth2/authorize?${params.toString()}`;
+    return {
+      url: this.buildAuthorizationUrl(scopes, redirectUri, state, codeChallenge),
+      state,
+      codeVerifier,
+      codeChallenge,
+      codeChallengeMethod: 'S256',
+      ...(redirectUri ? { redirectUri } : {}),
+    };
   }
 
   /**
-   * Exchange authorization code for access token
+   * Exchange authorization code for access token.
+   * Given the callback URL, the returned state is checked against the stored one first.
    */
-  async exchangeAuthorizationCode(request: AuthorizationCodeRequest): Promise<TokenResponse> {
+  async exchangeAuthorizationCode(
+    request: AuthorizationCodeRequest | AuthorizationCallbackRequest
+  ): Promise<TokenResponse> {
+    const { code, redirectUri = this.config.redirectUri, codeVerifier } =
+      'callbackUrl' in request ? this.parseCallback(request) : request;
+
     const params = new URLSearchParams({
       grant_type: 'authorization_code',
-      code: request.code,
-      redirect_uri: request.redirectUri,
+      code,
       client_id: this.config.clientId,
       client_secret: this.config.clientSecret,
     });
 
-    const response = await this.http.post<TokenResponse>('/oauth2/token', params.toString());
+    if (redirectUri) {
+      params.append('redirect_uri', redirectUri);
+    }
+
+    if (codeVerifier) {
+      params.append('code_verifier', codeVerifier);
+    }
+
+    const response = await this.post<TokenResponse>('/oauth2/token', params);
     
-    await this.handleTokenResponse(response.data);
-    return response.data;
+    await this.handleTokenResponse(response);
+    return response;
   }
 
   /**
@@ -77,56 +119,49 @@ export class OAuth2Client {
       client_secret: this.config.clientSecret,
     });
 
-    if (request.scope) {
-      params.append('scope', request.scope);
+    if (request.scopes?.length) {
+      params.append('scope', request.scopes.join(' '));
     }
 
-    const response = await this.http.post<TokenResponse>('/oauth2/token', params.toString());
+    const response = await this.post<TokenResponse>('/oauth2/token', params);
     
-    await this.handleTokenResponse(response.data);
-    return response.data;
+    await this.handleTokenResponse(response);
+    return response;
   }
 
   /**
    * Get access token using client credentials grant
    * This is typically used for server-to-server authentication
    */
-  async authenticateWithClientCredentials(scope?: string): Promise<TokenResponse> {
+  async authenticateWithClientCredentials(scopes?: OAuthScope[]): Promise<TokenResponse> {
     const params = new URLSearchParams({
       grant_type: 'client_credentials',
       client_id: this.config.clientId,
       client_secret: this.config.clientSecret,
     });
 
-    if (scope) {
-      params.append('scope', scope);
+    if (scopes?.length) {
+      params.append('scope', scopes.join(' '));
     }
 
-    const response = await this.http.post<TokenResponse>('/oauth2/token', params.toString());
+    const response = await this.post<TokenResponse>('/oauth2/token', params);
     
-    await this.handleTokenResponse(response.data);
-    return response.data;
+    await this.handleTokenResponse(response);
+    return response;
   }
 
   /**
-   * Refresh the access token using the refresh token
+   * Refresh the access token using the refresh token.
+   * Concurrent calls share a single refresh request.
    */
-  async refreshAccessToken(): Promise<TokenResponse> {
-    if (!this.refreshToken) {
-      throw new Error('No refresh token available');
+  refreshAccessToken(): Promise<TokenResponse> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.runRefresh().finally(() => {
+        this.pendingRefresh = undefined;
+      });
     }
 
-    const params = new URLSearchParams({
-      grant_type: 'refresh_token',
-      refresh_token: this.refreshToken,
-      client_id: this.config.clientId,
-      client_secret: this.config.clientSecret,
-    });
-
-    const response = await this.http.post<TokenResponse>('/oauth2/token', params.toString());
-    
-    await this.handleTokenResponse(response.data);
-    return response.data;
+    return this.pendingRefresh;
   }
 
   /**
@@ -145,11 +180,17 @@ export class OAuth2Client {
       client_secret: this.config.clientSecret,
     });
 
-    await this.http.post('/oauth2/revoke', params.toString());
+    await this.post('/oauth2/revoke', params);
     
     if (!token || token === this.accessToken) {
       this.accessToken = undefined;
       this.tokenExpiresAt = undefined;
+
+      if (this.refreshToken) {
+        await this.tokenStore.set({ refreshToken: this.refreshToken });
+      } else {
+        await this.tokenStore.clear();
+      }
     }
   }
 
@@ -157,18 +198,17 @@ export class OAuth2Client {
    * Get the current access token, refreshing if necessary
    */
   async getAccessToken(): Promise<string> {
+    // Another client or process may have stored newer tokens
+    if (!this.accessToken || this.isTokenExpiring()) {
+      await this.loadTokens();
+    }
+
     if (!this.accessToken) {
       throw new Error('No access token available. Please authenticate first.');
     }
 
-    // Check if token is expired or about to expire (5 minutes buffer)
-    if (this.tokenExpiresAt && this.refreshToken) {
-      const now = new Date();
-      const bufferTime = 5 * 60 * 1000; // 5 minutes in milliseconds
-      
-      if (now.getTime() >= this.tokenExpiresAt.getTime() - bufferTime) {
-        await this.refreshAccessToken();
-      }
+    if (this.isTokenExpiring() && this.refreshToken) {
+      await this.refreshAccessToken();
     }
 
     return this.accessToken!;
@@ -184,10 +224,11 @@ export class OAuth2Client {
   /**
    * Set tokens manually (useful for restoring session)
    */
-  setTokens(tokens: { accessToken: string; refreshToken?: string; expiresAt?: Date }): void {
+  async setTokens(tokens: { accessToken: string; refreshToken?: string; expiresAt?: Date }): Promise<void> {
     this.accessToken = tokens.accessToken;
     this.refreshToken = tokens.refreshToken;
     this.tokenExpiresAt = tokens.expiresAt;
+    await this.tokenStore.set(this.getTokens());
   }
 
   /**
@@ -201,6 +242,184 @@ export class OAuth2Client {
     };
   }
 
+  private buildAuthorizationUrl(
+    scopes: OAuthScope[],
+    redirectUri?: string,
+    state?: string,
+    codeChallenge?: string
+  ): string {
+    const params = new URLSearchParams({
+      client_id: this.config.clientId,
+      response_type: 'code',
+      scope: scopes.join(' '),
+    });
+
+    // Without a redirect URI, LearnWorlds falls back to the one registered for the client
+    if (redirectUri) {
+      params.append('redirect_uri', redirectUri);
+    }
+
+    if (state) {
+      params.append('state', state);
+    }
+
+    if (codeChallenge) {
+      params.append('code_challenge', codeChallenge);
+      params.append('code_challenge_method', 'S256');
+    }
+
+    return `https://${this.config.schoolDomain}.learnworlds.com/oauth2/authorize?${params.toString()}`;
+  }
+
+  private parseCallback(request: AuthorizationCallbackRequest): AuthorizationCodeRequest {
+    // Relative URLs (such as Express' `req.url`) only need their query string
+    const { searchParams } = new URL(request.callbackUrl, 'http://localhost');
+
+    // Checked first, so a forged callback cannot surface a provider error of its choosing
+    const state = searchParams.get('state');
+    if (!request.state || !state || !timingSafeEqual(state, request.state)) {
+      throw new OAuthError('Authorization state does not match the stored state', { error: 'invalid_state' });
+    }
+
+    const error = searchParams.get('error');
+    if (error) {
+      const description = searchParams.get('error_description') ?? undefined;
+      throw new OAuthError(description || error, {
+        error,
+        error_description: description,
+        error_uri: searchParams.get('error_uri') ?? undefined,
+      });
+    }
+
+    const code = searchParams.get('code');
+    if (!code) {
+      throw new OAuthError('Authorization callback is missing the code parameter', { error: 'invalid_request' });
+    }
+
+    return { code, redirectUri: request.redirectUri, codeVerifier: request.codeVerifier };
+  }
+
+  private isTokenExpiring(): boolean {
+    return !!this.tokenExpiresAt && Date.now() >= this.tokenExpiresAt.getTime() - EXPIRY_BUFFER_MS;
+  }
+
+  private async loadTokens(): Promise<StoredTokens | undefined> {
+    const stored = await this.tokenStore.get();
+
+    if (stored?.accessToken) {
+      this.accessToken = stored.accessToken;
+      this.refreshToken = stored.refreshToken;
+      this.tokenExpiresAt = stored.expiresAt;
+    }
+
+    return stored;
+  }
+
+  private async runRefresh(): Promise<TokenResponse> {
+    const previousAccessToken = this.accessToken;
+
+    const refresh = async (): Promise<TokenResponse> => {
+      // When sharing a store, another process may have refreshed while we waited for the lock
+      if (this.tokenStore.lock) {
+        const stored = await this.loadTokens();
+
+        if (stored?.accessToken && stored.accessToken !== previousAccessToken) {
+          return {
+            access_token: stored.accessToken,
+            token_type: 'Bearer',
+            expires_in: stored.expiresAt ? Math.floor((stored.expiresAt.getTime() - Date.now()) / 1000) : 0,
+            refresh_token: stored.refreshToken,
+          };
+        }
+      }
+
+      if (!this.refreshToken) {
+        throw new Error('No refresh token available');
+      }
+
+      const params = new URLSearchParams({
+        grant_type: 'refresh_token',
+        refresh_token: this.refreshToken,
+        client_id: this.config.clientId,
+        client_secret: this.config.clientSecret,
+      });
+
+      let response: TokenResponse;
+      try {
+        response = await this.post<TokenResponse>('/oauth2/token', params);
+      } catch (error) {
+        this.telemetry?.recordTokenRefresh('failure', this.host);
+        throw error;
+      }
+      this.telemetry?.recordTokenRefresh('success', this.host);
+
+      await this.handleTokenResponse(response);
+      return response;
+    };
+
+    return this.tokenStore.lock ? this.tokenStore.lock(refresh) : refresh();
+  }
+
+  private get host(): string {
+    return `${this.config.schoolDomain}.learnworlds.com`;
+  }
+
+  private async post<T>(endpoint: string, params: URLSearchParams): Promise<T> {
+    const send = async (outcome?: CallOutcome): Promise<T> => {
+      let response: TransportResponse;
+      try {
+        response = await this.transport.send({
+          method: 'POST',
+          url: `${this.baseUrl}${endpoint}`,
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+          body: params.toString(),
+        });
+      } catch (error) {
+        throw new NetworkError('Network error - unable to reach OAuth server', {
+          method: 'POST',
+          url: endpoint,
+          cause: error,
+        });
+      }
+
+      if (response.status < 200 || response.status >= 300) {
+        throw this.toOAuthError(response, endpoint);
+      }
+      if (outcome) {
+        outcome.status = response.status;
+      }
+      return response.data as T;
+    };
+
+    if (!this.telemetry) {
+      return send();
+    }
+
+    const operation = `oauth.${params.get('grant_type') ?? 'revoke'}`;
+    return this.telemetry.trace(
+      `learnworlds.${operation}`,
+      { operation, method: 'POST', route: endpoint, host: this.host },
+      send
+    );
+  }
+
+  private toOAuthError(response: TransportResponse, endpoint: string): OAuthError {
+    const body = (response.data ?? {}) as { error?: string; error_description?: string; error_uri?: string };
+
+    const message = body.error_description || body.error || `OAuth request failed with status ${response.status}`;
+
+    return new OAuthError(message, {
+      method: 'POST',
+      url: endpoint,
+      status: response.status,
+      details: response.data,
+      requestId: getHeader(response.headers, 'x-request-id'),
+      error: body.error,
+      error_description: body.error_description,
+      error_uri: body.error_uri,
+    });
+  }
+
   private async handleTokenResponse(response: TokenResponse): Promise<void> {
     this.accessToken = response.access_token;
     
@@ -214,6 +433,8 @@ export class OAuth2Client {
       this.tokenExpiresAt = expiresAt;
     }
 
+    await this.tokenStore.set(this.getTokens());
+
     // Call the callback if provided
     if (this.config.onTokenRefresh) {
       await this.config.onTokenRefresh(response);
@@ -0,0 +1,121 @@
+import { ApiResponse, IterateOptions, Page, PaginationParams, RequestOptions } from './types.js';
+
+/**
+ * Build a typed page from a list response envelope.
+ * Falls back to the request params when the API omits `meta`.
+ */
+export function toPage<T>(response: ApiResponse<T[]>, params: PaginationParams = {}): Page<T> {
+  const data = response.data ?? [];
+
+  if (response.meta) {
+    return {
+      data,
+      meta: response.meta,
+      hasNextPage: response.meta.page < response.meta.totalPages,
+    };
+  }
+
+  const page = params.page ?? 1;
+  const itemsPerPage = params.per_page ?? data.length;
+  const hasNextPage = params.per_page !== undefined && data.length > 0 && data.length >= params.per_page;
+
+  return {
+    data,
+    meta: {
+      page,
+      itemsPerPage,
+      totalItems: (page - 1) * itemsPerPage + data.length,
+      totalPages: hasNextPage ? page + 1 : page,
+    },
+    hasNextPage,
+  };
+}
+
+/**
+ * Iterate over every item of a paginated endpoint, fetching pages lazily.
+ * The next page is only requested once the current one has been consumed,
+ * so breaking out of the loop or reaching `maxItems` never triggers an extra request.
+ */
+export async function* paginate<T, P extends PaginationParams = PaginationParams>(
+  fetchPage: (params: P) => Promise<Page<T>>,
+  options: P & IterateOptions = {} as P & IterateOptions
+): AsyncGenerator<T, void, undefined> {
+  const { maxItems, ...params } = options;
+
+  if (maxItems !== undefined && maxItems <= 0) {
+    return;
+  }
+
+  let page = params.page ?? 1;
+  let yielded = 0;
+
+  while (true) {
+    const result = await fetchPage({ ...params, page } as P);
+
+    for (const item of result.data) {
+      yield item;
+      yielded++;
+
+      if (maxItems !== undefined && yielded >= maxItems) {
+        return;
+      }
+    }
+
+    if (!result.hasNextPage || result.data.length === 0) {
+      return;
+    }
+
+    page = result.meta.page + 1;
+  }
+}
+
+/**
+ * A list endpoint exposed as single pages or as an async iterator
+ */
+export class PaginatedResource<T, P extends PaginationParams = PaginationParams> {
+  constructor(private readonly fetchPage: (params: P, options?: RequestOptions) => Promise<Page<T>>) {}
+
+  /**
+   * Fetch a single page together with its pagination metadata
+   */
+  list(params?: P, options?: RequestOptions): Promise<Page<T>> {
+    return this.fetchPage(params ?? ({} as P), options);
+  }
+
+  /**
+   * Iterate over all items, following the pagination metadata. `requestOptions` apply to every page.
+   */
+  iterate(options?: P & IterateOptions, requestOptions?: RequestOptions): AsyncGenerator<T, void, undefined> {
+    const fetchPage = requestOptions
+      ? (params: P): Promise<Page<T>> => this.fetchPage(params, requestOptions)
+      : this.fetchPage;
+    return paginate<T, P>(fetchPage, options);
+  }
+}
+
+/**
+ * A list endpoint nested under a parent resource (e.g. a user's enrollments)
+ */
+export class ScopedPaginatedResource<T, P extends PaginationParams = PaginationParams> {
+  constructor(
+    private readonly fetchPage: (parentId: string, params: P, options?: RequestOptions) => Promise<Page<T>>
+  ) {}
+
+  /**
+   * Fetch a single page for the given parent resource
+   */
+  list(parentId: string, params?: P, options?: RequestOptions): Promise<Page<T>> {
+    return this.fetchPage(parentId, params ?? ({} as P), options);
+  }
+
+  /**
+   * Iterate over all items for the given parent resource. `requestOptions` apply to every page.
+   */
+  iterate(
+    parentId: string,
+    options?: P & IterateOptions,
+    requestOptions?: RequestOptions
+  ): AsyncGenerator<T, void, undefined> {
+    return paginate<T, P>((params) => this.fetchPage(parentId, params, requestOptions), options);
+  }
+}
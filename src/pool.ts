@@ -0,0 +1,193 @@
+import { LearnWorldsClient } from './client.js';
+import { LearnWorldsConfig, User } from './types.js';
+import { LearnWorldsApiError } from './errors.js';
+import { runBulk } from './bulk.js';
+
+export type SchoolResolver = (schoolId: string) => LearnWorldsConfig | Promise<LearnWorldsConfig>;
+
+export interface ClientPoolOptions {
+  /** Returns the config (domain, API host, credentials, token store) for a school */
+  resolve: SchoolResolver;
+  /** Known school IDs, used by the cross-school helpers when no list is passed */
+  schools?: string[] | (() => string[] | Promise<string[]>);
+  /** Evict clients that have not been used for this long (default: 10 minutes) */
+  idleTimeoutMs?: number;
+  /** Maximum number of live clients; the least recently used one is evicted first (default: unlimited) */
+  maxClients?: number;
+  /** Called once for every new client, e.g. to authenticate it */
+  onCreate?: (client: LearnWorldsClient, schoolId: string) => void | Promise<void>;
+  /** Called when a client is evicted */
+  onEvict?: (client: LearnWorldsClient, schoolId: string) => void;
+}
+
+export interface CrossSchoolOptions {
+  /** Schools to query (default: the pool's `schools` option) */
+  schools?: string[];
+  /** Maximum number of schools queried at once (default: 5) */
+  concurrency?: number;
+}
+
+export type SchoolResult<T> =
+  | { status: 'fulfilled'; schoolId: string; value: T }
+  | { status: 'rejected'; schoolId: string; error: LearnWorldsApiError };
+
+interface PoolEntry {
+  client: Promise<LearnWorldsClient>;
+  lastUsed: number;
+}
+
+/**
+ * Lazily creates and caches one `LearnWorldsClient` per school.
+ * Every client keeps its own tokens, and its own rate budget as long as schools use distinct API hosts.
+ */
+export class LearnWorldsClientPool {
+  private entries = new Map<string, PoolEntry>();
+  private idleTimeoutMs: number;
+
+  constructor(private readonly options: ClientPoolOptions) {
+    this.idleTimeoutMs = options.idleTimeoutMs ?? 10 * 60 * 1000;
+  }
+
+  /** Number of live clients */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Get the client for a school, creating it on first use
+   */
+  get(schoolId: string): Promise<LearnWorldsClient> {
+    this.evictIdle();
+
+    const existing = this.entries.get(schoolId);
+    if (existing) {
+      existing.lastUsed = Date.now();
+      // Re-insert so the map stays ordered from least to most recently used
+      this.entries.delete(schoolId);
+      this.entries.set(schoolId, existing);
+      return existing.client;
+    }
+
+    const client = this.createClient(schoolId);
+    this.entries.set(schoolId, { client, lastUsed: Date.now() });
+    // A failed resolve or onCreate should not be cached
+    client.catch(() => {
+      if (this.entries.get(schoolId)?.client === client) {
+        this.entries.delete(schoolId);
+      }
+    });
+
+    this.enforceLimit();
+    return client;
+  }
+
+  has(schoolId: string): boolean {
+    return this.entries.has(schoolId);
+  }
+
+  /**
+   * Drop the client of a school; the next `get` creates a new one
+   */
+  evict(schoolId: string): boolean {
+    const entry = this.entries.get(schoolId);
+    if (!entry) {
+      return false;
+    }
+
+    this.entries.delete(schoolId);
+    entry.client
+      .then((client) => {
+        client.close();
+        this.options.onEvict?.(client, schoolId);
+      })
+      .catch(() => undefined);
+    return true;
+  }
+
+  /**
+   * Drop every client idle for longer than `idleTimeoutMs`. Runs automatically on `get`.
+   */
+  evictIdle(now = Date.now()): string[] {
+    const evicted: string[] = [];
+
+    for (const [schoolId, entry] of this.entries) {
+      if (now - entry.lastUsed > this.idleTimeoutMs) {
+        this.evict(schoolId);
+        evicted.push(schoolId);
+      }
+    }
+
+    return evicted;
+  }
+
+  clear(): void {
+    for (const schoolId of [...this.entries.keys()]) {
+      this.evict(schoolId);
+    }
+  }
+
+  /**
+   * Run a task against several schools. Never rejects: every school gets a
+   * fulfilled or rejected entry, in the order of the school list.
+   */
+  async forEachSchool<T>(
+    task: (client: LearnWorldsClient, schoolId: string) => Promise<T>,
+    options: CrossSchoolOptions = {}
+  ): Promise<Array<SchoolResult<T>>> {
+    const schools = options.schools ?? (await this.listSchools());
+    const results = await runBulk(schools, async (schoolId) => task(await this.get(schoolId), schoolId), {
+      concurrency: options.concurrency,
+    });
+
+    return results.map((result) =>
+      result.status === 'fulfilled'
+        ? { status: 'fulfilled', schoolId: result.input, value: result.value }
+        : { status: 'rejected', schoolId: result.input, error: result.error }
+    );
+  }
+
+  /**
+   * Look up a user by email in every school. Schools without a match resolve to `undefined`.
+   */
+  findUserByEmail(email: string, options?: CrossSchoolOptions): Promise<Array<SchoolResult<User | undefined>>> {
+    return this.forEachSchool((client) => client.findUserByEmail(email), options);
+  }
+
+  private async createClient(schoolId: string): Promise<LearnWorldsClient> {
+    const client = new LearnWorldsClient(await this.options.resolve(schoolId));
+    try {
+      await this.options.onCreate?.(client, schoolId);
+    } catch (error) {
+      // The client is discarded, so it must not keep its share of the rate limiter
+      client.close();
+      throw error;
+    }
+    return client;
+  }
+
+  private enforceLimit(): void {
+    const { maxClients } = this.options;
+    if (!maxClients) {
+      return;
+    }
+
+    for (const schoolId of this.entries.keys()) {
+      if (this.entries.size <= maxClients) {
+        break;
+      }
+      this.evict(schoolId);
+    }
+  }
+
+  private async listSchools(): Promise<string[]> {
+    const { schools } = this.options;
+
+    if (!schools) {
+      throw new LearnWorldsApiError('No schools given; pass `schools` to the pool or the call', {
+        code: 'NO_SCHOOLS',
+      });
+    }
+
+    return typeof schools === 'function' ? schools() : schools;
+  }
+}
@@ -0,0 +1,185 @@
+import { RateLimiterOptions, RequestPriority } from './types.js';
+import { getHeader, parseRateLimitReset, parseRetryAfter } from './retry.js';
+
+type Release = () => void;
+
+const PRIORITIES: RequestPriority[] = ['high', 'normal', 'low'];
+
+/**
+ * Token bucket scheduler that limits both the request rate and the number of
+ * in-flight requests. Waiting requests are served by priority lane first,
+ * then in arrival order.
+ */
+export class RateLimiter {
+  /** Shared limiters with the number of clients using each */
+  private static registry = new Map<string, { limiter: RateLimiter; clients: number }>();
+
+  private requestsPerWindow: number;
+  private windowMs: number;
+  private maxConcurrency: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private active = 0;
+  private queues: Record<RequestPriority, Array<(release: Release) => void>> = {
+    high: [],
+    normal: [],
+    low: [],
+  };
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.requestsPerWindow = options.requestsPerWindow ?? 30;
+    this.windowMs = options.windowMs ?? 10000;
+    this.maxConcurrency = options.maxConcurrency ?? 10;
+    this.tokens = this.requestsPerWindow;
+  }
+
+  /**
+   * Get the limiter shared by every client pointing at the same API host.
+   * Options only apply when the limiter is created. Pair every call with `releaseHost`.
+   */
+  static forHost(apiHost: string, options?: RateLimiterOptions): RateLimiter {
+    let entry = RateLimiter.registry.get(apiHost);
+
+    if (!entry) {
+      entry = { limiter: new RateLimiter(options), clients: 0 };
+      RateLimiter.registry.set(apiHost, entry);
+    }
+
+    entry.clients++;
+    return entry.limiter;
+  }
+
+  /**
+   * Give back a limiter from `forHost`. It is dropped once no client uses it,
+   * so the next `forHost` call for the host creates a new one.
+   */
+  static releaseHost(apiHost: string): void {
+    const entry = RateLimiter.registry.get(apiHost);
+
+    if (entry && --entry.clients <= 0) {
+      RateLimiter.registry.delete(apiHost);
+    }
+  }
+
+  /**
+   * Wait for a free slot. The returned function must be called once the request completes.
+   */
+  acquire(priority: RequestPriority = 'normal'): Promise<Release> {
+    return new Promise((resolve) => {
+      this.queues[priority].push(resolve);
+      this.drain();
+    });
+  }
+
+  /**
+   * Run a task once a slot is available
+   */
+  async schedule<T>(task: () => Promise<T>, priority: RequestPriority = 'normal'): Promise<T> {
+    const release = await this.acquire(priority);
+    try {
+      return await task();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Adapt to the rate limit reported by the server. A 429 or an exhausted
+   * quota pauses the limiter until the window resets.
+   */
+  updateFromHeaders(headers: Record<string, unknown> | undefined, status?: number): void {
+    this.refill();
+
+    const limit = Number(getHeader(headers, 'x-ratelimit-limit'));
+    if (limit > 0 && limit !== this.requestsPerWindow) {
+      this.requestsPerWindow = limit;
+      this.tokens = Math.min(this.tokens, limit);
+    }
+
+    const remaining = Number(getHeader(headers, 'x-ratelimit-remaining') ?? NaN);
+    if (!Number.isNaN(remaining)) {
+      this.tokens = Math.min(this.tokens, remaining);
+    }
+
+    const retryAfter = status === 429 ? parseRetryAfter(getHeader(headers, 'retry-after')) : undefined;
+    const pause = retryAfter ?? parseRateLimitReset(headers);
+
+    if (pause !== undefined) {
+      this.pausedUntil = Math.max(this.pausedUntil, Date.now() + pause);
+    } else if (status === 429) {
+      this.tokens = 0;
+    }
+
+    this.drain();
+  }
+
+  /**
+   * Number of requests waiting for a slot
+   */
+  get pending(): number {
+    return PRIORITIES.reduce((total, priority) => total + this.queues[priority].length, 0);
+  }
+
+  /**
+   * Number of requests currently holding a slot
+   */
+  get inFlight(): number {
+    return this.active;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const elapsed = now - this.lastRefill;
+    this.lastRefill = now;
+    this.tokens = Math.min(this.requestsPerWindow, this.tokens + (elapsed * this.requestsPerWindow) / this.windowMs);
+  }
+
+  private drain(): void {
+    this.refill();
+
+    while (this.active < this.maxConcurrency && this.pending > 0) {
+      const now = Date.now();
+
+      if (now < this.pausedUntil) {
+        this.scheduleDrain(this.pausedUntil - now);
+        return;
+      }
+
+      if (this.tokens < 1) {
+        this.scheduleDrain(((1 - this.tokens) * this.windowMs) / this.requestsPerWindow);
+        return;
+      }
+
+      const next = PRIORITIES.map((priority) => this.queues[priority]).find((queue) => queue.length > 0)!.shift()!;
+      this.tokens -= 1;
+      this.active++;
+      next(this.createRelease());
+    }
+  }
+
+  private scheduleDrain(delay: number): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.drain();
+    }, Math.ceil(delay));
+  }
+
+  private createRelease(): Release {
+    let released = false;
+
+    return () => {
+      if (released) {
+        return;
+      }
+      released = true;
+      this.active--;
+      this.drain();
+    };
+  }
+}
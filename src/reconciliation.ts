@@ -0,0 +1,46 @@
+import { Enrollment, Payment, PaymentMatch, PaymentReconciliation } from './types.js';
+
+function productKey(record: Pick<Payment, 'product_id' | 'product_type'>): string {
+  return `${record.product_type}:${record.product_id}`;
+}
+
+/**
+ * Join one user's payments with their enrollments by product. Only succeeded payments count
+ * as paid; subscription payments are left out, since they do not map onto one enrollment.
+ */
+export function reconcilePayments(
+  userId: string,
+  payments: Payment[],
+  enrollments: Enrollment[]
+): PaymentReconciliation {
+  const paymentsByProduct = new Map<string, Payment[]>();
+  for (const payment of payments) {
+    if (payment.status !== 'succeeded' || payment.product_type === 'subscription') {
+      continue;
+    }
+    const key = productKey(payment);
+    paymentsByProduct.set(key, [...(paymentsByProduct.get(key) ?? []), payment]);
+  }
+
+  const matched: PaymentMatch[] = [];
+  const unpaidEnrollments: Enrollment[] = [];
+  const enrolledProducts = new Set<string>();
+
+  for (const enrollment of enrollments) {
+    const key = productKey(enrollment);
+    enrolledProducts.add(key);
+
+    const paid = paymentsByProduct.get(key);
+    if (paid) {
+      matched.push({ enrollment, payments: paid });
+    } else if (enrollment.enrollment_type === 'paid') {
+      unpaidEnrollments.push(enrollment);
+    }
+  }
+
+  const unmatchedPayments = [...paymentsByProduct]
+    .filter(([key]) => !enrolledProducts.has(key))
+    .flatMap(([, paid]) => paid);
+
+  return { user_id: userId, matched, unpaidEnrollments, unmatchedPayments };
+}
@@ -0,0 +1,290 @@
+import {
+  CreateCouponRequest,
+  CreateUserRequest,
+  EnrollUserRequest,
+  FieldError,
+  PasswordRules,
+  UnenrollUserRequest,
+  UpdateCouponRequest,
+  UpdateUserRequest,
+  UpdateUserTagsRequest,
+} from './types.js';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const ISO_DATE_PATTERN =
+  /^(\d{4})-(\d{2})-(\d{2})(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const PRODUCT_TYPES = ['course', 'bundle'];
+const ENROLLMENT_TYPES = ['free', 'paid'];
+const TAG_ACTIONS = ['add', 'remove', 'replace'];
+const DISCOUNT_TYPES = ['percentage', 'fixed'];
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+const COUPON_CODE_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Check whether a value looks like an email address. Deliverability is left to the API.
+ */
+export function isEmail(value: unknown): value is string {
+  return typeof value === 'string' && EMAIL_PATTERN.test(value.trim());
+}
+
+/**
+ * Check whether a value is an ISO-8601 date or date-time string for a day that exists
+ */
+export function isIsoDate(value: unknown): value is string {
+  const match = typeof value === 'string' ? ISO_DATE_PATTERN.exec(value) : null;
+  if (!match || Number.isNaN(Date.parse(value as string))) {
+    return false;
+  }
+
+  // Date.parse rolls 2024-02-30 over into March, so the day is checked separately
+  const [year, month, day] = match.slice(1, 4).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Collects field errors for one payload, in the shape `parseFieldErrors` produces for 422 responses
+ */
+class FieldErrors {
+  readonly errors: FieldError[] = [];
+
+  constructor(private readonly payload: Record<string, unknown>) {}
+
+  add(field: string, code: string, message: string): void {
+    this.errors.push({ field, message, code });
+  }
+
+  /** Require a non-empty string */
+  required(field: string): void {
+    const value = this.payload[field];
+    if (value === undefined || value === null || value === '') {
+      this.add(field, 'required', `The ${field} field is required.`);
+    } else if (typeof value !== 'string') {
+      this.add(field, 'invalid_type', `The ${field} must be a string.`);
+    }
+  }
+
+  string(field: string): void {
+    const value = this.payload[field];
+    if (value !== undefined && typeof value !== 'string') {
+      this.add(field, 'invalid_type', `The ${field} must be a string.`);
+    }
+  }
+
+  boolean(field: string): void {
+    const value = this.payload[field];
+    if (value !== undefined && typeof value !== 'boolean') {
+      this.add(field, 'invalid_type', `The ${field} must be true or false.`);
+    }
+  }
+
+  object(field: string): void {
+    const value = this.payload[field];
+    if (value !== undefined && (value === null || typeof value !== 'object' || Array.isArray(value))) {
+      this.add(field, 'invalid_type', `The ${field} must be an object.`);
+    }
+  }
+
+  oneOf(field: string, values: string[], required: boolean): void {
+    const value = this.payload[field];
+    if (value === undefined && !required) {
+      return;
+    }
+    if (!values.includes(value as string)) {
+      this.add(field, 'invalid_value', `The ${field} must be one of: ${values.join(', ')}.`);
+    }
+  }
+
+  email(field: string): void {
+    const value = this.payload[field];
+    if (typeof value === 'string' && value !== '' && !isEmail(value)) {
+      this.add(field, 'invalid_email', `The ${field} must be a valid email address.`);
+    }
+  }
+
+  date(field: string): void {
+    const value = this.payload[field];
+    if (value !== undefined && value !== null && !isIsoDate(value)) {
+      this.add(field, 'invalid_date', `The ${field} must be an ISO-8601 date.`);
+    }
+  }
+
+  number(field: string, { min, max, integer = false }: { min?: number; max?: number; integer?: boolean }): void {
+    const value = this.payload[field];
+    if (value === undefined) {
+      return;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || (integer && !Number.isInteger(value))) {
+      this.add(field, 'invalid_type', `The ${field} must be ${integer ? 'an integer' : 'a number'}.`);
+    } else if (min !== undefined && value < min) {
+      this.add(field, 'too_small', `The ${field} must be at least ${min}.`);
+    } else if (max !== undefined && value > max) {
+      this.add(field, 'too_large', `The ${field} may not be greater than ${max}.`);
+    }
+  }
+
+  /** An array of non-empty strings, such as tags or IDs */
+  list(field: string, allowEmpty: boolean): void {
+    const value = this.payload[field];
+    if (value === undefined) {
+      return;
+    }
+    if (!Array.isArray(value)) {
+      this.add(field, 'invalid_type', `The ${field} must be an array of strings.`);
+      return;
+    }
+    if (value.length === 0 && !allowEmpty) {
+      this.add(field, 'required', `The ${field} must contain at least one item.`);
+    }
+    value.forEach((tag, index) => {
+      if (typeof tag !== 'string' || tag.trim() === '') {
+        this.add(`${field}.${index}`, 'invalid_value', `The ${field}.${index} must be a non-empty string.`);
+      }
+    });
+  }
+
+  password(field: string, rules: PasswordRules): void {
+    const value = this.payload[field];
+    if (value === undefined) {
+      return;
+    }
+    if (typeof value !== 'string') {
+      this.add(field, 'invalid_type', `The ${field} must be a string.`);
+      return;
+    }
+
+    const { minLength = 8, maxLength, requireLowercase, requireUppercase, requireDigit, requireSymbol } = rules;
+    if (value.length < minLength) {
+      this.add(field, 'too_short', `The ${field} must be at least ${minLength} characters.`);
+    }
+    if (maxLength !== undefined && value.length > maxLength) {
+      this.add(field, 'too_long', `The ${field} may not be greater than ${maxLength} characters.`);
+    }
+    const missing = [
+      requireLowercase && !/[a-z]/.test(value) && 'a lowercase letter',
+      requireUppercase && !/[A-Z]/.test(value) && 'an uppercase letter',
+      requireDigit && !/\d/.test(value) && 'a digit',
+      requireSymbol && !/[^A-Za-z0-9]/.test(value) && 'a symbol',
+    ].filter((rule): rule is string => !!rule);
+    if (missing.length > 0) {
+      this.add(field, 'weak_password', `The ${field} must contain ${missing.join(', ')}.`);
+    }
+  }
+}
+
+function collect(payload: unknown, check: (fields: FieldErrors) => void): FieldError[] {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return [{ field: 'base', message: 'The request body must be an object.', code: 'invalid_type' }];
+  }
+
+  const fields = new FieldErrors(payload as Record<string, unknown>);
+  check(fields);
+  return fields.errors;
+}
+
+export function validateCreateUserRequest(data: CreateUserRequest, passwordRules: PasswordRules = {}): FieldError[] {
+  return collect(data, (fields) => {
+    fields.required('email');
+    fields.email('email');
+    ['first_name', 'last_name', 'username', 'bio'].forEach((field) => fields.string(field));
+    fields.password('password', passwordRules);
+    fields.list('tags', true);
+    fields.object('custom_fields');
+    fields.boolean('send_welcome_email');
+  });
+}
+
+export function validateUpdateUserRequest(data: UpdateUserRequest): FieldError[] {
+  return collect(data, (fields) => {
+    ['first_name', 'last_name', 'username', 'bio'].forEach((field) => fields.string(field));
+    fields.object('custom_fields');
+    fields.boolean('is_active');
+  });
+}
+
+/**
+ * The API rejects an empty tag list for every action, including `replace`
+ */
+export function validateUpdateUserTagsRequest(data: UpdateUserTagsRequest): FieldError[] {
+  return collect(data, (fields) => {
+    fields.oneOf('action', TAG_ACTIONS, true);
+    if (data.tags === undefined) {
+      fields.add('tags', 'required', 'The tags field is required.');
+    }
+    fields.list('tags', false);
+  });
+}
+
+export function validateEnrollUserRequest(data: EnrollUserRequest): FieldError[] {
+  return collect(data, (fields) => {
+    fields.required('user_id');
+    fields.required('product_id');
+    fields.oneOf('product_type', PRODUCT_TYPES, true);
+    fields.oneOf('enrollment_type', ENROLLMENT_TYPES, false);
+    fields.date('expires_at');
+  });
+}
+
+export function validateUnenrollUserRequest(data: UnenrollUserRequest): FieldError[] {
+  return collect(data, (fields) => {
+    fields.required('user_id');
+    fields.required('product_id');
+    fields.oneOf('product_type', PRODUCT_TYPES, true);
+  });
+}
+
+function checkCouponFields(fields: FieldErrors, data: Partial<CreateCouponRequest>): void {
+  fields.string('description');
+  fields.number('usage_limit', { min: 1, integer: true });
+  fields.number('usage_limit_per_user', { min: 1, integer: true });
+  fields.number('minimum_amount', { min: 0 });
+  fields.date('valid_from');
+  fields.date('valid_until');
+  // Compared as instants, since the two dates may use different offsets
+  const { valid_from: from, valid_until: until } = data;
+  if (isIsoDate(from) && isIsoDate(until) && Date.parse(until) <= Date.parse(from)) {
+    fields.add('valid_until', 'invalid_value', 'The valid_until must be a date after valid_from.');
+  }
+  fields.list('course_ids', true);
+  fields.list('bundle_ids', true);
+  fields.boolean('is_active');
+}
+
+/**
+ * Percentage discounts go up to 100; fixed discounts need an ISO 4217 currency
+ */
+export function validateCreateCouponRequest(data: CreateCouponRequest): FieldError[] {
+  return collect(data, (fields) => {
+    fields.required('code');
+    if (typeof data.code === 'string' && data.code !== '' && !COUPON_CODE_PATTERN.test(data.code)) {
+      fields.add('code', 'invalid_value', 'The code may only contain letters, digits, dashes and underscores.');
+    }
+    fields.oneOf('discount_type', DISCOUNT_TYPES, true);
+    if (data.discount_value === undefined) {
+      fields.add('discount_value', 'required', 'The discount_value field is required.');
+    }
+    fields.number('discount_value', { min: 0, max: data.discount_type === 'percentage' ? 100 : undefined });
+    if (data.discount_type === 'fixed') {
+      fields.required('currency');
+    }
+    const { currency } = data as { currency?: unknown };
+    if (typeof currency === 'string' && currency !== '' && !CURRENCY_PATTERN.test(currency)) {
+      fields.add('currency', 'invalid_value', 'The currency must be a three-letter ISO 4217 code.');
+    }
+    checkCouponFields(fields, data);
+  });
+}
+
+/**
+ * The discount kind of an existing coupon is not known here, so percentages are not capped
+ */
+export function validateUpdateCouponRequest(data: UpdateCouponRequest): FieldError[] {
+  return collect(data, (fields) => {
+    fields.number('discount_value', { min: 0 });
+    if (data.currency !== undefined && !CURRENCY_PATTERN.test(data.currency)) {
+      fields.add('currency', 'invalid_value', 'The currency must be a three-letter ISO 4217 code.');
+    }
+    checkCouponFields(fields, data);
+  });
+}
@@ -0,0 +1,157 @@
+import { HttpMethod, RetryOptions } from './types.js';
+
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+type Headers = Record<string, unknown> | undefined;
+
+/**
+ * Read a header value regardless of the casing used by the sender
+ */
+export function getHeader(headers: Headers, name: string): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  const lowerName = name.toLowerCase();
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === lowerName && value !== undefined && value !== null) {
+      return String(value);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse a `Retry-After` header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | undefined, now = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - now);
+  }
+
+  return undefined;
+}
+
+/**
+ * Milliseconds until the rate limit window resets, when the quota is exhausted.
+ * `X-RateLimit-Reset` may be sent either as epoch seconds or as seconds until reset.
+ */
+export function parseRateLimitReset(headers: Headers, now = Date.now()): number | undefined {
+  const remaining = getHeader(headers, 'x-ratelimit-remaining');
+  const reset = Number(getHeader(headers, 'x-ratelimit-reset'));
+
+  if (remaining === undefined || Number(remaining) > 0 || !reset) {
+    return undefined;
+  }
+
+  // Values this large can only be a unix timestamp
+  if (reset > 1e9) {
+    return Math.max(0, reset * 1000 - now);
+  }
+
+  return reset * 1000;
+}
+
+/**
+ * Wait for `ms` milliseconds, or reject with the abort reason as soon as `signal` aborts
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Decides whether a failed request should be retried and how long to wait before doing so
+ */
+export class RetryPolicy {
+  readonly maxAttempts: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private jitter: NonNullable<RetryOptions['jitter']>;
+  private retryOnStatus: number[];
+  private retryOnMethods: HttpMethod[];
+  private retryOnNetworkError: boolean;
+
+  constructor(options: RetryOptions = {}) {
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.baseDelayMs = options.baseDelayMs ?? 500;
+    this.maxDelayMs = options.maxDelayMs ?? 30000;
+    this.jitter = options.jitter ?? 'full';
+    this.retryOnStatus = options.retryOnStatus ?? [408, 429, 500, 502, 503, 504];
+    this.retryOnMethods = options.retryOnMethods ?? ['GET', 'PUT', 'DELETE'];
+    this.retryOnNetworkError = options.retryOnNetworkError ?? true;
+  }
+
+  /**
+   * Check if a request that failed on the given attempt (1-based) may be sent again.
+   * `status` is undefined when no response was received.
+   */
+  shouldRetry(attempt: number, method: string | undefined, requestHeaders: Headers, status?: number): boolean {
+    if (attempt >= this.maxAttempts) {
+      return false;
+    }
+
+    const normalizedMethod = (method || 'GET').toUpperCase() as HttpMethod;
+    const isRetryableMethod =
+      this.retryOnMethods.includes(normalizedMethod) || !!getHeader(requestHeaders, IDEMPOTENCY_KEY_HEADER);
+
+    if (!isRetryableMethod) {
+      return false;
+    }
+
+    if (status === undefined) {
+      return this.retryOnNetworkError;
+    }
+
+    return this.retryOnStatus.includes(status);
+  }
+
+  /**
+   * Delay before the next attempt. Server hints (`Retry-After`, exhausted rate limit)
+   * take precedence over the exponential backoff.
+   */
+  getDelay(attempt: number, responseHeaders?: Headers): number {
+    const serverDelay =
+      parseRetryAfter(getHeader(responseHeaders, 'retry-after')) ?? parseRateLimitReset(responseHeaders);
+
+    if (serverDelay !== undefined) {
+      return Math.min(serverDelay, this.maxDelayMs);
+    }
+
+    const backoff = Math.min(this.baseDelayMs * 2 ** (attempt - 1), this.maxDelayMs);
+
+    switch (this.jitter) {
+      case 'full':
+        return Math.random() * backoff;
+      case 'equal':
+        return backoff / 2 + Math.random() * (backoff / 2);
+      default:
+        return backoff;
+    }
+  }
+}
@@ -0,0 +1,419 @@
+import {
+  Bundle,
+  Certificate,
+  Coupon,
+  Course,
+  CourseContents,
+  Enrollment,
+  Invoice,
+  LearningUnit,
+  LearningUnitProgress,
+  LineItem,
+  Order,
+  Payment,
+  Section,
+  Subscription,
+  User,
+  UserCourseProgress,
+  UserCourseProgressSummary,
+  UserGrade,
+  ValidationIssue,
+  WithDates,
+} from './types.js';
+
+interface ValidationContext {
+  issues: ValidationIssue[];
+  parseDates: boolean;
+}
+
+/**
+ * Runtime description of a response type. `check` records mismatches
+ * instead of throwing, so every problem in a response is reported at once.
+ */
+export interface Schema<T> {
+  readonly expected: string;
+  check(value: unknown, path: string, context: ValidationContext): T;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function primitive<T>(expected: string, test: (value: unknown) => boolean): Schema<T> {
+  return {
+    expected,
+    check(value: unknown, path: string, context: ValidationContext): T {
+      if (!test(value)) {
+        context.issues.push({ path, expected, received: describe(value) });
+      }
+      return value as T;
+    },
+  };
+}
+
+export const s = {
+  string: (): Schema<string> => primitive('string', (value) => typeof value === 'string'),
+
+  number: (): Schema<number> => primitive('number', (value) => typeof value === 'number' && !Number.isNaN(value)),
+
+  boolean: (): Schema<boolean> => primitive('boolean', (value) => typeof value === 'boolean'),
+
+  unknown: (): Schema<unknown> => primitive('unknown', () => true),
+
+  /**
+   * ISO-8601 date string, converted into a `Date` by `parseDates`
+   */
+  date: (): Schema<string> => ({
+    expected: 'ISO-8601 date string',
+    check(value: unknown, path: string, context: ValidationContext): string {
+      if (typeof value !== 'string' || Number.isNaN(Date.parse(value))) {
+        context.issues.push({ path, expected: this.expected, received: describe(value) });
+        return value as string;
+      }
+      return (context.parseDates ? new Date(value) : value) as string;
+    },
+  }),
+
+  enum: <T extends string>(...values: T[]): Schema<T> =>
+    primitive(values.map((value) => `'${value}'`).join(' | '), (value) => values.includes(value as T)),
+
+  /**
+   * Optional fields also accept `null`, which the API commonly sends for missing values
+   */
+  optional: <T>(inner: Schema<T>): Schema<T | undefined> => ({
+    expected: `${inner.expected} | undefined`,
+    check(value: unknown, path: string, context: ValidationContext): T | undefined {
+      return value === undefined || value === null ? (value as undefined) : inner.check(value, path, context);
+    },
+  }),
+
+  array: <T>(items: Schema<T>): Schema<T[]> => ({
+    expected: `${items.expected}[]`,
+    check(value: unknown, path: string, context: ValidationContext): T[] {
+      if (!Array.isArray(value)) {
+        context.issues.push({ path, expected: 'array', received: describe(value) });
+        return value as T[];
+      }
+      return value.map((item, index) => items.check(item, `${path}[${index}]`, context));
+    },
+  }),
+
+  record: <T>(values: Schema<T>): Schema<Record<string, T>> => ({
+    expected: `Record<string, ${values.expected}>`,
+    check(value: unknown, path: string, context: ValidationContext): Record<string, T> {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        context.issues.push({ path, expected: 'object', received: describe(value) });
+        return value as Record<string, T>;
+      }
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, values.check(item, `${path}.${key}`, context)])
+      );
+    },
+  }),
+
+  /**
+   * Object with known fields. Unknown fields are passed through untouched.
+   */
+  object: <T>(fields: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> => ({
+    expected: 'object',
+    check(value: unknown, path: string, context: ValidationContext): T {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        context.issues.push({ path, expected: 'object', received: describe(value) });
+        return value as T;
+      }
+
+      const result: Record<string, unknown> = { ...value };
+      for (const [key, schema] of Object.entries(fields) as Array<[string, Schema<unknown>]>) {
+        const checked = schema.check((value as Record<string, unknown>)[key], `${path}.${key}`, context);
+        if (checked !== undefined) {
+          result[key] = checked;
+        }
+      }
+      return result as T;
+    },
+  }),
+};
+
+/**
+ * Validate a value against a schema, returning the checked value and all issues found
+ */
+export function validateSchema<T>(schema: Schema<T>, value: unknown): { value: T; issues: ValidationIssue[] } {
+  const context: ValidationContext = { issues: [], parseDates: false };
+  const checked = schema.check(value, '$', context);
+  return { value: checked, issues: context.issues };
+}
+
+/**
+ * Copy a value with the date fields of its schema converted into `Date` objects, e.g.
+ * `parseDates(userSchema, await client.getUser(id))`. Fields that are not valid dates are kept as-is.
+ */
+export function parseDates<T>(schema: Schema<T>, value: T): WithDates<T> {
+  const context: ValidationContext = { issues: [], parseDates: true };
+  return schema.check(value, '$', context) as unknown as WithDates<T>;
+}
+
+const productStatus = s.enum('published', 'draft', 'archived');
+
+export const courseSchema = s.object<Course>({
+  id: s.string(),
+  title: s.string(),
+  description: s.optional(s.string()),
+  status: productStatus,
+  price: s.optional(s.number()),
+  currency: s.optional(s.string()),
+  created_at: s.date(),
+  updated_at: s.date(),
+  image_url: s.optional(s.string()),
+  slug: s.optional(s.string()),
+  category_id: s.optional(s.string()),
+  instructor_id: s.optional(s.string()),
+  duration: s.optional(s.number()),
+  difficulty_level: s.optional(s.enum('beginner', 'intermediate', 'advanced')),
+  enrolled_users_count: s.optional(s.number()),
+});
+
+export const bundleSchema = s.object<Bundle>({
+  id: s.string(),
+  title: s.string(),
+  description: s.optional(s.string()),
+  status: productStatus,
+  price: s.optional(s.number()),
+  currency: s.optional(s.string()),
+  created_at: s.date(),
+  updated_at: s.date(),
+  image_url: s.optional(s.string()),
+  slug: s.optional(s.string()),
+  course_ids: s.array(s.string()),
+  discount_percentage: s.optional(s.number()),
+});
+
+export const userSchema = s.object<User>({
+  id: s.string(),
+  email: s.string(),
+  first_name: s.optional(s.string()),
+  last_name: s.optional(s.string()),
+  username: s.optional(s.string()),
+  avatar_url: s.optional(s.string()),
+  bio: s.optional(s.string()),
+  created_at: s.date(),
+  updated_at: s.date(),
+  last_login: s.optional(s.date()),
+  is_active: s.boolean(),
+  roles: s.array(s.string()),
+  tags: s.array(s.string()),
+  custom_fields: s.optional(s.record(s.unknown())),
+});
+
+export const enrollmentSchema = s.object<Enrollment>({
+  id: s.string(),
+  user_id: s.string(),
+  product_id: s.string(),
+  product_type: s.enum('course', 'bundle'),
+  enrollment_type: s.enum('free', 'paid'),
+  status: s.enum('active', 'inactive', 'expired'),
+  enrolled_at: s.date(),
+  expires_at: s.optional(s.date()),
+  progress: s.optional(s.number()),
+  completion_date: s.optional(s.date()),
+});
+
+const learningUnitType = s.enum(
+  'video',
+  'audio',
+  'text',
+  'pdf',
+  'ebook',
+  'quiz',
+  'assessment',
+  'assignment',
+  'scorm',
+  'live_session'
+);
+
+export const learningUnitSchema = s.object<LearningUnit>({
+  id: s.string(),
+  section_id: s.string(),
+  title: s.string(),
+  type: learningUnitType,
+  position: s.number(),
+  duration: s.optional(s.number()),
+  is_free: s.optional(s.boolean()),
+  is_required: s.optional(s.boolean()),
+  max_score: s.optional(s.number()),
+});
+
+export const sectionSchema = s.object<Section>({
+  id: s.string(),
+  title: s.string(),
+  description: s.optional(s.string()),
+  position: s.number(),
+  units: s.array(learningUnitSchema),
+});
+
+export const courseContentsSchema = s.object<CourseContents>({
+  id: s.string(),
+  title: s.string(),
+  sections: s.array(sectionSchema),
+  total_units: s.number(),
+  total_duration: s.optional(s.number()),
+});
+
+const progressStatus = s.enum('not_started', 'in_progress', 'completed');
+
+const progressSummaryFields = {
+  course_id: s.string(),
+  course_title: s.optional(s.string()),
+  status: progressStatus,
+  progress: s.number(),
+  completed_units: s.optional(s.number()),
+  total_units: s.optional(s.number()),
+  time_spent: s.optional(s.number()),
+  average_score: s.optional(s.number()),
+  last_accessed_at: s.optional(s.date()),
+  completed_at: s.optional(s.date()),
+};
+
+export const userCourseProgressSummarySchema = s.object<UserCourseProgressSummary>(progressSummaryFields);
+
+export const learningUnitProgressSchema = s.object<LearningUnitProgress>({
+  unit_id: s.string(),
+  unit_type: learningUnitType,
+  status: progressStatus,
+  progress: s.optional(s.number()),
+  score: s.optional(s.number()),
+  max_score: s.optional(s.number()),
+  passed: s.optional(s.boolean()),
+  time_spent: s.number(),
+  attempts: s.optional(s.number()),
+  last_accessed_at: s.optional(s.date()),
+  completed_at: s.optional(s.date()),
+});
+
+export const userCourseProgressSchema = s.object<UserCourseProgress>({
+  ...progressSummaryFields,
+  user_id: s.string(),
+  units: s.array(learningUnitProgressSchema),
+});
+
+export const userGradeSchema = s.object<UserGrade>({
+  course_id: s.string(),
+  unit_id: s.string(),
+  unit_title: s.optional(s.string()),
+  unit_type: s.optional(s.string()),
+  score: s.number(),
+  max_score: s.optional(s.number()),
+  passed: s.optional(s.boolean()),
+  graded_at: s.date(),
+});
+
+export const certificateSchema = s.object<Certificate>({
+  id: s.string(),
+  user_id: s.string(),
+  course_id: s.string(),
+  title: s.optional(s.string()),
+  certificate_url: s.optional(s.string()),
+  issued_at: s.date(),
+  expires_at: s.optional(s.date()),
+});
+
+const commerceProductType = s.enum('course', 'bundle', 'subscription');
+
+export const paymentSchema = s.object<Payment>({
+  id: s.string(),
+  user_id: s.string(),
+  order_id: s.optional(s.string()),
+  product_id: s.string(),
+  product_type: commerceProductType,
+  amount: s.number(),
+  currency: s.string(),
+  status: s.enum('succeeded', 'pending', 'failed', 'refunded'),
+  gateway: s.optional(s.string()),
+  transaction_id: s.optional(s.string()),
+  coupon_code: s.optional(s.string()),
+  created_at: s.date(),
+  paid_at: s.optional(s.date()),
+  refunded_at: s.optional(s.date()),
+});
+
+export const lineItemSchema = s.object<LineItem>({
+  product_id: s.string(),
+  product_type: commerceProductType,
+  title: s.optional(s.string()),
+  price: s.number(),
+  quantity: s.number(),
+});
+
+export const orderSchema = s.object<Order>({
+  id: s.string(),
+  user_id: s.string(),
+  status: s.enum('pending', 'completed', 'cancelled', 'refunded'),
+  items: s.array(lineItemSchema),
+  subtotal: s.number(),
+  discount: s.optional(s.number()),
+  tax: s.optional(s.number()),
+  total: s.number(),
+  currency: s.string(),
+  coupon_code: s.optional(s.string()),
+  payment_id: s.optional(s.string()),
+  invoice_id: s.optional(s.string()),
+  created_at: s.date(),
+  updated_at: s.date(),
+});
+
+export const subscriptionSchema = s.object<Subscription>({
+  id: s.string(),
+  user_id: s.string(),
+  product_id: s.string(),
+  plan_name: s.optional(s.string()),
+  status: s.enum('active', 'trialing', 'past_due', 'cancelled', 'expired'),
+  interval: s.enum('month', 'year'),
+  amount: s.number(),
+  currency: s.string(),
+  current_period_start: s.date(),
+  current_period_end: s.date(),
+  trial_ends_at: s.optional(s.date()),
+  cancelled_at: s.optional(s.date()),
+  created_at: s.date(),
+});
+
+export const invoiceSchema = s.object<Invoice>({
+  id: s.string(),
+  number: s.string(),
+  user_id: s.string(),
+  order_id: s.optional(s.string()),
+  status: s.enum('draft', 'open', 'paid', 'void'),
+  items: s.array(lineItemSchema),
+  total: s.number(),
+  currency: s.string(),
+  issued_at: s.date(),
+  paid_at: s.optional(s.date()),
+  pdf_url: s.optional(s.string()),
+});
+
+/** `Coupon` with the discount union flattened, since `s.object` describes a single shape */
+type CouponRecord = Omit<Extract<Coupon, { discount_type: 'fixed' }>, 'discount_type' | 'currency'> & {
+  discount_type: Coupon['discount_type'];
+  currency?: string;
+};
+
+export const couponSchema = s.object<CouponRecord>({
+  id: s.string(),
+  code: s.string(),
+  description: s.optional(s.string()),
+  discount_type: s.enum('percentage', 'fixed'),
+  discount_value: s.number(),
+  currency: s.optional(s.string()),
+  usage_limit: s.optional(s.number()),
+  usage_limit_per_user: s.optional(s.number()),
+  minimum_amount: s.optional(s.number()),
+  valid_from: s.optional(s.date()),
+  valid_until: s.optional(s.date()),
+  course_ids: s.optional(s.array(s.string())),
+  bundle_ids: s.optional(s.array(s.string())),
+  is_active: s.boolean(),
+  times_used: s.number(),
+  created_at: s.date(),
+  updated_at: s.date(),
+}) as Schema<Coupon>;
@@ -0,0 +1,206 @@
+/**
+ * Optional OpenTelemetry instrumentation. The SDK does not depend on `@opentelemetry/api`:
+ * it is loaded at runtime when installed (or passed in), and every call is a no-op otherwise.
+ */
+
+type Attributes = Record<string, string | number | boolean | undefined>;
+
+interface OtelSpan {
+  setAttributes(attributes: Attributes): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): unknown;
+  end(): void;
+}
+
+interface OtelTracer {
+  startSpan(name: string, options?: { kind?: number; attributes?: Attributes }): OtelSpan;
+}
+
+interface OtelContextApi {
+  active(): unknown;
+  with<T>(context: unknown, fn: () => T): T;
+}
+
+interface OtelHistogram {
+  record(value: number, attributes?: Attributes): void;
+}
+
+interface OtelCounter {
+  add(value: number, attributes?: Attributes): void;
+}
+
+interface OtelMeter {
+  createHistogram(name: string, options?: { description?: string; unit?: string }): OtelHistogram;
+  createCounter(name: string, options?: { description?: string; unit?: string }): OtelCounter;
+}
+
+/**
+ * The subset of `@opentelemetry/api` used by the SDK
+ */
+export interface OpenTelemetryApi {
+  trace: { getTracer(name: string, version?: string): OtelTracer; setSpan(context: unknown, span: OtelSpan): unknown };
+  context: OtelContextApi;
+  metrics: { getMeter(name: string, version?: string): OtelMeter };
+}
+
+export interface TelemetryOptions {
+  /** OpenTelemetry API to use (default: `@opentelemetry/api` when installed) */
+  api?: OpenTelemetryApi;
+  /** Tracer and meter name (default: 'learnworlds-sdk') */
+  instrumentationName?: string;
+}
+
+/** Attributes describing one client call */
+export interface CallAttributes {
+  operation: string;
+  method: string;
+  route: string;
+  host: string;
+}
+
+/** Outcome of a call, filled in while it runs */
+export interface CallOutcome {
+  status?: number;
+  retryCount?: number;
+}
+
+const OTEL_API_MODULE = '@opentelemetry/api';
+
+// Values of SpanKind.CLIENT and SpanStatusCode.ERROR in @opentelemetry/api
+const SPAN_KIND_CLIENT = 2;
+const SPAN_STATUS_ERROR = 2;
+
+interface Instruments {
+  tracer: OtelTracer;
+  /** Run a function with the span as the active span, so instrumentation inside it creates child spans */
+  withSpan<T>(span: OtelSpan, fn: () => T): T;
+  duration: OtelHistogram;
+  rateLimitHits: OtelCounter;
+  tokenRefreshes: OtelCounter;
+}
+
+async function loadApi(): Promise<OpenTelemetryApi | undefined> {
+  try {
+    // Kept in a variable so bundlers and TypeScript do not require the package
+    const moduleName = OTEL_API_MODULE;
+    const api = await import(moduleName);
+    return (api.trace ? api : api.default) as OpenTelemetryApi;
+  } catch {
+    return undefined;
+  }
+}
+
+export class Telemetry {
+  private instruments?: Promise<Instruments | undefined>;
+
+  constructor(private readonly options: TelemetryOptions = {}) {}
+
+  /**
+   * Create a telemetry instance from the `telemetry` config option, or `undefined` when disabled
+   */
+  static from(option: boolean | TelemetryOptions | undefined): Telemetry | undefined {
+    if (!option) {
+      return undefined;
+    }
+    return new Telemetry(option === true ? {} : option);
+  }
+
+  /**
+   * Run a call inside a client span and record its duration. The span is active while the
+   * call runs, so transport and user instrumentation can attach child spans to it.
+   */
+  async trace<T>(
+    name: string,
+    attributes: CallAttributes,
+    run: (outcome: CallOutcome) => Promise<T>
+  ): Promise<T> {
+    const instruments = await this.getInstruments();
+    const outcome: CallOutcome = {};
+
+    if (!instruments) {
+      return run(outcome);
+    }
+
+    const baseAttributes: Attributes = {
+      'learnworlds.operation': attributes.operation,
+      'http.request.method': attributes.method,
+      'url.template': attributes.route,
+      'server.address': attributes.host,
+    };
+    const span = instruments.tracer.startSpan(name, { kind: SPAN_KIND_CLIENT, attributes: baseAttributes });
+    const start = performance.now();
+
+    const finish = (error?: unknown): void => {
+      const status = outcome.status ?? (error as { status?: number } | undefined)?.status;
+      const resultAttributes: Attributes = {
+        ...(status !== undefined ? { 'http.response.status_code': status } : {}),
+        ...(error ? { 'error.type': (error as { code?: string }).code ?? (error as Error).name ?? 'Error' } : {}),
+      };
+
+      span.setAttributes({ ...resultAttributes, 'learnworlds.retry_count': outcome.retryCount ?? 0 });
+      if (error) {
+        span.recordException(error as Error);
+        span.setStatus({ code: SPAN_STATUS_ERROR, message: (error as Error).message });
+      }
+      span.end();
+
+      instruments.duration.record((performance.now() - start) / 1000, { ...baseAttributes, ...resultAttributes });
+    };
+
+    try {
+      const result = await instruments.withSpan(span, () => run(outcome));
+      finish();
+      return result;
+    } catch (error) {
+      finish(error);
+      throw error;
+    }
+  }
+
+  /** Count a 429 response */
+  recordRateLimitHit(attributes: Partial<CallAttributes>): void {
+    void this.getInstruments().then((instruments) =>
+      instruments?.rateLimitHits.add(1, {
+        'learnworlds.operation': attributes.operation,
+        'server.address': attributes.host,
+      })
+    );
+  }
+
+  /** Count an access token refresh */
+  recordTokenRefresh(outcome: 'success' | 'failure', host: string): void {
+    void this.getInstruments().then((instruments) =>
+      instruments?.tokenRefreshes.add(1, { 'learnworlds.outcome': outcome, 'server.address': host })
+    );
+  }
+
+  private getInstruments(): Promise<Instruments | undefined> {
+    if (!this.instruments) {
+      this.instruments = (this.options.api ? Promise.resolve(this.options.api) : loadApi()).then((api) => {
+        if (!api) {
+          return undefined;
+        }
+
+        const name = this.options.instrumentationName ?? 'learnworlds-sdk';
+        const meter = api.metrics.getMeter(name);
+
+        return {
+          tracer: api.trace.getTracer(name),
+          withSpan: (span, fn) => api.context.with(api.trace.setSpan(api.context.active(), span), fn),
+          duration: meter.createHistogram('learnworlds.client.request.duration', {
+            description: 'Duration of LearnWorlds API calls, including retries',
+            unit: 's',
+          }),
+          rateLimitHits: meter.createCounter('learnworlds.client.rate_limit.hits', {
+            description: 'Responses rejected with 429 Too Many Requests',
+          }),
+          tokenRefreshes: meter.createCounter('learnworlds.client.token.refreshes', {
+            description: 'OAuth2 access token refreshes',
+          }),
+        };
+      });
+    }
+
+    return this.instruments;
+  }
+}
@@ -0,0 +1,142 @@
+import { StoredTokens, TokenStore } from './types.js';
+import { sleep } from './retry.js';
+import { TimeoutError } from './errors.js';
+
+/** Numbers the temporary files of concurrent writes within this process */
+let tempFileCounter = 0;
+
+/**
+ * Keeps tokens in memory for the lifetime of the process
+ */
+export class MemoryTokenStore implements TokenStore {
+  private tokens?: StoredTokens;
+
+  constructor(initialTokens?: StoredTokens) {
+    this.tokens = initialTokens;
+  }
+
+  async get(): Promise<StoredTokens | undefined> {
+    return this.tokens ? { ...this.tokens } : undefined;
+  }
+
+  async set(tokens: StoredTokens): Promise<void> {
+    this.tokens = { ...tokens };
+  }
+
+  async clear(): Promise<void> {
+    this.tokens = undefined;
+  }
+}
+
+export interface FileTokenStoreOptions {
+  /** How long to wait for the refresh lock before giving up (default: 10000) */
+  lockTimeoutMs?: number;
+  /** Age after which a lock left behind by a crashed process is removed (default: 30000) */
+  staleLockMs?: number;
+}
+
+interface SerializedTokens {
+  accessToken?: string;
+  refreshToken?: string;
+  expiresAt?: string;
+}
+
+/**
+ * Persists tokens as JSON on disk. The refresh lock is a sibling `.lock` file,
+ * which makes the store safe to share between processes on the same machine.
+ */
+export class FileTokenStore implements TokenStore {
+  private lockTimeoutMs: number;
+  private staleLockMs: number;
+
+  constructor(private readonly filePath: string, options: FileTokenStoreOptions = {}) {
+    this.lockTimeoutMs = options.lockTimeoutMs ?? 10000;
+    this.staleLockMs = options.staleLockMs ?? 30000;
+  }
+
+  async get(): Promise<StoredTokens | undefined> {
+    const fs = await import('node:fs/promises');
+
+    let raw: string;
+    try {
+      raw = await fs.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return undefined;
+      }
+      throw error;
+    }
+
+    const data = JSON.parse(raw) as SerializedTokens;
+    return {
+      accessToken: data.accessToken,
+      refreshToken: data.refreshToken,
+      expiresAt: data.expiresAt ? new Date(data.expiresAt) : undefined,
+    };
+  }
+
+  async set(tokens: StoredTokens): Promise<void> {
+    const fs = await import('node:fs/promises');
+    const path = await import('node:path');
+
+    const data: SerializedTokens = {
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresAt: tokens.expiresAt?.toISOString(),
+    };
+
+    // Write to a temporary file first so readers never see a partial file
+    const tempPath = `${this.filePath}.${process.pid}.${++tempFileCounter}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), { mode: 0o600 });
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  async clear(): Promise<void> {
+    const fs = await import('node:fs/promises');
+    await fs.rm(this.filePath, { force: true });
+  }
+
+  async lock<T>(task: () => Promise<T>): Promise<T> {
+    const fs = await import('node:fs/promises');
+    const lockPath = `${this.filePath}.lock`;
+    const deadline = Date.now() + this.lockTimeoutMs;
+
+    while (!(await this.tryCreateLock(lockPath))) {
+      if (Date.now() >= deadline) {
+        throw new TimeoutError(`Timed out waiting for token lock ${lockPath}`, { code: 'TOKEN_LOCK_TIMEOUT' });
+      }
+
+      await sleep(50);
+    }
+
+    try {
+      return await task();
+    } finally {
+      await fs.rm(lockPath, { force: true });
+    }
+  }
+
+  private async tryCreateLock(lockPath: string): Promise<boolean> {
+    const fs = await import('node:fs/promises');
+
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      await handle.close();
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    // Remove locks left behind by a crashed process
+    const stats = await fs.stat(lockPath).catch(() => undefined);
+    if (stats && Date.now() - stats.mtimeMs > this.staleLockMs) {
+      await fs.rm(lockPath, { force: true });
+      return this.tryCreateLock(lockPath);
+    }
+
+    return false;
+  }
+}
@@ -0,0 +1,118 @@
+import type { HttpMethod, LearnWorldsConfig } from './types.js';
+
+export interface TransportRequest {
+  method: HttpMethod;
+  /** Absolute URL, including the query string */
+  url: string;
+  headers: Record<string, string>;
+  /** Serialized body; JSON for API calls, form-encoded for OAuth2 calls */
+  body?: string;
+  signal?: AbortSignal;
+}
+
+export interface TransportResponse<T = unknown> {
+  status: number;
+  /** Header names in lower case */
+  headers: Record<string, string>;
+  /** Parsed JSON body, the raw text when it is not JSON, or undefined when empty */
+  data: T;
+}
+
+/**
+ * Sends HTTP requests for the clients. Auth, retries and error mapping happen in the
+ * clients, so a transport only moves bytes: it resolves with every response, including
+ * error statuses, and rejects only when no response arrives. Requests cancelled through
+ * `signal` reject with an error named `AbortError`.
+ */
+export interface HttpTransport {
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/** The subset of `fetch` the default transport uses */
+export type FetchFunction = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface FetchTransportOptions {
+  /** Defaults to the global `fetch` */
+  fetch?: FetchFunction;
+}
+
+/**
+ * Parse a response body as JSON, keeping non-JSON bodies as text
+ */
+export function parseBody(text: string): unknown {
+  if (!text) {
+    return undefined;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Join a base URL, a path and query parameters. Empty parameters are dropped and
+ * arrays are sent as repeated keys.
+ */
+export function buildUrl(baseUrl: string, path: string, params?: Record<string, unknown>): string {
+  const query = new URLSearchParams();
+
+  for (const [key, value] of Object.entries(params ?? {})) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined && item !== null) {
+        query.append(key, item instanceof Date ? item.toISOString() : String(item));
+      }
+    }
+  }
+
+  const search = query.toString();
+  return `${baseUrl}${path}${search ? `?${search}` : ''}`;
+}
+
+/**
+ * Transport built on `fetch`, available in Node.js 18+, browsers, Deno and edge runtimes
+ */
+export class FetchTransport implements HttpTransport {
+  private fetch: FetchFunction;
+
+  constructor(options: FetchTransportOptions = {}) {
+    const fetchFunction = options.fetch ?? globalThis.fetch;
+    if (!fetchFunction) {
+      throw new Error('fetch is not available in this runtime; pass `fetch` or a custom `transport`');
+    }
+
+    // Called unbound, since browsers reject `fetch` invoked with another `this`
+    this.fetch = (url, init): Promise<Response> => fetchFunction(url, init);
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const response = await this.fetch(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: request.signal,
+    });
+
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name.toLowerCase()] = value;
+    });
+
+    return { status: response.status, headers, data: parseBody(await response.text()) };
+  }
+}
+
+/**
+ * Transport for a client configuration: the custom `transport`, or `fetch`
+ */
+export function createTransport(config: Pick<LearnWorldsConfig, 'transport' | 'fetch'>): HttpTransport {
+  return config.transport ?? new FetchTransport({ fetch: config.fetch });
+}
+
+/**
+ * Check whether a transport failure was caused by an aborted signal
+ */
+export function isAbortError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+}
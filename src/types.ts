@@ -1,3 +1,6 @@
+import type { TelemetryOptions } from './telemetry.js';
+import type { FetchFunction, HttpTransport } from './transport.js';
+
 export interface LearnWorldsConfig {
   schoolDomain: string;
   clientId: string;
@@ -7,6 +10,163 @@ export interface LearnWorldsConfig {
   accessToken?: string;
   refreshToken?: string;
   onTokenRefresh?: (tokens: TokenResponse) => void | Promise<void>;
+  tokenStore?: TokenStore;
+  retry?: RetryOptions | false;
+  rateLimit?: RateLimiterOptions;
+  /** Sends the HTTP requests of the client and its OAuth2 client (default: a `FetchTransport`) */
+  transport?: HttpTransport;
+  /** `fetch` used by the default transport, e.g. `MockLearnWorldsServer.fetch` for offline tests */
+  fetch?: FetchFunction;
+  validation?: ResponseValidationOptions;
+  /** Check write payloads locally and reject invalid ones with a `ValidationError` before sending */
+  requestValidation?: boolean | RequestValidationOptions;
+  /** OpenTelemetry tracing and metrics; a no-op when `@opentelemetry/api` is not installed */
+  telemetry?: boolean | TelemetryOptions;
+  cache?: CacheOptions;
+  /** Share one request between identical GETs that are in flight at the same time */
+  dedupe?: boolean;
+  /** Group `getUser`, `getCourse` and `getBundle` calls into list requests filtered by ID */
+  batch?: boolean | BatchOptions;
+}
+
+export interface ResponseValidationOptions {
+  /**
+   * - `off`: trust responses as-is (default)
+   * - `warn`: report mismatches through `onInvalid` and return the data anyway
+   * - `strict`: throw a `ResponseValidationError`
+   */
+  mode?: 'off' | 'warn' | 'strict';
+  /** Called in `warn` mode (default: `console.warn`) */
+  onInvalid?: (error: LearnWorldsError & { issues: ValidationIssue[] }) => void;
+}
+
+export interface RequestValidationOptions {
+  /** Rules for `password` when creating users (default: at least 8 characters) */
+  password?: PasswordRules;
+}
+
+export interface PasswordRules {
+  /** Default: 8 */
+  minLength?: number;
+  maxLength?: number;
+  requireLowercase?: boolean;
+  requireUppercase?: boolean;
+  requireDigit?: boolean;
+  /** Require a character other than a letter or digit */
+  requireSymbol?: boolean;
+}
+
+export interface ValidationIssue {
+  /** Location of the mismatch, e.g. `$.data[0].tags` */
+  path: string;
+  expected: string;
+  received: string;
+}
+
+type DateFieldName =
+  | `${string}_at`
+  | 'last_login'
+  | 'completion_date'
+  | 'current_period_start'
+  | 'current_period_end'
+  | 'valid_from'
+  | 'valid_until';
+
+/**
+ * Shape of a value after `parseDates`: date fields hold `Date` objects instead of strings
+ */
+export type WithDates<T> = T extends Array<infer TItem>
+  ? Array<WithDates<TItem>>
+  : T extends object
+    ? {
+        [K in keyof T]: K extends DateFieldName
+          ? T[K] extends string
+            ? Date
+            : Date | undefined
+          : WithDates<T[K]>;
+      }
+    : T;
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export interface RetryOptions {
+  /** Total number of attempts, including the first request (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry, doubled on every attempt (default: 500) */
+  baseDelayMs?: number;
+  /** Upper bound for a single delay, including server-provided ones (default: 30000) */
+  maxDelayMs?: number;
+  /** Randomization applied to the computed backoff (default: 'full') */
+  jitter?: 'none' | 'full' | 'equal';
+  /** Response statuses that trigger a retry (default: 408, 429, 500, 502, 503, 504) */
+  retryOnStatus?: number[];
+  /** Methods safe to retry; others are only retried with an idempotency key (default: GET, PUT, DELETE) */
+  retryOnMethods?: HttpMethod[];
+  /** Retry requests that failed without a response (default: true) */
+  retryOnNetworkError?: boolean;
+}
+
+export interface StoredTokens {
+  accessToken?: string;
+  refreshToken?: string;
+  expiresAt?: Date;
+}
+
+export interface TokenStore {
+  get(): Promise<StoredTokens | undefined>;
+  set(tokens: StoredTokens): Promise<void>;
+  clear(): Promise<void>;
+  /**
+   * Optional lock held while refreshing, so several processes sharing
+   * the same store don't refresh (and rotate) the token concurrently
+   */
+  lock?<T>(task: () => Promise<T>): Promise<T>;
+}
+
+export type CacheableResource = 'courses' | 'bundles' | 'users' | 'enrollments' | 'progress';
+
+export interface CacheOptions {
+  /**
+   * Time to live per resource in ms. Resources without a TTL are not cached
+   * (default: 5 minutes for courses and bundles).
+   */
+  ttl?: Partial<Record<CacheableResource, number>>;
+  /** How long an expired entry may still be served while it is refreshed in the background (default: 0) */
+  staleWhileRevalidate?: number;
+  /** Where entries are kept (default: an in-memory LRU store) */
+  store?: CacheStore;
+  /** Capacity of the default in-memory store (default: 1000) */
+  maxEntries?: number;
+}
+
+export interface CacheEntry<T = unknown> {
+  value: T;
+  /** ETag returned by the API, sent back as If-None-Match on revalidation */
+  etag?: string;
+  /** When the entry stops being fresh (ms since epoch) */
+  expiresAt: number;
+  /** When the entry may no longer be served stale (ms since epoch) */
+  staleUntil: number;
+  /** Invalidation tag versions at the time the entry was stored */
+  tags: Record<string, string>;
+}
+
+/**
+ * Key-value store for cached responses. Implement it over Redis, Memcached, etc.
+ * to share a cache between processes.
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  /** `ttlMs` is how long the entry is useful; stores may evict it afterwards */
+  set(key: string, entry: CacheEntry, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export interface BatchOptions {
+  /** Most IDs fetched by one list request (default: 50) */
+  maxBatchSize?: number;
+  /** How long to collect IDs before sending the list request, in ms (default: 0, i.e. the next tick) */
+  windowMs?: number;
 }
 
 export interface TokenResponse {
@@ -17,15 +177,91 @@ export interface TokenResponse {
   scope?: string;
 }
 
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+export interface RateLimiterOptions {
+  /** Requests allowed per window (default: 30), adjusted from `X-RateLimit-Limit` */
+  requestsPerWindow?: number;
+  /** Length of the rate limit window in milliseconds (default: 10000) */
+  windowMs?: number;
+  /** Maximum number of requests in flight at once (default: 10) */
+  maxConcurrency?: number;
+  /** Share one limiter between all clients using the same `apiHost` (default: true) */
+  shared?: boolean;
+  /** Priority lane for requests made by this client (default: 'normal') */
+  priority?: RequestPriority;
+}
+
+/**
+ * Per-call options, accepted as the last argument of every client method
+ */
+export interface RequestOptions {
+  /** Cancels the call, including retries and rate limiter waits; the call rejects with an `AbortError` */
+  signal?: AbortSignal;
+  /** Milliseconds the whole call, retries included, may take before it rejects with a `TimeoutError` */
+  timeout?: number;
+  /** Extra headers for the request */
+  headers?: Record<string, string>;
+  /** Sent as the `Idempotency-Key` header, which also makes `POST` and `PATCH` requests retryable */
+  idempotencyKey?: string;
+  /** Read from the API instead of the response cache; the fresh response is still cached */
+  bypassCache?: boolean;
+  /** Rate limiter lane for this call (default: the client's `rateLimit.priority`) */
+  priority?: RequestPriority;
+}
+
+/**
+ * OAuth2 scopes. Any other scope string enabled for your school is accepted too.
+ */
+export type OAuthScope =
+  | 'read_user_profile'
+  | 'read_courses'
+  | 'read_bundles'
+  | 'read_users'
+  | 'write_users'
+  | 'read_enrollments'
+  | 'write_enrollments'
+  | (string & Record<never, never>);
+
+export interface AuthorizationRequestOptions {
+  scopes?: OAuthScope[];
+  /** Defaults to `redirectUri` from the client config */
+  redirectUri?: string;
+}
+
+/**
+ * Values to keep in the user's session until the authorization callback arrives
+ */
+export interface AuthorizationRequest {
+  /** URL to redirect the user to */
+  url: string;
+  state: string;
+  codeVerifier: string;
+  codeChallenge: string;
+  codeChallengeMethod: 'S256';
+  redirectUri?: string;
+}
+
 export interface AuthorizationCodeRequest {
   code: string;
-  redirectUri: string;
+  redirectUri?: string;
+  /** PKCE verifier generated by `createAuthorizationRequest` */
+  codeVerifier?: string;
+}
+
+export interface AuthorizationCallbackRequest {
+  /** Full URL LearnWorlds redirected back to, including `code` and `state` */
+  callbackUrl: string | URL;
+  /** State stored from `createAuthorizationRequest` */
+  state: string;
+  codeVerifier: string;
+  redirectUri?: string;
 }
 
 export interface ResourceOwnerPasswordRequest {
   username: string;
   password: string;
-  scope?: string;
+  scopes?: OAuthScope[];
 }
 
 export interface ApiResponse<T> {
@@ -33,6 +269,7 @@ export interface ApiResponse<T> {
   data: T;
   message?: string;
   errors?: string[];
+  meta?: PaginationMeta;
 }
 
 export interface PaginationParams {
@@ -40,6 +277,23 @@ export interface PaginationParams {
   per_page?: number;
 }
 
+export interface PaginationMeta {
+  page: number;
+  totalItems: number;
+  totalPages: number;
+  itemsPerPage: number;
+}
+
+export interface Page<T> {
+  data: T[];
+  meta: PaginationMeta;
+  hasNextPage: boolean;
+}
+
+export interface IterateOptions extends PaginationParams {
+  maxItems?: number;
+}
+
 export interface Course {
   id: string;
   title: string;
@@ -58,6 +312,47 @@ export interface Course {
   enrolled_users_count?: number;
 }
 
+export type LearningUnitType =
+  | 'video'
+  | 'audio'
+  | 'text'
+  | 'pdf'
+  | 'ebook'
+  | 'quiz'
+  | 'assessment'
+  | 'assignment'
+  | 'scorm'
+  | 'live_session';
+
+export interface LearningUnit {
+  id: string;
+  section_id: string;
+  title: string;
+  type: LearningUnitType;
+  position: number;
+  /** Duration in seconds, for media units */
+  duration?: number;
+  is_free?: boolean;
+  is_required?: boolean;
+  /** Highest achievable score, for graded units */
+  max_score?: number;
+}
+
+export interface Section {
+  id: string;
+  title: string;
+  description?: string;
+  position: number;
+  units: LearningUnit[];
+}
+
+export interface CourseContents extends Pick<Course, 'id' | 'title'> {
+  sections: Section[];
+  total_units: number;
+  /** Total duration of all media units in seconds */
+  total_duration?: number;
+}
+
 export interface Bundle {
   id: string;
   title: string;
@@ -90,6 +385,72 @@ export interface User {
   custom_fields?: Record<string, unknown>;
 }
 
+export interface UserListFilters extends PaginationParams {
+  /** Free-text search over name, username and email */
+  search?: string;
+  email?: string;
+  /** Only users having all of these tags */
+  tags?: string[];
+  /** ISO-8601 date; only users created on or after it */
+  created_after?: string;
+  /** ISO-8601 date; only users created on or before it */
+  created_before?: string;
+}
+
+export interface UserCourseProgressSummary {
+  course_id: string;
+  course_title?: string;
+  status: 'not_started' | 'in_progress' | 'completed';
+  progress: number;
+  completed_units?: number;
+  total_units?: number;
+  time_spent?: number;
+  average_score?: number;
+  last_accessed_at?: string;
+  completed_at?: string;
+}
+
+export interface LearningUnitProgress {
+  unit_id: string;
+  unit_type: LearningUnitType;
+  status: 'not_started' | 'in_progress' | 'completed';
+  progress?: number;
+  score?: number;
+  max_score?: number;
+  passed?: boolean;
+  /** Time spent in seconds */
+  time_spent: number;
+  attempts?: number;
+  last_accessed_at?: string;
+  completed_at?: string;
+}
+
+export interface UserCourseProgress extends UserCourseProgressSummary {
+  user_id: string;
+  units: LearningUnitProgress[];
+}
+
+export interface UserGrade {
+  course_id: string;
+  unit_id: string;
+  unit_title?: string;
+  unit_type?: string;
+  score: number;
+  max_score?: number;
+  passed?: boolean;
+  graded_at: string;
+}
+
+export interface Certificate {
+  id: string;
+  user_id: string;
+  course_id: string;
+  title?: string;
+  certificate_url?: string;
+  issued_at: string;
+  expires_at?: string;
+}
+
 export interface CreateUserRequest {
   email: string;
   first_name?: string;
@@ -116,6 +477,16 @@ export interface UpdateUserTagsRequest {
   action: 'add' | 'remove' | 'replace';
 }
 
+export interface EnsureResult<T> {
+  value: T;
+  /** Whether a write was needed to reach the requested state */
+  changed: boolean;
+}
+
+export interface EnsureUserResult extends EnsureResult<User> {
+  created: boolean;
+}
+
 export interface EnrollUserRequest {
   user_id: string;
   product_id: string;
@@ -143,6 +514,282 @@ export interface Enrollment {
   completion_date?: string;
 }
 
+/** Product a payment, order line or invoice line is for */
+export type CommerceProductType = 'course' | 'bundle' | 'subscription';
+
+export interface Payment {
+  id: string;
+  user_id: string;
+  order_id?: string;
+  product_id: string;
+  product_type: CommerceProductType;
+  /** In the currency's major unit, e.g. 49.99 */
+  amount: number;
+  /** ISO 4217 code, e.g. `USD` */
+  currency: string;
+  status: 'succeeded' | 'pending' | 'failed' | 'refunded';
+  /** Payment provider, e.g. `stripe` or `paypal` */
+  gateway?: string;
+  transaction_id?: string;
+  coupon_code?: string;
+  created_at: string;
+  paid_at?: string;
+  refunded_at?: string;
+}
+
+export interface LineItem {
+  product_id: string;
+  product_type: CommerceProductType;
+  title?: string;
+  /** Unit price in the currency's major unit */
+  price: number;
+  quantity: number;
+}
+
+export interface Order {
+  id: string;
+  user_id: string;
+  status: 'pending' | 'completed' | 'cancelled' | 'refunded';
+  items: LineItem[];
+  subtotal: number;
+  discount?: number;
+  tax?: number;
+  total: number;
+  currency: string;
+  coupon_code?: string;
+  payment_id?: string;
+  invoice_id?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Subscription {
+  id: string;
+  user_id: string;
+  /** The subscription plan */
+  product_id: string;
+  plan_name?: string;
+  status: 'active' | 'trialing' | 'past_due' | 'cancelled' | 'expired';
+  interval: 'month' | 'year';
+  amount: number;
+  currency: string;
+  current_period_start: string;
+  current_period_end: string;
+  trial_ends_at?: string;
+  cancelled_at?: string;
+  created_at: string;
+}
+
+interface CouponFields {
+  description?: string;
+  /** Redemptions allowed across all users; unlimited when missing */
+  usage_limit?: number;
+  /** Redemptions allowed per user; unlimited when missing */
+  usage_limit_per_user?: number;
+  /** Smallest order subtotal the coupon applies to, in the currency's major unit */
+  minimum_amount?: number;
+  /** ISO-8601 date the coupon becomes valid */
+  valid_from?: string;
+  /** ISO-8601 date the coupon stops being valid */
+  valid_until?: string;
+  /** Courses the coupon applies to; with `bundle_ids` empty or missing it applies to every product */
+  course_ids?: Array<Course['id']>;
+  /** Bundles the coupon applies to */
+  bundle_ids?: Array<Bundle['id']>;
+}
+
+export interface PercentageDiscount {
+  discount_type: 'percentage';
+  /** Percentage off, from 0 to 100 */
+  discount_value: number;
+}
+
+export interface FixedDiscount {
+  discount_type: 'fixed';
+  /** Amount off in the currency's major unit */
+  discount_value: number;
+  /** ISO 4217 code, e.g. `USD` */
+  currency: string;
+}
+
+export type CouponDiscount = PercentageDiscount | FixedDiscount;
+
+export type Coupon = CouponFields &
+  CouponDiscount & {
+    id: string;
+    code: string;
+    is_active: boolean;
+    /** Number of redemptions so far */
+    times_used: number;
+    created_at: string;
+    updated_at: string;
+  };
+
+export type CreateCouponRequest = CouponFields &
+  CouponDiscount & {
+    code: string;
+    /** Default: true */
+    is_active?: boolean;
+  };
+
+/**
+ * The code and discount kind are fixed once a coupon exists
+ */
+export interface UpdateCouponRequest extends CouponFields {
+  discount_value?: number;
+  /** Only for fixed discounts */
+  currency?: string;
+  is_active?: boolean;
+}
+
+export interface CouponListFilters extends PaginationParams {
+  /** Codes containing this text */
+  search?: string;
+  is_active?: boolean;
+  /** Coupons that apply to this course or bundle */
+  product_id?: string;
+}
+
+/**
+ * Coupon settings shared by every generated code. Generated codes are single use.
+ */
+export type CouponTemplate = Omit<CouponFields, 'usage_limit' | 'usage_limit_per_user'> &
+  CouponDiscount & {
+    is_active?: boolean;
+  };
+
+export interface CouponCodeOptions {
+  /** Prepended to every code, e.g. `SPRING-` */
+  prefix?: string;
+  /** Random characters after the prefix (default: 8) */
+  length?: number;
+}
+
+export interface Invoice {
+  id: string;
+  /** Sequential invoice number shown to the customer */
+  number: string;
+  user_id: string;
+  order_id?: string;
+  status: 'draft' | 'open' | 'paid' | 'void';
+  items: LineItem[];
+  total: number;
+  currency: string;
+  issued_at: string;
+  paid_at?: string;
+  pdf_url?: string;
+}
+
+/**
+ * Filters shared by the payment, order, subscription and invoice lists
+ */
+export interface CommerceListFilters extends PaginationParams {
+  user_id?: string;
+  /** Records for this product, including orders and invoices with a line for it */
+  product_id?: string;
+  /** ISO-8601 date; only records created on or after it */
+  created_after?: string;
+  /** ISO-8601 date; only records created on or before it */
+  created_before?: string;
+}
+
+export interface PaymentListFilters extends CommerceListFilters {
+  status?: Payment['status'];
+}
+
+export interface OrderListFilters extends CommerceListFilters {
+  status?: Order['status'];
+}
+
+export interface SubscriptionListFilters extends CommerceListFilters {
+  status?: Subscription['status'];
+}
+
+export interface InvoiceListFilters extends CommerceListFilters {
+  status?: Invoice['status'];
+}
+
+export interface PaymentMatch {
+  enrollment: Enrollment;
+  /** Succeeded payments for the enrolled product */
+  payments: Payment[];
+}
+
+/**
+ * A user's enrollments joined with their payments by product
+ */
+export interface PaymentReconciliation {
+  user_id: string;
+  /** Enrollments with at least one succeeded payment for the product */
+  matched: PaymentMatch[];
+  /** Paid enrollments without a succeeded payment for the product */
+  unpaidEnrollments: Enrollment[];
+  /** Succeeded course and bundle payments for products the user is not enrolled in */
+  unmatchedPayments: Payment[];
+}
+
+export type WebhookEventType = 'user.enrolled' | 'course.completed' | 'payment.made' | 'user.updated';
+
+interface BaseWebhookEvent<TType extends WebhookEventType, TData> {
+  id: string;
+  type: TType;
+  created_at: string;
+  data: TData;
+}
+
+export type UserEnrolledEvent = BaseWebhookEvent<
+  'user.enrolled',
+  {
+    user: User;
+    enrollment: Enrollment;
+    product: Course | Bundle;
+  }
+>;
+
+export type CourseCompletedEvent = BaseWebhookEvent<
+  'course.completed',
+  {
+    user: User;
+    course: Course;
+    enrollment?: Enrollment;
+    completed_at: string;
+  }
+>;
+
+export type PaymentMadeEvent = BaseWebhookEvent<
+  'payment.made',
+  {
+    user: User;
+    product: Course | Bundle;
+    product_type: 'course' | 'bundle';
+    payment_id: string;
+    amount: number;
+    currency: string;
+    coupon_code?: string;
+    paid_at: string;
+  }
+>;
+
+export type UserUpdatedEvent = BaseWebhookEvent<
+  'user.updated',
+  {
+    user: User;
+    changed_fields?: string[];
+  }
+>;
+
+export type WebhookEvent = UserEnrolledEvent | CourseCompletedEvent | PaymentMadeEvent | UserUpdatedEvent;
+
+export type WebhookEventMap = {
+  [TEvent in WebhookEvent as TEvent['type']]: TEvent;
+};
+
+export interface FieldError {
+  field: string;
+  message: string;
+  code?: string;
+}
+
 export interface LearnWorldsError extends Error {
   status?: number;
   code?: string;
@@ -0,0 +1,238 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { WebhookEvent, WebhookEventMap, WebhookEventType } from './types.js';
+import { WebhookVerificationError } from './errors.js';
+import { getHeader } from './retry.js';
+import { hmacSha256Hex, timingSafeEqual } from './crypto.js';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'learnworlds-webhook-signature';
+
+export interface WebhookOptions {
+  /** Signing secret configured for the webhook in the LearnWorlds admin */
+  secret: string;
+  /** Maximum age of a signed request in seconds (default: 300) */
+  toleranceSeconds?: number;
+  /** Header carrying the signature (default: 'learnworlds-webhook-signature') */
+  signatureHeader?: string;
+}
+
+type WebhookHandler<T> = (event: T) => void | Promise<void>;
+
+type RawBody = string | Uint8Array;
+
+/**
+ * Sign a payload the way LearnWorlds does: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "t.body">`
+ */
+export async function computeWebhookSignature(
+  rawBody: RawBody,
+  secret: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): Promise<string> {
+  const signature = await hmacSha256Hex(secret, `${timestamp}.${bodyToString(rawBody)}`);
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Verify a signature header against the raw request body.
+ * Throws a `WebhookVerificationError` when the signature is missing, invalid or too old.
+ */
+export async function verifyWebhookSignature(
+  rawBody: RawBody,
+  signatureHeader: string | undefined,
+  secret: string,
+  toleranceSeconds = 300
+): Promise<void> {
+  if (!signatureHeader) {
+    throw new WebhookVerificationError('Missing webhook signature');
+  }
+
+  const parts = new Map<string, string[]>();
+  for (const part of signatureHeader.split(',')) {
+    const [key, value] = part.trim().split('=', 2);
+    if (key && value) {
+      parts.set(key, [...(parts.get(key) ?? []), value]);
+    }
+  }
+
+  const timestamp = Number(parts.get('t')?.[0]);
+  const signatures = parts.get('v1') ?? [];
+
+  if (!timestamp || signatures.length === 0) {
+    throw new WebhookVerificationError('Malformed webhook signature');
+  }
+
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) {
+    throw new WebhookVerificationError('Webhook timestamp is outside the tolerance window');
+  }
+
+  const expected = await hmacSha256Hex(secret, `${timestamp}.${bodyToString(rawBody)}`);
+
+  // Check every candidate so timing does not reveal which one matched
+  const matches = signatures.map((signature) => timingSafeEqual(signature, expected));
+  if (!matches.includes(true)) {
+    throw new WebhookVerificationError('Invalid webhook signature');
+  }
+}
+
+function bodyToString(rawBody: RawBody): string {
+  return typeof rawBody === 'string' ? rawBody : new TextDecoder().decode(rawBody);
+}
+
+/**
+ * Verifies, parses and dispatches LearnWorlds webhook requests
+ */
+export class WebhookReceiver {
+  private options: Required<WebhookOptions>;
+  private handlers = new Map<WebhookEventType | '*', Array<WebhookHandler<never>>>();
+
+  constructor(options: WebhookOptions) {
+    this.options = {
+      toleranceSeconds: 300,
+      signatureHeader: WEBHOOK_SIGNATURE_HEADER,
+      ...options,
+    };
+  }
+
+  /**
+   * Register a handler for an event type, or `'*'` for every event
+   */
+  on<T extends WebhookEventType>(type: T, handler: WebhookHandler<WebhookEventMap[T]>): this;
+  on(type: '*', handler: WebhookHandler<WebhookEvent>): this;
+  on(type: WebhookEventType | '*', handler: WebhookHandler<never>): this {
+    this.handlers.set(type, [...(this.handlers.get(type) ?? []), handler]);
+    return this;
+  }
+
+  /**
+   * Verify the signature and parse the body into a typed event, without dispatching it
+   */
+  async constructEvent(rawBody: RawBody, signatureHeader: string | undefined): Promise<WebhookEvent> {
+    await verifyWebhookSignature(rawBody, signatureHeader, this.options.secret, this.options.toleranceSeconds);
+
+    let event: WebhookEvent;
+    try {
+      event = JSON.parse(bodyToString(rawBody)) as WebhookEvent;
+    } catch (error) {
+      throw new WebhookVerificationError('Webhook body is not valid JSON', { cause: error });
+    }
+
+    if (!event || typeof event.type !== 'string' || typeof event.data !== 'object' || event.data === null) {
+      throw new WebhookVerificationError('Webhook body is not a LearnWorlds event');
+    }
+
+    return event;
+  }
+
+  /**
+   * Verify, parse and dispatch a webhook to the registered handlers
+   */
+  async handle(rawBody: RawBody, headers: Record<string, unknown>): Promise<WebhookEvent> {
+    const event = await this.constructEvent(rawBody, getHeader(headers, this.options.signatureHeader));
+
+    const handlers = [...(this.handlers.get(event.type) ?? []), ...(this.handlers.get('*') ?? [])];
+    for (const handler of handlers) {
+      await (handler as WebhookHandler<WebhookEvent>)(event);
+    }
+
+    return event;
+  }
+
+  /**
+   * Handle a Fetch API request (edge runtimes, Next.js route handlers, Deno, Bun)
+   */
+  async handleRequest(request: Request): Promise<Response> {
+    const rawBody = new Uint8Array(await request.arrayBuffer());
+    const headers = Object.fromEntries(request.headers.entries());
+
+    try {
+      await this.handle(rawBody, headers);
+      return jsonResponse(200, { received: true });
+    } catch (error) {
+      if (error instanceof WebhookVerificationError) {
+        return jsonResponse(400, { error: error.message });
+      }
+      return jsonResponse(500, { error: 'Webhook handler failed' });
+    }
+  }
+
+  /**
+   * Create a listener for Node's `http.createServer`
+   */
+  nodeHandler(): (req: IncomingMessage, res: ServerResponse) => Promise<void> {
+    return async (req, res) => {
+      try {
+        await this.handle(await readStream(req), req.headers);
+        sendJson(res, 200, { received: true });
+      } catch (error) {
+        if (error instanceof WebhookVerificationError) {
+          sendJson(res, 400, { error: error.message });
+        } else {
+          sendJson(res, 500, { error: 'Webhook handler failed' });
+        }
+      }
+    };
+  }
+
+  /**
+   * Create Express middleware. Mount it with `express.raw({ type: 'application/json' })`
+   * (or no body parser at all) so the signature is checked against the raw body.
+   */
+  expressHandler(): (
+    req: IncomingMessage & { body?: unknown },
+    res: ServerResponse,
+    next: (error?: unknown) => void
+  ) => Promise<void> {
+    return async (req, res, next) => {
+      let rawBody: RawBody;
+      if (typeof req.body === 'string' || req.body instanceof Uint8Array) {
+        rawBody = req.body;
+      } else if (req.body === undefined) {
+        rawBody = await readStream(req);
+      } else {
+        next(new WebhookVerificationError('Webhook body was already parsed; use express.raw() for this route'));
+        return;
+      }
+
+      try {
+        await this.handle(rawBody, req.headers);
+        sendJson(res, 200, { received: true });
+      } catch (error) {
+        if (error instanceof WebhookVerificationError) {
+          sendJson(res, 400, { error: error.message });
+        } else {
+          next(error);
+        }
+      }
+    };
+  }
+}
+
+async function readStream(stream: AsyncIterable<Uint8Array | string>): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+  }
+
+  const body = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+
+  return body;
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader('Content-Type', 'application/json');
+  res.end(JSON.stringify(body));
+}